@@ -0,0 +1,21 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  parserOptions: {
+    ecmaVersion: 2020,
+    sourceType: 'module',
+  },
+  plugins: ['@typescript-eslint'],
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  env: {
+    node: true,
+    es2020: true,
+  },
+  ignorePatterns: ['dist/', 'node_modules/', 'src/ui/'],
+  rules: {
+    // LLM output and API responses are typed where they are parsed; unchecked data is `unknown`
+    '@typescript-eslint/no-explicit-any': 'error',
+    // `const { secret, ...rest } = value` is how fields are left out of responses
+    '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', ignoreRestSiblings: true }],
+  },
+};
@@ -13,7 +13,7 @@ module.exports = {
     '!src/**/*.test.ts',
     '!src/**/__tests__/**',
   ],
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
 };
\ No newline at end of file
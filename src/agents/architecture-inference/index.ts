@@ -1,5 +1,4 @@
 import { 
-  Repository, 
   FileStructure, 
   RepositoryAnalysis,
   ArchitectureAnalysis,
@@ -8,21 +7,20 @@ import {
   EntryPoint,
   TechStack,
   FileInfo,
-  FileCategory
+  FileCategory,
+  AgentRunOptions,
+  AgentStep
 } from '../../shared/types';
 import { 
   LLMClient, 
+  describeAnalysisScope,
+  classifyFile,
+  hashPromptBuilders,
+  AgentCacheIdentity,
+  runAgentStep,
   logInfo, 
   logError 
 } from '../../shared/utils';
-import { 
-  logStep,
-  logProgress,
-  logSuccess,
-  logAnalysisError,
-  logAICall,
-  logArchitectureDetection
-} from '../../shared/utils/simple-enhanced-logger';
 import { 
   logAgent2Input,
   logAgent2Output,
@@ -30,13 +28,37 @@ import {
   agentIOLogger
 } from '../../shared/utils/agent-io-logger';
 
+// Part of the cache key for this agent's output; bump when the analysis logic changes
+const AGENT_VERSION = '1.0.0';
+
+// Languages that orchestrate or build the programs rather than implement them
+const SUPPORTING_LANGUAGES = ['JCL', 'Shell', 'Batchfile', 'PowerShell', 'Makefile', 'Dockerfile', 'CMake'];
+
+// What the steps work out on the way to the analysis, which generateAnalysis assembles
+export interface ArchitectureInferenceMetadata {
+  inputId: string;
+  startTime: number;
+  detectedPatterns?: string[];
+  patternDetectionMethod?: string;
+  fileStructureJson?: object;
+  techStack?: TechStack;
+  components?: ComponentInfo[];
+  entryPoints?: EntryPoint[];
+}
+
+// A file as the pattern detection prompt lists it under its directory
+type DirectoryFile = Pick<FileInfo, 'name' | 'path' | 'extension' | 'type' | 'size' | 'category' | 'language'> & {
+  hasContent: boolean;
+};
+
 export interface ArchitectureInferenceState {
   repositoryAnalysis: RepositoryAnalysis;
   architectureAnalysis?: ArchitectureAnalysis;
+  signal?: AbortSignal;
   currentStep: string;
   progress: number;
   errors: string[];
-  metadata: Record<string, any>;
+  metadata: ArchitectureInferenceMetadata;
 }
 
 export class ArchitectureInferenceAgent {
@@ -46,6 +68,10 @@ export class ArchitectureInferenceAgent {
     this.llmClient = new LLMClient({ provider: 'gemini' });
   }
 
+  getCacheIdentity(): AgentCacheIdentity {
+    return { agent: 'architecture-inference', version: AGENT_VERSION, promptHash: hashPromptBuilders(this) };
+  }
+
   private async detectArchitecturePatterns(state: ArchitectureInferenceState): Promise<ArchitectureInferenceState> {
     try {
       logInfo('Detecting architecture patterns using AI');
@@ -56,7 +82,7 @@ export class ArchitectureInferenceAgent {
       const fileStructureJson = this.createFileStructureJson(fileStructure);
       
       // Use AI to detect patterns from file structure
-      const patterns = await this.detectPatternsWithAI(fileStructureJson, state.repositoryAnalysis);
+      const patterns = await this.detectPatternsWithAI(fileStructureJson, state.repositoryAnalysis, state.signal);
       
       return {
         ...state,
@@ -200,7 +226,8 @@ export class ArchitectureInferenceAgent {
               modernizationPriority: 'low | medium | high'
             }
           }),
-          'You are an expert software architect analyzing repository structure to infer architecture patterns and provide modernization recommendations.'
+          'You are an expert software architect analyzing repository structure to infer architecture patterns and provide modernization recommendations.',
+          { signal: state.signal }
         );
       } catch (error) {
         logError('Full architecture analysis failed, trying simplified approach', error as Error);
@@ -254,7 +281,8 @@ export class ArchitectureInferenceAgent {
               modernizationPriority: 'low | medium | high'
             }
           }),
-          'You are an expert software architect. Provide a concise architecture analysis.'
+          'You are an expert software architect. Provide a concise architecture analysis.',
+          { signal: state.signal }
         );
       }
       
@@ -314,43 +342,10 @@ export class ArchitectureInferenceAgent {
     }
   }
 
-  private createFileStructureJson(fileStructure: FileStructure): any {
+  private createFileStructureJson(fileStructure: FileStructure): object {
     try {
-      // Create a hierarchical directory structure
-      const directoryTree: any = {};
-      
-      fileStructure.files.forEach(file => {
-        const pathParts = file.path.split('/');
-        let current = directoryTree;
-        
-        // Build nested directory structure
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const part = pathParts[i];
-          if (!current[part]) {
-            current[part] = {
-              type: 'directory',
-              children: {},
-              files: []
-            };
-          }
-          current = current[part].children;
-        }
-        
-        // Add file to the final directory
-        const fileName = pathParts[pathParts.length - 1];
-        if (!current.files) current.files = [];
-        current.files.push({
-          name: fileName,
-          path: file.path,
-          type: file.type,
-          extension: file.extension,
-          size: file.size,
-          hasContent: !!file.content
-        });
-      });
-      
       // Create flat structure for AI analysis
-      const filesByDirectory = new Map<string, any[]>();
+      const filesByDirectory = new Map<string, DirectoryFile[]>();
       
       fileStructure.files.forEach(file => {
         const directory = file.path.includes('/') 
@@ -368,6 +363,7 @@ export class ArchitectureInferenceAgent {
           type: file.type,
           size: file.size,
           category: file.category,
+          language: file.language,
           hasContent: !!file.content
         });
       });
@@ -438,7 +434,7 @@ export class ArchitectureInferenceAgent {
     return 'source_code';
   }
   
-  private inferDirectoryPurpose(directory: string, files: any[]): string {
+  private inferDirectoryPurpose(directory: string, files: DirectoryFile[]): string {
     const lower = directory.toLowerCase();
     const fileNames = files.map(f => f.name.toLowerCase()).join(' ');
     
@@ -464,12 +460,12 @@ export class ArchitectureInferenceAgent {
     if (fileNames.includes('controller')) return 'mvc_controllers';
     if (fileNames.includes('service')) return 'business_services';
     if (fileNames.includes('model')) return 'data_models';
-    if (files.some(f => f.extension === 'test.js' || f.extension === 'spec.js')) return 'testing';
+    if (files.length > 0 && files.every(f => f.category === 'test')) return 'testing';
     
     return 'source_code';
   }
   
-  private async detectPatternsWithAI(fileStructureJson: any, repositoryAnalysis: any): Promise<string[]> {
+  private async detectPatternsWithAI(fileStructureJson: object, repositoryAnalysis: RepositoryAnalysis, signal?: AbortSignal): Promise<string[]> {
     try {
       const prompt = this.createPatternDetectionPrompt(fileStructureJson, repositoryAnalysis);
       
@@ -496,7 +492,8 @@ export class ArchitectureInferenceAgent {
           architecturalStyle: 'string',
           reasoning: 'string'
         }),
-        'You are an expert software architect analyzing repository structure to identify architectural patterns. Focus on file organization, naming conventions, and directory structures to detect common architectural patterns.'
+        'You are an expert software architect analyzing repository structure to identify architectural patterns. Focus on file organization, naming conventions, and directory structures to detect common architectural patterns.',
+        { signal }
       );
       
       // Extract pattern names for compatibility with existing code
@@ -518,7 +515,7 @@ export class ArchitectureInferenceAgent {
     }
   }
   
-  private createPatternDetectionPrompt(fileStructureJson: any, repositoryAnalysis: any): string {
+  private createPatternDetectionPrompt(fileStructureJson: object, repositoryAnalysis: RepositoryAnalysis): string {
     return `
 Analyze this repository's file structure to identify architectural patterns:
 
@@ -666,6 +663,14 @@ Focus on what the file structure actually shows, not what you might expect based
       this.analyzeCargoToml(cargoToml.content, techStack);
     }
     
+    // Legacy ecosystems rarely have a manifest, so look at the sources themselves
+    this.analyzeMainframeSources(fileStructure.files, techStack);
+    this.analyzeDatabaseSources(fileStructure.files, techStack);
+    this.analyzeVisualBasic6(fileStructure.files, techStack);
+    this.analyzeDelphi(fileStructure.files, techStack);
+    this.analyzePerl(fileStructure.files, techStack);
+    this.analyzeClassicAsp(fileStructure.files, techStack);
+    
     // Infer language from file extensions
     if (techStack.language === 'Unknown') {
       techStack.language = this.inferLanguageFromFiles(fileStructure);
@@ -745,42 +750,122 @@ Focus on what the file structure actually shows, not what you might expect based
     if (content.includes('tokio')) techStack.frameworks.push('Tokio');
   }
 
-  private inferLanguageFromFiles(fileStructure: FileStructure): string {
-    const extensions = fileStructure.files
-      .filter(f => f.extension)
-      .map(f => f.extension!.toLowerCase());
+  private addTechnology(list: string[], name: string): void {
+    if (!list.includes(name)) list.push(name);
+  }
+
+  private joinContents(files: FileInfo[]): string {
+    return files.map(f => f.content || '').join('\n');
+  }
+
+  private analyzeMainframeSources(files: FileInfo[], techStack: TechStack): void {
+    const sources = files.filter(f => f.language === 'COBOL' || f.language === 'JCL');
+    if (sources.length === 0) return;
+    
+    const content = this.joinContents(sources);
+    
+    if (sources.some(f => f.language === 'JCL')) this.addTechnology(techStack.tools, 'JCL');
+    if (/EXEC\s+CICS\b/i.test(content)) this.addTechnology(techStack.frameworks, 'CICS');
+    if (/EXEC\s+SQL\b|\bPGM=(?:IKJEFT0[1B]|DSNUTILB)\b/i.test(content)) this.addTechnology(techStack.databases, 'DB2');
+    if (/EXEC\s+DLI\b|\bCBLTDLI\b|\bDFSRRC00\b/i.test(content)) this.addTechnology(techStack.databases, 'IMS DB');
+    if (/ORGANIZATION\s+IS\s+INDEXED|\bIDCAMS\b|\bVSAM\b/i.test(content)) this.addTechnology(techStack.databases, 'VSAM');
+    if (/\bPGM=(?:SORT|ICETOOL|DFSORT|SYNCSORT)\b/i.test(content)) this.addTechnology(techStack.tools, 'DFSORT');
+    if (/\bMQ(?:PUT|GET|OPEN|CONN)\b/i.test(content)) this.addTechnology(techStack.libraries, 'IBM MQ');
+  }
+
+  private analyzeDatabaseSources(files: FileInfo[], techStack: TechStack): void {
+    if (files.some(f => f.language === 'PL/SQL')) this.addTechnology(techStack.databases, 'Oracle');
+    if (files.some(f => f.language === 'T-SQL')) this.addTechnology(techStack.databases, 'SQL Server');
+  }
+
+  private analyzeVisualBasic6(files: FileInfo[], techStack: TechStack): void {
+    const sources = files.filter(f => f.language === 'Visual Basic 6');
+    if (sources.length === 0) return;
     
-    const counts = extensions.reduce((acc, ext) => {
-      acc[ext] = (acc[ext] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    const content = this.joinContents(sources);
     
-    const mostCommon = Object.entries(counts)
-      .sort(([, a], [, b]) => b - a)[0];
+    if (sources.some(f => f.extension?.toLowerCase() === 'vbp')) techStack.buildSystem = techStack.buildSystem || 'VB6 project (.vbp)';
+    if (sources.some(f => f.extension?.toLowerCase() === 'frm')) this.addTechnology(techStack.frameworks, 'VB6 Forms');
+    if (/\bADODB\b/i.test(content)) this.addTechnology(techStack.libraries, 'ADO');
+    if (/\bDAO\.(?:Database|Recordset)\b/i.test(content)) this.addTechnology(techStack.libraries, 'DAO');
+    if (/\bMSComctlLib\b/i.test(content)) this.addTechnology(techStack.libraries, 'Microsoft Common Controls');
+    if (/\bCrystal(?:Report|\.)/i.test(content)) this.addTechnology(techStack.libraries, 'Crystal Reports');
+    if (/\bMSWinsockLib\b/i.test(content)) this.addTechnology(techStack.libraries, 'Winsock');
+    this.analyzeConnectionStrings(content, techStack);
+  }
+
+  private analyzeDelphi(files: FileInfo[], techStack: TechStack): void {
+    const sources = files.filter(f => f.language === 'Delphi' || f.language === 'Delphi Form' || f.extension?.toLowerCase() === 'dproj');
+    if (sources.length === 0) return;
     
-    if (!mostCommon) return 'Unknown';
+    const content = this.joinContents(sources);
     
-    const langMap: Record<string, string> = {
-      'js': 'JavaScript',
-      'ts': 'TypeScript',
-      'jsx': 'JavaScript',
-      'tsx': 'TypeScript',
-      'py': 'Python',
-      'java': 'Java',
-      'cs': 'C#',
-      'cpp': 'C++',
-      'c': 'C',
-      'go': 'Go',
-      'rs': 'Rust',
-      'php': 'PHP',
-      'rb': 'Ruby',
-      'swift': 'Swift',
-      'kt': 'Kotlin',
-      'scala': 'Scala',
-      'dart': 'Dart'
-    };
+    if (sources.some(f => f.extension?.toLowerCase() === 'dproj')) techStack.buildSystem = techStack.buildSystem || 'MSBuild';
+    if (/\buses\b[^;]*\b(?:Vcl\.)?Forms\b/i.test(content)) this.addTechnology(techStack.frameworks, 'VCL');
+    if (/\bFMX\./.test(content)) this.addTechnology(techStack.frameworks, 'FireMonkey');
+    if (/\bFireDAC\./.test(content)) this.addTechnology(techStack.libraries, 'FireDAC');
+    if (/\bDBTables\b/.test(content)) this.addTechnology(techStack.libraries, 'BDE');
+    if (/\b(?:SqlExpr|DBXCommon)\b/.test(content)) this.addTechnology(techStack.libraries, 'dbExpress');
+    if (/\bADODB\b/.test(content)) this.addTechnology(techStack.libraries, 'ADO');
+    if (/\bIB(?:Database|X\.)/.test(content)) this.addTechnology(techStack.databases, 'InterBase/Firebird');
+  }
+
+  private analyzePerl(files: FileInfo[], techStack: TechStack): void {
+    const sources = files.filter(f => f.language === 'Perl');
+    const hasCpanfile = files.some(f => f.name === 'cpanfile');
+    const hasMakefilePl = files.some(f => f.name === 'Makefile.PL');
+    const hasBuildPl = files.some(f => f.name === 'Build.PL');
+    if (sources.length === 0 && !hasCpanfile) return;
+    
+    const content = this.joinContents(sources);
+    
+    if (hasCpanfile || hasMakefilePl || hasBuildPl) techStack.packageManager = techStack.packageManager || 'CPAN';
+    if (hasMakefilePl) techStack.buildSystem = techStack.buildSystem || 'ExtUtils::MakeMaker';
+    if (hasBuildPl) techStack.buildSystem = techStack.buildSystem || 'Module::Build';
+    if (/\buse\s+CGI\b/.test(content)) this.addTechnology(techStack.frameworks, 'CGI.pm');
+    if (/\buse\s+Mojo(?:licious)?\b/.test(content)) this.addTechnology(techStack.frameworks, 'Mojolicious');
+    if (/\buse\s+Dancer2?\b/.test(content)) this.addTechnology(techStack.frameworks, 'Dancer');
+    if (/\buse\s+Catalyst\b/.test(content)) this.addTechnology(techStack.frameworks, 'Catalyst');
+    if (/\buse\s+DBI\b/.test(content)) this.addTechnology(techStack.libraries, 'DBI');
+    if (/DBD::Oracle|dbi:Oracle/i.test(content)) this.addTechnology(techStack.databases, 'Oracle');
+    if (/DBD::mysql|dbi:mysql/i.test(content)) this.addTechnology(techStack.databases, 'MySQL');
+    if (/DBD::Pg|dbi:Pg/i.test(content)) this.addTechnology(techStack.databases, 'PostgreSQL');
+  }
+
+  private analyzeClassicAsp(files: FileInfo[], techStack: TechStack): void {
+    const sources = files.filter(f => f.language === 'Classic ASP');
+    if (sources.length === 0) return;
+    
+    const content = this.joinContents(sources);
     
-    return langMap[mostCommon[0]] || 'Unknown';
+    this.addTechnology(techStack.frameworks, 'Classic ASP');
+    this.addTechnology(techStack.tools, 'IIS');
+    if (/\bADODB\./i.test(content)) this.addTechnology(techStack.libraries, 'ADO');
+    this.analyzeConnectionStrings(content, techStack);
+  }
+
+  /** OLE DB and ODBC connection strings, as used from VB6 and classic ASP */
+  private analyzeConnectionStrings(content: string, techStack: TechStack): void {
+    if (/Provider\s*=\s*SQLOLEDB|Driver=\{SQL Server\}/i.test(content)) this.addTechnology(techStack.databases, 'SQL Server');
+    if (/Provider\s*=\s*(?:MSDAORA|OraOLEDB)/i.test(content)) this.addTechnology(techStack.databases, 'Oracle');
+    if (/Microsoft\.(?:Jet|ACE)\.OLEDB|\.mdb\b/i.test(content)) this.addTechnology(techStack.databases, 'Microsoft Access');
+  }
+
+  private inferLanguageFromFiles(fileStructure: FileStructure): string {
+    const counts = fileStructure.files
+      .filter(f => f.type === 'file')
+      .map(f => (f.category ? f : { ...f, ...classifyFile(f) }))
+      .filter(f => f.category === 'source' && f.language)
+      .reduce((acc, f) => {
+        acc[f.language!] = (acc[f.language!] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>);
+    
+    // Job control and build scripts drive the programs, so they only win when nothing else is there
+    const ranked = Object.entries(counts).sort(([, a], [, b]) => b - a);
+    const mostCommon = ranked.find(([language]) => !SUPPORTING_LANGUAGES.includes(language)) || ranked[0];
+    
+    return mostCommon ? mostCommon[0] : 'Unknown';
   }
 
   private async identifyComponents(fileStructure: FileStructure): Promise<ComponentInfo[]> {
@@ -865,6 +950,12 @@ Focus on what the file structure actually shows, not what you might expect based
     ];
     
     fileStructure.files.forEach(file => {
+      const legacyEntryPoint = this.identifyLegacyEntryPoint(file);
+      if (legacyEntryPoint) {
+        entryPoints.push(legacyEntryPoint);
+        return;
+      }
+      
       for (const { pattern, type } of entryPointPatterns) {
         if (pattern.test(file.path) || pattern.test(file.name)) {
           entryPoints.push({
@@ -880,6 +971,64 @@ Focus on what the file structure actually shows, not what you might expect based
     return entryPoints;
   }
 
+  /**
+   * Entry points of legacy programs, which follow language conventions rather than file
+   * names: COBOL main programs, JCL jobs, Delphi and VB6 projects, Perl scripts and
+   * classic ASP applications. Files that are only called by others return undefined.
+   */
+  private identifyLegacyEntryPoint(file: FileInfo): EntryPoint | undefined {
+    const content = file.content || '';
+    const extension = file.extension?.toLowerCase();
+    
+    switch (file.language) {
+      case 'COBOL': {
+        const programId = content.match(/PROGRAM-ID\.\s*['"]?([\w-]+)/i)?.[1];
+        // Subprograms receive their parameters with PROCEDURE DIVISION USING
+        if (!programId || /PROCEDURE\s+DIVISION\s+USING\b/i.test(content)) return undefined;
+        return /EXEC\s+CICS\b/i.test(content)
+          ? { file: file.path, type: 'api', description: `CICS transaction program ${programId}` }
+          : { file: file.path, type: 'main', description: `COBOL program ${programId}` };
+      }
+      case 'JCL': {
+        const job = content.match(/^\/\/(\S+)\s+JOB\b/m)?.[1];
+        const steps = Array.from(content.matchAll(/^\/\/(\S+)\s+EXEC\s+(?:PGM=([\w#@$]+)|(?:PROC=)?([\w#@$]+))/gm), match =>
+          `${match[1]} (${match[2] ? `PGM=${match[2]}` : `PROC=${match[3]}`})`
+        );
+        return {
+          file: file.path,
+          type: 'main',
+          description: `Batch job ${job || file.name}${steps.length > 0 ? `: ${steps.join(', ')}` : ''}`
+        };
+      }
+      case 'Delphi':
+        if (extension === 'dpr' && !/^\s*library\b/im.test(content)) {
+          return { file: file.path, type: 'main', description: `Delphi program: ${file.name}` };
+        }
+        return undefined;
+      case 'Visual Basic 6': {
+        if (extension === 'vbp') {
+          const startup = content.match(/^Startup="([^"]+)"/m)?.[1];
+          return { file: file.path, type: 'main', description: `VB6 project${startup ? ` starting with ${startup}` : ''}: ${file.name}` };
+        }
+        if (extension === 'bas' && /^\s*(?:Public\s+)?Sub\s+Main\s*\(/im.test(content)) {
+          return { file: file.path, type: 'main', description: `VB6 Sub Main: ${file.name}` };
+        }
+        return undefined;
+      }
+      case 'Perl':
+        if (extension === 'cgi') return { file: file.path, type: 'web', description: `CGI script: ${file.name}` };
+        if (content.startsWith('#!') && file.category !== 'test') return { file: file.path, type: 'cli', description: `Perl script: ${file.name}` };
+        return undefined;
+      case 'Classic ASP':
+        if (/^(global\.asa|default\.asp|index\.asp)$/i.test(file.name)) {
+          return { file: file.path, type: 'web', description: `Classic ASP application entry: ${file.name}` };
+        }
+        return undefined;
+      default:
+        return undefined;
+    }
+  }
+
   private getEntryPointDescription(file: FileInfo, type: EntryPoint['type']): string {
     switch (type) {
       case 'main': return `Main application entry point: ${file.name}`;
@@ -911,7 +1060,7 @@ Complexity: ${summary.complexity}
 - Config files: ${fileStructure.categories.config?.length || 0}
 - Test files: ${fileStructure.categories.test?.length || 0}
 - Documentation files: ${fileStructure.categories.documentation?.length || 0}
-
+${describeAnalysisScope(repositoryAnalysis.scope)}
 ## Technical Stack
 - Language: ${techStack?.language || 'Unknown'}
 - Frameworks: ${techStack?.frameworks?.join(', ') || 'None'}
@@ -963,7 +1112,7 @@ Analyze this repository concisely:
 - Source: ${fileStructure.categories.source?.length || 0}
 - Config: ${fileStructure.categories.config?.length || 0}
 - Tests: ${fileStructure.categories.test?.length || 0}
-
+${describeAnalysisScope(repositoryAnalysis.scope)}
 ## Tech Stack
 ${techStack?.language || 'Unknown'} ${techStack?.frameworks?.join(', ') || ''}
 
@@ -979,64 +1128,70 @@ Keep responses concise but comprehensive.
     `;
   }
 
-  async analyze(repositoryAnalysis: RepositoryAnalysis): Promise<ArchitectureAnalysis> {
-    const startTime = Date.now();
-    
+  /** Logs the input of a run and returns the state its first step works on */
+  async start(repositoryAnalysis: RepositoryAnalysis, options: AgentRunOptions = {}): Promise<ArchitectureInferenceState> {
     // Log exact input to Agent 2
     const inputId = await logAgent2Input(repositoryAnalysis);
-    
-    try {
-      let state: ArchitectureInferenceState = {
-        repositoryAnalysis,
-        currentStep: 'init',
-        progress: 0,
-        errors: [],
-        metadata: {}
-      };
 
-      // Execute workflow steps sequentially
-      state = await this.detectArchitecturePatterns(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Pattern detection failed: ${state.errors.join(', ')}`);
-      }
+    return {
+      repositoryAnalysis,
+      signal: options.signal,
+      currentStep: 'init',
+      progress: 0,
+      errors: [],
+      metadata: { inputId, startTime: Date.now() }
+    };
+  }
 
-      state = await this.analyzeTechStack(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Tech stack analysis failed: ${state.errors.join(', ')}`);
-      }
+  getSteps(): AgentStep<ArchitectureInferenceState>[] {
+    return [
+      { name: 'detect_patterns', description: 'Pattern detection', run: state => this.detectArchitecturePatterns(state) },
+      { name: 'analyze_tech_stack', description: 'Tech stack analysis', run: state => this.analyzeTechStack(state) },
+      { name: 'infer_components', description: 'Component inference', run: state => this.inferComponents(state) },
+      { name: 'generate_analysis', description: 'Architecture analysis', run: state => this.generateArchitectureAnalysis(state) }
+    ];
+  }
 
-      state = await this.inferComponents(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Component inference failed: ${state.errors.join(', ')}`);
-      }
+  /** The analysis the last step produced, with the run's output logged */
+  async finish(state: ArchitectureInferenceState): Promise<ArchitectureAnalysis> {
+    // Steps fall back to heuristics when the LLM call fails, aborts included
+    state.signal?.throwIfAborted();
+    
+    if (!state.architectureAnalysis) {
+      throw new Error('Architecture analysis not completed');
+    }
+    
+    // Calculate execution time
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
+    
+    // Log exact output from Agent 2
+    await logAgent2Output(state.architectureAnalysis, state.metadata.inputId, executionTime);
+    
+    // Log comparison between input and output
+    await agentIOLogger.logComparison('Architecture Inference Agent', 'analyze', state.repositoryAnalysis, state.architectureAnalysis);
+    
+    return state.architectureAnalysis;
+  }
 
-      state = await this.generateArchitectureAnalysis(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Architecture analysis failed: ${state.errors.join(', ')}`);
-      }
-      
-      if (!state.architectureAnalysis) {
-        throw new Error('Architecture analysis not completed');
+  async fail(state: ArchitectureInferenceState, error: Error): Promise<void> {
+    // Calculate execution time for error
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
+    
+    // Log error with input context
+    await logAgent2Error(error, state.metadata.inputId, executionTime);
+    
+    logError('Architecture inference failed', error);
+  }
+
+  async analyze(repositoryAnalysis: RepositoryAnalysis, options: AgentRunOptions = {}): Promise<ArchitectureAnalysis> {
+    let state = await this.start(repositoryAnalysis, options);
+    try {
+      for (const step of this.getSteps()) {
+        state = await runAgentStep(step, state);
       }
-      
-      // Calculate execution time
-      const executionTime = (Date.now() - startTime) / 1000;
-      
-      // Log exact output from Agent 2
-      await logAgent2Output(state.architectureAnalysis, inputId, executionTime);
-      
-      // Log comparison between input and output
-      await agentIOLogger.logComparison('Architecture Inference Agent', 'analyze', repositoryAnalysis, state.architectureAnalysis);
-      
-      return state.architectureAnalysis;
+      return await this.finish(state);
     } catch (error) {
-      // Calculate execution time for error
-      const executionTime = (Date.now() - startTime) / 1000;
-      
-      // Log error with input context
-      await logAgent2Error(error as Error, inputId, executionTime);
-      
-      logError('Architecture inference failed', error as Error);
+      await this.fail(state, error as Error);
       throw error;
     }
   }
@@ -16,10 +16,16 @@ import {
   DataStore,
   DataTransformation,
   DataBottleneck,
-  FileInfo
+  DependencyNode,
+  FileInfo,
+  AgentRunOptions,
+  AgentStep
 } from '../../shared/types';
 import { LLMClient } from '../../shared/utils/llm-client';
 import { logInfo, logError } from '../../shared/utils/logger';
+import { describeAnalysisScope } from '../../shared/utils/analysis-scope';
+import { AgentCacheIdentity, hashPromptBuilders } from '../../shared/utils/analysis-cache';
+import { runAgentStep } from '../../shared/utils/agent-steps';
 import { 
   logAgent3Input,
   logAgent3Output,
@@ -27,14 +33,46 @@ import {
   agentIOLogger
 } from '../../shared/utils/agent-io-logger';
 
-interface CodeFlowState {
+// Part of the cache key for this agent's output; bump when the analysis logic changes
+const AGENT_VERSION = '1.0.0';
+
+// What the steps work out on the way to the analysis, which finalizeAnalysis assembles
+export interface CodeFlowMetadata {
+  inputId: string;
+  startTime: number;
+  entryPoints?: CodeEntryPoint[];
+  mainEntryPoint?: string;
+  entryPointsNotes?: string;
+  executionPaths?: ExecutionPath[];
+  callGraphs?: CallGraph[];
+  moduleInteractions?: ModuleInteraction[];
+  cyclomaticComplexity?: number;
+  flowPatterns?: string[];
+  internalDependencies?: InternalDependency[];
+  externalDependencies?: ExternalDependency[];
+  circularDependencies?: CircularDependency[];
+  dependencyRiskLevel?: DependencyInfo['riskLevel'];
+  dependencyNotes?: string;
+  dataStreams?: DataStream[];
+  dataStores?: DataStore[];
+  dataTransformations?: DataTransformation[];
+  dataFlowPatterns?: string[];
+  dataBottlenecks?: DataBottleneck[];
+  codeFlowRecommendations?: string[];
+  codeFlowComplexity?: CodeFlowAnalysis['complexity'];
+  priorityActions?: string[];
+  riskFactors?: string[];
+}
+
+export interface CodeFlowState {
   repositoryAnalysis: RepositoryAnalysis;
   architectureAnalysis: ArchitectureAnalysis;
   codeFlowAnalysis?: CodeFlowAnalysis;
+  signal?: AbortSignal;
   currentStep: string;
   progress: number;
   errors: string[];
-  metadata: Record<string, any>;
+  metadata: CodeFlowMetadata;
 }
 
 export class CodeFlowAgent {
@@ -44,6 +82,10 @@ export class CodeFlowAgent {
     this.llmClient = new LLMClient({ provider: 'gemini' });
   }
 
+  getCacheIdentity(): AgentCacheIdentity {
+    return { agent: 'code-flow', version: AGENT_VERSION, promptHash: hashPromptBuilders(this) };
+  }
+
   private async analyzeEntryPoints(state: CodeFlowState): Promise<CodeFlowState> {
     try {
       logInfo('Analyzing code entry points');
@@ -73,7 +115,8 @@ export class CodeFlowAgent {
           mainEntryPoint: 'string',
           analysisNotes: 'string'
         }),
-        'You are an expert code analyst specialized in identifying application entry points and execution flows.'
+        'You are an expert code analyst specialized in identifying application entry points and execution flows.',
+        { signal: state.signal }
       );
 
       return {
@@ -183,7 +226,8 @@ export class CodeFlowAgent {
             cyclomaticComplexity: 'number',
             flowPatterns: ['string']
           }),
-          'You are an expert code analyst specialized in tracing execution paths and call graphs.'
+          'You are an expert code analyst specialized in tracing execution paths and call graphs.',
+          { signal: state.signal }
         );
       } catch (error) {
         logError('Detailed execution paths analysis failed, using minimal approach', error as Error);
@@ -284,7 +328,8 @@ export class CodeFlowAgent {
             riskLevel: 'low | medium | high',
             analysisNotes: 'string'
           }),
-          'You are an expert code analyst specialized in dependency analysis and circular dependency detection.'
+          'You are an expert code analyst specialized in dependency analysis and circular dependency detection.',
+          { signal: state.signal }
         );
       } catch (error) {
         logError('Detailed dependencies analysis failed, using minimal approach', error as Error);
@@ -386,7 +431,8 @@ export class CodeFlowAgent {
               suggestions: ['string']
             }]
           }),
-          'You are an expert data flow analyst specialized in tracing data movement and transformations.'
+          'You are an expert data flow analyst specialized in tracing data movement and transformations.',
+          { signal: state.signal }
         );
       } catch (error) {
         logError('Detailed data flow analysis failed, using minimal approach', error as Error);
@@ -472,7 +518,8 @@ export class CodeFlowAgent {
             priorityActions: ['string'],
             riskFactors: ['string']
           }),
-          'You are an expert code analyst providing actionable recommendations for code flow optimization.'
+          'You are an expert code analyst providing actionable recommendations for code flow optimization.',
+          { signal: state.signal }
         );
       } catch (error) {
         logError('Detailed recommendations generation failed, using minimal approach', error as Error);
@@ -581,9 +628,9 @@ export class CodeFlowAgent {
     }
   }
 
-  private buildDependencyTree(dependencies: InternalDependency[]): any[] {
+  private buildDependencyTree(dependencies: InternalDependency[]): DependencyNode[] {
     // Simple dependency tree builder that avoids circular references
-    const nodeMap = new Map<string, any>();
+    const nodeMap = new Map<string, DependencyNode>();
     const processedEdges = new Set<string>();
     
     // Create nodes for all files
@@ -625,6 +672,8 @@ export class CodeFlowAgent {
         sourceNode.children.push({
           name: targetNode.name,
           type: targetNode.type,
+          children: [],
+          depth: sourceNode.depth + 1,
           isCircular: targetNode.isCircular
         });
         processedEdges.add(edgeKey);
@@ -649,7 +698,7 @@ Analyze the code entry points for this repository:
 
 ## Source Files Analysis
 Total source files: ${sourceFiles.length}
-
+${describeAnalysisScope(repositoryAnalysis.scope)}
 Key source files:
 ${sourceFiles.slice(0, 10).map(file => `- ${file.path} (${file.extension})`).join('\n')}
 
@@ -894,7 +943,7 @@ Focus on identifying data flow issues that could impact performance and scalabil
     `;
   }
 
-  private createSimplifiedRecommendationsPrompt(repositoryAnalysis: RepositoryAnalysis, architectureAnalysis: ArchitectureAnalysis, metadata: Record<string, any>): string {
+  private createSimplifiedRecommendationsPrompt(repositoryAnalysis: RepositoryAnalysis, architectureAnalysis: ArchitectureAnalysis, metadata: CodeFlowMetadata): string {
     const { repository, summary } = repositoryAnalysis;
     const { architecture } = architectureAnalysis;
     
@@ -922,7 +971,7 @@ Keep recommendations practical and focused on the most impactful improvements.
     `;
   }
 
-  private createRecommendationsPrompt(repositoryAnalysis: RepositoryAnalysis, architectureAnalysis: ArchitectureAnalysis, metadata: Record<string, any>): string {
+  private createRecommendationsPrompt(repositoryAnalysis: RepositoryAnalysis, architectureAnalysis: ArchitectureAnalysis, metadata: CodeFlowMetadata): string {
     const { repository, summary } = repositoryAnalysis;
     const { architecture } = architectureAnalysis;
     
@@ -966,76 +1015,82 @@ Provide recommendations that support legacy modernization goals.
     `;
   }
 
-  async analyze(repositoryAnalysis: RepositoryAnalysis, architectureAnalysis: ArchitectureAnalysis): Promise<CodeFlowAnalysis> {
-    const startTime = Date.now();
-    
+  /** Logs the inputs of a run and returns the state its first step works on */
+  async start(
+    repositoryAnalysis: RepositoryAnalysis,
+    architectureAnalysis: ArchitectureAnalysis,
+    options: AgentRunOptions = {}
+  ): Promise<CodeFlowState> {
     // Log exact input to Agent 3 (both repository and architecture analysis)
-    const inputData = { repositoryAnalysis, architectureAnalysis };
-    const inputId = await logAgent3Input(inputData);
-    
-    try {
-      let state: CodeFlowState = {
-        repositoryAnalysis,
-        architectureAnalysis,
-        currentStep: 'analyze_entry_points',
-        progress: 0,
-        errors: [],
-        metadata: {}
-      };
-
-      // Execute workflow steps sequentially
-      state = await this.analyzeEntryPoints(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Entry points analysis failed: ${state.errors.join(', ')}`);
-      }
-
-      state = await this.analyzeExecutionPaths(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Execution paths analysis failed: ${state.errors.join(', ')}`);
-      }
+    const inputId = await logAgent3Input({ repositoryAnalysis, architectureAnalysis });
+
+    return {
+      repositoryAnalysis,
+      architectureAnalysis,
+      signal: options.signal,
+      currentStep: 'analyze_entry_points',
+      progress: 0,
+      errors: [],
+      metadata: { inputId, startTime: Date.now() }
+    };
+  }
 
-      state = await this.analyzeDependencies(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Dependencies analysis failed: ${state.errors.join(', ')}`);
-      }
+  getSteps(): AgentStep<CodeFlowState>[] {
+    return [
+      { name: 'analyze_entry_points', description: 'Entry points analysis', run: state => this.analyzeEntryPoints(state) },
+      { name: 'analyze_execution_paths', description: 'Execution paths analysis', run: state => this.analyzeExecutionPaths(state) },
+      { name: 'analyze_dependencies', description: 'Dependencies analysis', run: state => this.analyzeDependencies(state) },
+      { name: 'analyze_data_flow', description: 'Data flow analysis', run: state => this.analyzeDataFlow(state) },
+      { name: 'generate_recommendations', description: 'Recommendations generation', run: state => this.generateRecommendations(state) },
+      { name: 'finalize_analysis', description: 'Analysis finalization', run: state => this.finalizeAnalysis(state) }
+    ];
+  }
 
-      state = await this.analyzeDataFlow(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Data flow analysis failed: ${state.errors.join(', ')}`);
-      }
+  /** The analysis the last step produced, with the run's output logged */
+  async finish(state: CodeFlowState): Promise<CodeFlowAnalysis> {
+    // Steps fall back to minimal results when the LLM call fails, aborts included
+    state.signal?.throwIfAborted();
+    
+    if (!state.codeFlowAnalysis) {
+      throw new Error('Code flow analysis failed to produce results');
+    }
+    
+    // Calculate execution time
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
+    
+    // Log exact output from Agent 3
+    await logAgent3Output(state.codeFlowAnalysis, state.metadata.inputId, executionTime);
+    
+    // Log comparison between input and output
+    const inputData = { repositoryAnalysis: state.repositoryAnalysis, architectureAnalysis: state.architectureAnalysis };
+    await agentIOLogger.logComparison('Code Flow Agent', 'analyze', inputData, state.codeFlowAnalysis);
+    
+    return state.codeFlowAnalysis;
+  }
 
-      state = await this.generateRecommendations(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Recommendations generation failed: ${state.errors.join(', ')}`);
-      }
+  async fail(state: CodeFlowState, error: Error): Promise<void> {
+    // Calculate execution time for error
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
+    
+    // Log error with input context
+    await logAgent3Error(error, state.metadata.inputId, executionTime);
+    
+    logError('Code flow analysis failed', error);
+  }
 
-      state = await this.finalizeAnalysis(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Analysis finalization failed: ${state.errors.join(', ')}`);
-      }
-      
-      if (!state.codeFlowAnalysis) {
-        throw new Error('Code flow analysis failed to produce results');
+  async analyze(
+    repositoryAnalysis: RepositoryAnalysis,
+    architectureAnalysis: ArchitectureAnalysis,
+    options: AgentRunOptions = {}
+  ): Promise<CodeFlowAnalysis> {
+    let state = await this.start(repositoryAnalysis, architectureAnalysis, options);
+    try {
+      for (const step of this.getSteps()) {
+        state = await runAgentStep(step, state);
       }
-      
-      // Calculate execution time
-      const executionTime = (Date.now() - startTime) / 1000;
-      
-      // Log exact output from Agent 3
-      await logAgent3Output(state.codeFlowAnalysis, inputId, executionTime);
-      
-      // Log comparison between input and output
-      await agentIOLogger.logComparison('Code Flow Agent', 'analyze', inputData, state.codeFlowAnalysis);
-      
-      return state.codeFlowAnalysis;
+      return await this.finish(state);
     } catch (error) {
-      // Calculate execution time for error
-      const executionTime = (Date.now() - startTime) / 1000;
-      
-      // Log error with input context
-      await logAgent3Error(error as Error, inputId, executionTime);
-      
-      logError('Code flow analysis failed', error as Error);
+      await this.fail(state, error as Error);
       throw error;
     }
   }
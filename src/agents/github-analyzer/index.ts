@@ -1,18 +1,42 @@
 import { 
-  AgentState, 
   Repository, 
   FileStructure, 
   RepositoryAnalysis,
-  FileInfo 
+  FileInfo,
+  FileListing,
+  FetchStats,
+  AnalysisOptions,
+  AnalysisScope,
+  SubProjectDiscovery,
+  ChangeSet,
+  FileChange,
+  AgentRunOptions,
+  AgentStep
 } from '../../shared/types';
 import { 
-  GitHubClient, 
   LLMClient, 
+  RepositorySource,
+  createRepositorySource,
+  RequestBudget,
   categorizeFiles, 
+  countLinesOfCode,
   identifyMainFiles, 
-  shouldProcessFile,
+  getExclusionReason,
+  loadContentsPerFile,
+  IgnoreRules,
+  IGNORE_FILE_NAMES,
+  resolveAnalysisScope,
+  describeAnalysisScope,
+  detectSubProjects,
+  linkSubProjects,
+  analysisCache,
+  getAgentCacheKey,
+  hashPromptBuilders,
+  AgentCacheIdentity,
+  runAgentStep,
   logInfo, 
-  logError 
+  logError,
+  logWarn
 } from '../../shared/utils';
 import { 
   logAnalysisStart,
@@ -25,36 +49,71 @@ import {
   logAICall
 } from '../../shared/utils/simple-enhanced-logger';
 
+export interface RepositoryFetchProgress {
+  phase: 'listing' | 'content';
+  completed: number;
+  total: number;
+}
+
+// Discovery only needs paths, so it lists far more of a monorepo than a single analysis does
+const DISCOVERY_MAX_FILES = 50000;
+// Part of the cache key for this agent's output; bump when the analysis logic changes
+const AGENT_VERSION = '1.0.0';
+
+export interface GitHubAnalyzerOptions extends AnalysisOptions, AgentRunOptions {
+  /** Branch, tag or commit SHA to analyze; defaults to the repository's default branch */
+  ref?: string;
+  /** Access token to read the repository with instead of the host's token from the environment */
+  token?: string;
+  /** Max parallel file-content requests when contents are fetched one by one */
+  concurrency?: number;
+  /** Requests the analysis may make, across every source it opens; one per run when omitted */
+  budget?: RequestBudget;
+  /** An earlier analysis of the same repository; files unchanged since its commit reuse its contents */
+  baseline?: RepositoryAnalysis;
+  onProgress?: (progress: RepositoryFetchProgress) => void;
+}
+
 export interface GitHubAnalyzerState {
   repositoryUrl: string;
+  options: GitHubAnalyzerOptions;
+  scope: AnalysisScope;
+  source?: RepositorySource;
   repository?: Repository;
   files?: FileInfo[];
+  listing?: Omit<FileListing, 'files'>;
+  exclusions?: FileStructure['exclusions'];
+  changes?: ChangeSet;
+  fetchStats?: FetchStats;
   fileStructure?: FileStructure;
   repositoryAnalysis?: RepositoryAnalysis;
   currentStep: string;
   progress: number;
   errors: string[];
-  metadata: Record<string, any>;
+  metadata: Record<string, unknown>;
 }
 
 export class GitHubRepoAnalyzerAgent {
-  private githubClient: GitHubClient;
   private llmClient: LLMClient;
 
   constructor() {
-    this.githubClient = new GitHubClient();
     this.llmClient = new LLMClient({ provider: 'gemini' });
   }
 
+  getCacheIdentity(): AgentCacheIdentity {
+    return { agent: 'github-analyzer', version: AGENT_VERSION, promptHash: hashPromptBuilders(this) };
+  }
+
   private async fetchRepository(state: GitHubAnalyzerState): Promise<GitHubAnalyzerState> {
     try {
-      logInfo('Fetching repository information', { url: state.repositoryUrl });
+      logInfo('Fetching repository information', { url: state.repositoryUrl, ref: state.options.ref });
       
-      const { owner, repo } = this.githubClient.parseRepositoryUrl(state.repositoryUrl);
-      const repository = await this.githubClient.getRepositoryInfo(owner, repo);
+      const source = await createRepositorySource(state.repositoryUrl, { signal: state.options.signal, token: state.options.token, budget: state.options.budget });
+      const repository = await source.getRepository(state.options.ref);
       
       return {
         ...state,
+        source,
         repository,
         currentStep: 'fetch_repository',
         progress: 25
@@ -76,32 +135,87 @@ export class GitHubRepoAnalyzerAgent {
         throw new Error('Repository information not available');
       }
 
-      logInfo('Analyzing repository files', { repo: state.repository.name });
+      const source = state.source ?? await this.reopenSource(state.repositoryUrl, state.repository, state.options);
+      logInfo('Analyzing repository files', { repo: state.repository.name, source: source.kind });
       
-      const { owner, repo } = this.githubClient.parseRepositoryUrl(state.repositoryUrl);
-      const files = await this.githubClient.getAllFiles(owner, repo, state.repository.branch);
+      const { scope } = state;
+      const { onProgress, concurrency } = state.options;
       
-      // Filter files for processing
-      const processableFiles = files.filter(file => shouldProcessFile(file));
+      onProgress?.({ phase: 'listing', completed: 0, total: 0 });
+      const { files, complete, method } = await source.listFiles(scope.maxFiles, scope.subpath);
       
-      // Get content for key files
-      const filesWithContent = await Promise.all(
-        processableFiles.slice(0, 3000).map(async (file) => {
-          try {
-            if (file.type === 'file' && file.size && file.size < 10000) {
-              const content = await this.githubClient.getFileContent(owner, repo, file.path, state.repository?.branch);
-              return { ...file, content };
-            }
-          } catch (error) {
-            logError(`Failed to get content for ${file.path}`, error as Error);
-          }
-          return file;
+      // Filter files for processing, honouring the repository's own ignore rules
+      const ignoreRules = await this.loadIgnoreRules(source, files, scope.subpath);
+      const exclusions: FileStructure['exclusions'] = {};
+      const processableFiles = files.filter(file => {
+        const reason = getExclusionReason(file, { ...scope, ignoreRules });
+        if (reason && reason !== 'directory') {
+          exclusions[reason] = (exclusions[reason] || 0) + 1;
+        }
+        return reason === undefined;
+      });
+      
+      // Content is loaded for the files in scope, up to maxFiles of them; GitLab and Bitbucket
+      // listings carry no sizes, so unsized files are requested too and measured once loaded
+      const requestable = scope.includeContent
+        ? processableFiles.filter(file => file.size === undefined || (file.size > 0 && file.size <= scope.maxFileSize))
+        : [];
+      const requested = requestable.slice(0, scope.maxFiles);
+      // Incremental runs take unchanged files from the previous analysis
+      const { baseline } = state.options;
+      const changes = baseline ? await this.findChanges(source, state.repository, processableFiles, baseline) : undefined;
+      const reusedContents = baseline && changes ? this.reuseBaselineContents(requested, baseline, changes) : new Map<string, string>();
+      // Blobs seen in earlier analyses, of this commit or any other, are not downloaded again
+      const cachedContents = await this.readCachedContents(requested.filter(file => !reusedContents.has(file.path)));
+      const uncached = requested.filter(file => !reusedContents.has(file.path) && !cachedContents.has(file.path));
+      const loaded = uncached.length > 0
+        ? await source.loadContents(uncached, {
+          concurrency,
+          onProgress: (completed, total) => onProgress?.({ phase: 'content', completed, total })
         })
-      );
+        : [];
+      await this.writeCachedContents(loaded);
+      const contentByPath = new Map([
+        ...reusedContents,
+        ...cachedContents,
+        ...loaded.map(file => [file.path, file.content] as const)
+      ]);
+      let oversized = 0;
+      const binaryPaths = new Set(loaded.filter(file => file.binary).map(file => file.path));
+      const filesWithContent = processableFiles.map(file => {
+        const content = contentByPath.get(file.path);
+        if (binaryPaths.has(file.path)) return { ...file, binary: true };
+        if (content === undefined) return file;
+        if (file.size === undefined && Buffer.byteLength(content, 'utf-8') > scope.maxFileSize) {
+          oversized++;
+          return file;
+        }
+        return { ...file, content };
+      });
+      
+      const requests = source.getRequestUsage?.();
+      const contentLoaded = reusedContents.size + cachedContents.size + loaded.filter(file => file.content !== undefined).length;
+      const fetchStats: FetchStats = {
+        requests,
+        contentRequested: requested.length,
+        contentLoaded,
+        contentCached: cachedContents.size,
+        ...(baseline && { contentReused: reusedContents.size }),
+        contentSkipped: requestable.length - requested.length + oversized,
+        partial: !complete || contentLoaded < requested.length || !!requests?.exhausted
+      };
+      
+      if (fetchStats.partial) {
+        logWarn('Repository fetch was partial', { ...fetchStats });
+      }
       
       return {
         ...state,
         files: filesWithContent,
+        listing: { complete, method },
+        exclusions,
+        changes,
+        fetchStats,
         currentStep: 'analyze_files',
         progress: 50
       };
@@ -116,6 +230,142 @@ export class GitHubRepoAnalyzerAgent {
     }
   }
 
+  /**
+   * The source of a run resumed from a checkpoint, which doesn't keep it; the fetched
+   * commit is read again rather than wherever the ref has moved since
+   */
+  private async reopenSource(repositoryUrl: string, repository: Repository, options: GitHubAnalyzerOptions): Promise<RepositorySource> {
+    const source = await createRepositorySource(repositoryUrl, { signal: options.signal, token: options.token, budget: options.budget });
+    await source.getRepository(repository.commitSha ?? options.ref);
+    return source;
+  }
+
+  /**
+   * Finds the files that changed since the baseline's commit, through the source's
+   * compare API where it has one, otherwise by comparing the blob SHAs of both listings.
+   * Returns undefined when neither works; every file then counts as changed.
+   */
+  private async findChanges(
+    source: RepositorySource,
+    repository: Repository,
+    files: FileInfo[],
+    baseline: RepositoryAnalysis
+  ): Promise<ChangeSet | undefined> {
+    const baseCommitSha = baseline.repository.commitSha;
+    const headCommitSha = repository.commitSha;
+    if (!baseCommitSha || !headCommitSha) return undefined;
+
+    if (baseCommitSha === headCommitSha) {
+      return { baseCommitSha, headCommitSha, method: 'same-commit', files: [] };
+    }
+
+    // Only changes to files this analysis or the previous one looked at matter
+    const relevant = new Set([...files, ...baseline.fileStructure.files].map(file => file.path));
+    const isRelevant = (change: FileChange) =>
+      relevant.has(change.path) || (!!change.previousPath && relevant.has(change.previousPath));
+
+    if (source.compareCommits) {
+      try {
+        const comparison = await source.compareCommits(baseCommitSha, headCommitSha);
+        if (comparison.complete) {
+          const changes: ChangeSet = { baseCommitSha, headCommitSha, method: 'compare', files: comparison.files.filter(isRelevant) };
+          logInfo('Compared with the previous analysis', { baseCommitSha, headCommitSha, changed: changes.files.length });
+          return changes;
+        }
+        logWarn('Commit comparison was truncated, comparing listings instead', { baseCommitSha, headCommitSha });
+      } catch (error) {
+        logWarn(`Failed to compare commits, comparing listings instead: ${(error as Error).message}`);
+      }
+    }
+
+    const previous = baseline.fileStructure.files.filter(file => file.type === 'file');
+    const current = files.filter(file => file.type === 'file');
+    if ([...previous, ...current].some(file => !file.sha)) {
+      logWarn('Cannot tell which files changed without blob SHAs, re-analyzing everything');
+      return undefined;
+    }
+
+    const previousShas = new Map(previous.map(file => [file.path, file.sha]));
+    const currentPaths = new Set(current.map(file => file.path));
+    const changed: FileChange[] = [
+      ...current
+        .filter(file => previousShas.get(file.path) !== file.sha)
+        .map((file): FileChange => ({ path: file.path, status: previousShas.has(file.path) ? 'modified' : 'added' })),
+      ...previous
+        .filter(file => !currentPaths.has(file.path))
+        .map((file): FileChange => ({ path: file.path, status: 'removed' }))
+    ];
+
+    logInfo('Compared listings with the previous analysis', { baseCommitSha, headCommitSha, changed: changed.length });
+    return { baseCommitSha, headCommitSha, method: 'listing', files: changed };
+  }
+
+  /** Contents of the requested files that are unchanged since the baseline and were loaded by it */
+  private reuseBaselineContents(files: FileInfo[], baseline: RepositoryAnalysis, changes: ChangeSet): Map<string, string> {
+    const changedPaths = new Set(changes.files.map(change => change.path));
+    const renamedFrom = new Map(changes.files.filter(change => change.previousPath).map(change => [change.path, change.previousPath!]));
+    const previousByPath = new Map(baseline.fileStructure.files.map(file => [file.path, file]));
+    const reused = new Map<string, string>();
+
+    for (const file of files) {
+      // A renamed file keeps its old content when its blob is the same
+      const renamed = renamedFrom.has(file.path);
+      const previous = previousByPath.get(renamedFrom.get(file.path) ?? file.path);
+      if (!previous || previous.content === undefined) continue;
+      if (renamed ? !file.sha || file.sha !== previous.sha : changedPaths.has(file.path)) continue;
+      if (file.sha && previous.sha && file.sha !== previous.sha) continue;
+      reused.set(file.path, previous.content);
+    }
+
+    return reused;
+  }
+
+  private async readCachedContents(files: FileInfo[]): Promise<Map<string, string>> {
+    const cached = new Map<string, string>();
+    for (const file of files) {
+      const content = file.sha ? await analysisCache.getContent(file.sha) : undefined;
+      if (content !== undefined) cached.set(file.path, content);
+    }
+    return cached;
+  }
+
+  private async writeCachedContents(files: FileInfo[]): Promise<void> {
+    for (const file of files) {
+      if (file.sha && file.content !== undefined) {
+        await analysisCache.setContent(file.sha, file.content);
+      }
+    }
+  }
+
+  /**
+   * Reads the .gitignore, .gitattributes and .migrationignore files in the listing, plus
+   * those in the directories above a subpath, which the listing does not cover.
+   */
+  private async loadIgnoreRules(source: RepositorySource, files: FileInfo[], subpath: string): Promise<IgnoreRules> {
+    const ruleFiles: FileInfo[] = files.filter(file => file.type === 'file' && IGNORE_FILE_NAMES.includes(file.name));
+
+    if (subpath) {
+      const segments = subpath.split('/');
+      for (let depth = 0; depth <= segments.length; depth++) {
+        const directory = segments.slice(0, depth).join('/');
+        for (const name of IGNORE_FILE_NAMES) {
+          const filePath = directory ? `${directory}/${name}` : name;
+          if (!ruleFiles.some(file => file.path === filePath)) {
+            ruleFiles.push({ path: filePath, name, type: 'file' });
+          }
+        }
+      }
+    }
+
+    if (ruleFiles.length === 0) return IgnoreRules.fromFiles([]);
+
+    // Few and small, so fetch them directly rather than through an archive download
+    const loaded = await loadContentsPerFile(source, ruleFiles);
+    const rules = IgnoreRules.fromFiles(loaded);
+    logInfo('Loaded repository ignore rules', { files: loaded.filter(file => file.content !== undefined).length });
+    return rules;
+  }
+
   private async categorizeStructure(state: GitHubAnalyzerState): Promise<GitHubAnalyzerState> {
     try {
       if (!state.files) {
@@ -126,13 +376,16 @@ export class GitHubRepoAnalyzerAgent {
       
       const categories = categorizeFiles(state.files);
       const mainFiles = identifyMainFiles(state.files);
+      const linesOfCode = countLinesOfCode(state.files);
       
       const fileStructure: FileStructure = {
         totalFiles: state.files.filter(f => f.type === 'file').length,
         totalDirectories: state.files.filter(f => f.type === 'directory').length,
         files: state.files,
         categories,
-        mainFiles
+        mainFiles,
+        exclusions: state.exclusions || {},
+        linesOfCode
       };
       
       return {
@@ -154,18 +407,22 @@ export class GitHubRepoAnalyzerAgent {
 
   private async generateSummary(state: GitHubAnalyzerState): Promise<GitHubAnalyzerState> {
     try {
-      if (!state.repository || !state.fileStructure) {
+      if (!state.repository || !state.fileStructure || !state.listing || !state.fetchStats) {
         throw new Error('Repository or file structure not available');
       }
 
       logInfo('Generating repository summary');
       
-      const analysisPrompt = this.createAnalysisPrompt(state.repository, state.fileStructure);
+      const analysisPrompt = this.createAnalysisPrompt(state.repository, state.fileStructure, state.listing.complete, state.scope);
       
       // Log AI call
       logAICall('Repository Summary Generation', analysisPrompt);
       
-      const summaryResponse = await this.llmClient.generateStructuredResponse<{
+      const cacheKey = getAgentCacheKey(
+        { repository: state.repository, scope: state.scope, fetchStats: state.fetchStats },
+        [this.getCacheIdentity()]
+      );
+      const summaryResponse = await analysisCache.remember(cacheKey, () => this.llmClient.generateStructuredResponse<{
         purpose: string;
         mainTechnologies: string[];
         projectType: string;
@@ -180,8 +437,9 @@ export class GitHubRepoAnalyzerAgent {
           complexity: 'low | medium | high',
           insights: ['string']
         }),
-        'You are an expert software architect analyzing a GitHub repository. Provide a comprehensive analysis based on the repository structure and files.'
-      );
+        'You are an expert software architect analyzing a GitHub repository. Provide a comprehensive analysis based on the repository structure and files.',
+        { signal: state.options.signal }
+      ));
       
       // Log AI response
       logAICall('Repository Summary Received', undefined, summaryResponse);
@@ -189,6 +447,14 @@ export class GitHubRepoAnalyzerAgent {
       const repositoryAnalysis: RepositoryAnalysis = {
         repository: state.repository,
         fileStructure: state.fileStructure,
+        listing: {
+          complete: state.listing.complete,
+          method: state.listing.method,
+          entries: state.fileStructure.files.length
+        },
+        fetchStats: state.fetchStats,
+        scope: state.scope,
+        ...(state.changes && { changes: state.changes }),
         summary: {
           purpose: summaryResponse.purpose,
           mainTechnologies: summaryResponse.mainTechnologies,
@@ -216,11 +482,19 @@ export class GitHubRepoAnalyzerAgent {
     }
   }
 
-  private createAnalysisPrompt(repository: Repository, fileStructure: FileStructure): string {
+  private createAnalysisPrompt(repository: Repository, fileStructure: FileStructure, listingComplete: boolean, scope: AnalysisScope): string {
     const mainFilesInfo = fileStructure.mainFiles.map(f => `- ${f.name} (${f.path})`).join('\n');
     const categorySummary = Object.entries(fileStructure.categories)
       .map(([category, files]) => `${category}: ${files.length} files`)
       .join(', ');
+    const exclusionSummary = Object.entries(fileStructure.exclusions)
+      .map(([reason, count]) => `${reason}: ${count}`)
+      .join(', ');
+    const languageSummary = Object.entries(fileStructure.linesOfCode.byLanguage)
+      .sort(([, a], [, b]) => b.code - a.code)
+      .slice(0, 8)
+      .map(([language, lines]) => `${language}: ${lines.code} code / ${lines.comment} comment lines in ${lines.files} files`)
+      .join(', ');
     
     const sampleFiles = fileStructure.files
       .filter(f => f.content && f.content.length > 0)
@@ -232,6 +506,7 @@ export class GitHubRepoAnalyzerAgent {
 Analyze this GitHub repository:
 
 Repository: ${repository.name}
+Ref: ${repository.branch}
 Description: ${repository.description || 'No description provided'}
 Primary Language: ${repository.language || 'Unknown'}
 Stars: ${repository.stars || 0}
@@ -241,7 +516,8 @@ File Structure:
 - Total files: ${fileStructure.totalFiles}
 - Total directories: ${fileStructure.totalDirectories}
 - Categories: ${categorySummary}
-
+- Lines of code: ${languageSummary || 'not counted'}${fileStructure.linesOfCode.uncountedFiles > 0 ? ` (${fileStructure.linesOfCode.uncountedFiles} files without loaded content not counted)` : ''}${exclusionSummary ? `\n- Excluded files: ${exclusionSummary}` : ''}${listingComplete ? '' : '\n- Note: the file listing is incomplete, only part of the repository was listed'}
+${describeAnalysisScope(scope)}
 Main Files:
 ${mainFilesInfo}
 
@@ -259,71 +535,139 @@ Please respond with a JSON object matching the specified schema.
     `;
   }
 
-  async analyze(repositoryUrl: string): Promise<RepositoryAnalysis> {
-    // Start enhanced logging
-    logAnalysisStart('GitHub Repository Analysis', { repositoryUrl });
-    
+  /**
+   * Lists the repository (or `options.subpath`) and finds the sub-projects in it by
+   * their manifests. Manifest contents are read to name the projects and link them.
+   */
+  async discoverSubProjects(repositoryUrl: string, options: GitHubAnalyzerOptions = {}): Promise<SubProjectDiscovery> {
     try {
-      let state: GitHubAnalyzerState = {
-        repositoryUrl,
-        currentStep: 'init',
-        progress: 0,
-        errors: [],
-        metadata: {}
-      };
+      const scope = resolveAnalysisScope({ ...options, maxFiles: options.maxFiles ?? DISCOVERY_MAX_FILES });
+      logInfo('Discovering sub-projects', { url: repositoryUrl, subpath: scope.subpath });
 
-      // Execute workflow steps sequentially with enhanced logging
-      logStep('Repository Fetch', { url: repositoryUrl });
-      state = await this.fetchRepository(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Fetch repository failed: ${state.errors.join(', ')}`);
-      }
-      
-      if (state.repository) {
-        logRepoInfo(state.repository);
-      }
+      const source = await createRepositorySource(repositoryUrl, { signal: options.signal, token: options.token, budget: options.budget });
+      const repository = await source.getRepository(options.ref);
 
-      logStep('File Analysis', { targetFiles: 'Processing repository files' });
-      state = await this.analyzeFiles(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Analyze files failed: ${state.errors.join(', ')}`);
-      }
-      
-      if (state.files) {
-        logProgress(`Analyzed ${state.files.length} files`);
-      }
+      options.onProgress?.({ phase: 'listing', completed: 0, total: 0 });
+      const { files, complete } = await source.listFiles(scope.maxFiles, scope.subpath);
 
-      logStep('File Categorization', { operation: 'Organizing files by category' });
-      state = await this.categorizeStructure(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Categorize structure failed: ${state.errors.join(', ')}`);
-      }
-      
-      if (state.fileStructure) {
-        logFileAnalysis(state.fileStructure);
-      }
+      const detected = detectSubProjects(files, repository.name);
+      const manifestPaths = new Set(detected.flatMap(project =>
+        project.manifests.map(name => (project.path ? `${project.path}/${name}` : name))
+      ));
+      const manifests = await source.loadContents(
+        files.filter(file => manifestPaths.has(file.path)),
+        { concurrency: options.concurrency }
+      );
+      const { subProjects, links } = linkSubProjects(detected, manifests);
+
+      logInfo('Sub-project discovery completed', {
+        subProjects: subProjects.length,
+        links: links.length,
+        listingComplete: complete
+      });
 
-      logStep('AI Summary Generation', { model: 'Gemini AI' });
-      state = await this.generateSummary(state);
-      if (state.errors.length > 0) {
-        throw new Error(`Generate summary failed: ${state.errors.join(', ')}`);
+      return { repository, subProjects, links, listingComplete: complete };
+    } catch (error) {
+      logError('Failed to discover sub-projects', error as Error);
+      throw new Error(`Failed to discover sub-projects: ${(error as Error).message}`);
+    }
+  }
+
+  /** Logs the start of a run and returns the state its first step works on */
+  async start(repositoryUrl: string, options: GitHubAnalyzerOptions = {}): Promise<GitHubAnalyzerState> {
+    logAnalysisStart('GitHub Repository Analysis', { repositoryUrl });
+    return {
+      repositoryUrl,
+      options: { ...options, budget: options.budget ?? new RequestBudget() },
+      scope: resolveAnalysisScope(options),
+      currentStep: 'init',
+      progress: 0,
+      errors: [],
+      metadata: {}
+    };
+  }
+
+  getSteps(): AgentStep<GitHubAnalyzerState>[] {
+    return [
+      {
+        name: 'fetch_repository',
+        description: 'Fetch repository',
+        run: async state => {
+          logStep('Repository Fetch', { url: state.repositoryUrl });
+          const next = await this.fetchRepository(state);
+          if (next.repository) {
+            logRepoInfo(next.repository);
+          }
+          return next;
+        }
+      },
+      {
+        name: 'analyze_files',
+        description: 'Analyze files',
+        run: async state => {
+          logStep('File Analysis', { targetFiles: 'Processing repository files' });
+          const next = await this.analyzeFiles(state);
+          // Aborted content requests leave files without content rather than failing the step
+          state.options.signal?.throwIfAborted();
+          if (next.files) {
+            logProgress(`Analyzed ${next.files.length} files`);
+          }
+          return next;
+        }
+      },
+      {
+        name: 'categorize_structure',
+        description: 'Categorize structure',
+        run: async state => {
+          logStep('File Categorization', { operation: 'Organizing files by category' });
+          const next = await this.categorizeStructure(state);
+          if (next.fileStructure) {
+            logFileAnalysis(next.fileStructure);
+          }
+          return next;
+        }
+      },
+      {
+        name: 'generate_summary',
+        description: 'Generate summary',
+        run: async state => {
+          logStep('AI Summary Generation', { model: 'Gemini AI' });
+          return this.generateSummary(state);
+        }
       }
-      
-      if (!state.repositoryAnalysis) {
-        throw new Error('Repository analysis not completed');
+    ];
+  }
+
+  /** The analysis the last step produced */
+  async finish(state: GitHubAnalyzerState): Promise<RepositoryAnalysis> {
+    if (!state.repositoryAnalysis) {
+      throw new Error('Repository analysis not completed');
+    }
+
+    // Log successful completion
+    logSuccess('GitHub Repository Analysis Completed', {
+      repository: state.repositoryAnalysis.repository.name,
+      totalFiles: state.repositoryAnalysis.fileStructure.totalFiles,
+      projectType: state.repositoryAnalysis.summary.projectType,
+      complexity: state.repositoryAnalysis.summary.complexity
+    });
+
+    return state.repositoryAnalysis;
+  }
+
+  async fail(_state: GitHubAnalyzerState, error: Error): Promise<void> {
+    logAnalysisError('GitHub repository analysis failed', error);
+  }
+
+  async analyze(repositoryUrl: string, options: GitHubAnalyzerOptions = {}): Promise<RepositoryAnalysis> {
+    let state = await this.start(repositoryUrl, options);
+    try {
+      for (const step of this.getSteps()) {
+        state = await runAgentStep(step, state);
       }
-      
-      // Log successful completion
-      logSuccess('GitHub Repository Analysis Completed', {
-        repository: state.repositoryAnalysis.repository.name,
-        totalFiles: state.repositoryAnalysis.fileStructure.totalFiles,
-        projectType: state.repositoryAnalysis.summary.projectType,
-        complexity: state.repositoryAnalysis.summary.complexity
-      });
-      
-      return state.repositoryAnalysis;
+      return await this.finish(state);
     } catch (error) {
-      logAnalysisError('GitHub repository analysis failed', error as Error);
+      await this.fail(state, error as Error);
       throw error;
     }
   }
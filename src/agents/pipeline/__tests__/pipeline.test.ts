@@ -0,0 +1,142 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AgentStep, PipelineAgent } from '../../../shared/types';
+import { SqliteCheckpointer } from '../../../shared/utils/checkpointer';
+import { AnalysisPipeline, PipelineAgents, PipelineEvent } from '..';
+
+interface FakeState {
+  errors: string[];
+  done: string[];
+}
+
+// Steps that record their calls, and can fail or hang where a test says so
+type StepBehaviour = 'fail' | 'hang';
+
+const REPOSITORY_ANALYSIS = {
+  repository: { name: 'widgets', url: 'https://github.com/acme/widgets' },
+  fileStructure: { files: [{ path: 'src/index.ts', name: 'index.ts', type: 'file', category: 'source' }] },
+  fetchStats: { contentRequested: 0, contentLoaded: 0, contentCached: 0, partial: false },
+  scope: {}
+};
+
+function fakeAgents(calls: string[], behaviour: Record<string, StepBehaviour> = {}, entered?: () => void): PipelineAgents {
+  const agent = (name: PipelineAgent, steps: string[], output: object = {}) => ({
+    getCacheIdentity: () => ({ agent: name, version: 'test', promptHash: 'test' }),
+    start: async (): Promise<FakeState> => ({ errors: [], done: [] }),
+    getSteps: (): AgentStep<FakeState>[] => steps.map(step => ({
+      name: step,
+      description: step,
+      run: async state => {
+        const id = `${name}/${step}`;
+        calls.push(id);
+        if (behaviour[id] === 'hang') {
+          entered?.();
+          return new Promise<FakeState>(() => undefined);
+        }
+        if (behaviour[id] === 'fail') return { ...state, errors: ['boom'] };
+        return { ...state, done: [...state.done, step] };
+      }
+    })),
+    finish: async (state: FakeState) => ({ ...output, steps: state.done }),
+    fail: async () => undefined
+  });
+
+  return {
+    githubAnalyzer: agent('github-analyzer', ['fetch', 'list'], REPOSITORY_ANALYSIS),
+    architectureInference: agent('architecture-inference', ['detect', 'infer']),
+    codeFlow: agent('code-flow', ['trace']),
+    riskAssessment: agent('risk-assessment', ['score', 'compile'])
+  } as unknown as PipelineAgents;
+}
+
+async function collect(events: AsyncGenerator<PipelineEvent>): Promise<PipelineEvent[]> {
+  const collected: PipelineEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+const INPUT = { repositoryUrl: 'https://github.com/acme/widgets', analyzerOptions: {} };
+
+describe('AnalysisPipeline', () => {
+  let directory: string;
+  let filename: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-test-'));
+    filename = path.join(directory, 'checkpoints.db');
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it('runs every step as its own node and drops the thread when done', async () => {
+    const calls: string[] = [];
+    const checkpointer = new SqliteCheckpointer(filename);
+    const events = await collect(new AnalysisPipeline(fakeAgents(calls), checkpointer).stream('analysis-1', INPUT));
+
+    expect(calls).toEqual([
+      'github-analyzer/fetch', 'github-analyzer/list',
+      'architecture-inference/detect', 'architecture-inference/infer',
+      'code-flow/trace',
+      'risk-assessment/score', 'risk-assessment/compile'
+    ]);
+    const ends = events.filter(event => event.type === 'agent-end');
+    expect(ends.map(event => [event.agent, event.run.status])).toEqual([
+      ['github-analyzer', 'succeeded'],
+      ['architecture-inference', 'succeeded'],
+      ['code-flow', 'succeeded'],
+      ['risk-assessment', 'succeeded']
+    ]);
+    expect(ends[3].results).toEqual({ riskAssessment: { steps: ['score', 'compile'] } });
+    expect(await checkpointer.getTuple({ configurable: { thread_id: 'analysis-1' } })).toBeUndefined();
+  });
+
+  it('fails an agent on a failed step and runs the agents that do not need it', async () => {
+    const calls: string[] = [];
+    const events = await collect(
+      new AnalysisPipeline(fakeAgents(calls, { 'code-flow/trace': 'fail' }), new SqliteCheckpointer(filename)).stream('analysis-1', INPUT)
+    );
+
+    const ends = events.filter(event => event.type === 'agent-end');
+    expect(ends.map(event => [event.agent, event.run.status, event.run.error])).toEqual([
+      ['github-analyzer', 'succeeded', undefined],
+      ['architecture-inference', 'succeeded', undefined],
+      ['code-flow', 'failed', 'trace failed: boom'],
+      ['risk-assessment', 'succeeded', undefined]
+    ]);
+  });
+
+  it('resumes a run cut off mid-agent after its last checkpointed step', async () => {
+    const calls: string[] = [];
+    let entered: () => void = () => undefined;
+    const hanging = new Promise<void>(resolve => { entered = resolve; });
+
+    // The process "stops" while the second architecture step runs: the stream is abandoned
+    const interrupted = new AnalysisPipeline(
+      fakeAgents(calls, { 'architecture-inference/infer': 'hang' }, entered),
+      new SqliteCheckpointer(filename)
+    ).stream('analysis-1', INPUT);
+    const firstEvents: PipelineEvent[] = [];
+    void (async () => {
+      for await (const event of interrupted) firstEvents.push(event);
+    })();
+    await hanging;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const resumedCalls: string[] = [];
+    const events = await collect(new AnalysisPipeline(fakeAgents(resumedCalls), new SqliteCheckpointer(filename)).stream('analysis-1', INPUT));
+
+    expect(calls).toEqual(['github-analyzer/fetch', 'github-analyzer/list', 'architecture-inference/detect', 'architecture-inference/infer']);
+    expect(resumedCalls).toEqual([
+      'architecture-inference/infer',
+      'code-flow/trace',
+      'risk-assessment/score', 'risk-assessment/compile'
+    ]);
+    const architecture = events.find(event => event.type === 'agent-end' && event.agent === 'architecture-inference');
+    // The state of the steps before the restart came from the checkpoint
+    expect(architecture).toMatchObject({ run: { status: 'succeeded' }, results: { architectureAnalysis: { steps: ['detect', 'infer'] } } });
+    expect(firstEvents.filter(event => event.type === 'agent-end').map(event => event.agent)).toEqual(['github-analyzer']);
+  });
+});
@@ -0,0 +1,462 @@
+import {
+  Annotation,
+  END,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph
+} from '@langchain/langgraph';
+import {
+  AgentRunStatus,
+  AgentState,
+  AgentStep,
+  AnalysisResponse,
+  ArchitectureAnalysis,
+  CodeFlowAnalysis,
+  PipelineAgent,
+  Repository,
+  RepositoryAnalysis,
+  RiskAssessment
+} from '../../shared/types';
+import { captureLogs, CapturedLog, logError, logInfo } from '../../shared/utils/logger';
+import { analysisCache, getAgentCacheKey, withoutCachedResults } from '../../shared/utils/analysis-cache';
+import { runAgentStep } from '../../shared/utils/agent-steps';
+import { SqliteCheckpointer } from '../../shared/utils/checkpointer';
+import GitHubRepoAnalyzerAgent, { GitHubAnalyzerOptions, GitHubAnalyzerState, RepositoryFetchProgress } from '../github-analyzer';
+import ArchitectureInferenceAgent, { ArchitectureInferenceState } from '../architecture-inference';
+import { CodeFlowAgent, CodeFlowState } from '../code-flow';
+import RiskAssessmentAgent, { RiskAssessmentState } from '../risk-assessment';
+
+export type PipelineResults = NonNullable<AnalysisResponse['result']>;
+
+// Pipeline order; each agent may use the outputs of the ones before it
+export const PIPELINE_AGENTS: PipelineAgent[] = ['github-analyzer', 'architecture-inference', 'code-flow', 'risk-assessment'];
+
+export const AGENT_OUTPUT_KEYS: Record<PipelineAgent, keyof PipelineResults> = {
+  'github-analyzer': 'repositoryAnalysis',
+  'architecture-inference': 'architectureAnalysis',
+  'code-flow': 'codeFlowAnalysis',
+  'risk-assessment': 'riskAssessment'
+};
+
+// Agents whose output each agent can't run without; code flow is optional for risk assessment
+export const REQUIRED_AGENTS: Record<PipelineAgent, PipelineAgent[]> = {
+  'github-analyzer': [],
+  'architecture-inference': ['github-analyzer'],
+  'code-flow': ['github-analyzer', 'architecture-inference'],
+  'risk-assessment': ['github-analyzer', 'architecture-inference']
+};
+
+/** The requested agents and the ones they require, in pipeline order; every agent when none are requested */
+export function resolveAgentSelection(agents?: PipelineAgent[]): PipelineAgent[] {
+  if (!agents || agents.length === 0) return PIPELINE_AGENTS;
+  return PIPELINE_AGENTS.filter(agent =>
+    agents.some(requested => requested === agent || REQUIRED_AGENTS[requested].includes(agent))
+  );
+}
+
+/** The agents after `agent` in pipeline order, whose outputs may have been built on its output */
+export function downstreamAgents(agent: PipelineAgent): PipelineAgent[] {
+  return PIPELINE_AGENTS.slice(PIPELINE_AGENTS.indexOf(agent) + 1);
+}
+
+interface AgentProgress {
+  startedAt: number;
+  state: Record<string, unknown>; // the agent state without its transient fields
+}
+
+// The channels of AgentState; agent statuses and errors accumulate across nodes
+const PipelineState = Annotation.Root({
+  repository: Annotation<Repository | undefined>,
+  repositoryAnalysis: Annotation<RepositoryAnalysis | undefined>,
+  architectureAnalysis: Annotation<ArchitectureAnalysis | undefined>,
+  codeFlowAnalysis: Annotation<CodeFlowAnalysis | undefined>,
+  riskAssessment: Annotation<RiskAssessment | undefined>,
+  agents: Annotation<NonNullable<AgentState['agents']>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({})
+  }),
+  currentStep: Annotation<string>,
+  progress: Annotation<number>,
+  errors: Annotation<string[]>({
+    reducer: (current, update) => current.concat(update),
+    default: () => []
+  }),
+  metadata: Annotation<Record<string, unknown>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({})
+  }),
+  // Checkpointed state of each agent that is between steps
+  working: Annotation<Partial<Record<PipelineAgent, AgentProgress>>>({
+    reducer: (current, update) => ({ ...current, ...update }),
+    default: () => ({})
+  })
+});
+
+type PipelineGraphState = typeof PipelineState.State;
+type PipelineGraphUpdate = typeof PipelineState.Update;
+
+export type PipelineEvent =
+  | { type: 'agent-start'; agent: PipelineAgent }
+  | { type: 'agent-progress'; agent: PipelineAgent; progress: RepositoryFetchProgress }
+  | { type: 'agent-reused'; agent: PipelineAgent } // output taken over from the previous analysis
+  | { type: 'agent-log'; agent: PipelineAgent; log: CapturedLog } // logged while the agent ran
+  | { type: 'agent-end'; agent: PipelineAgent; run: AgentRunStatus; results: Partial<PipelineResults> };
+
+export interface PipelineAgents {
+  githubAnalyzer: GitHubRepoAnalyzerAgent;
+  architectureInference: ArchitectureInferenceAgent;
+  codeFlow: CodeFlowAgent;
+  riskAssessment: RiskAssessmentAgent;
+}
+
+export interface PipelineInput {
+  repositoryUrl: string;
+  analyzerOptions: Omit<GitHubAnalyzerOptions, 'signal' | 'onProgress'>;
+  /** Outputs an interrupted run already produced; their agents don't run again */
+  completed?: Partial<PipelineResults>;
+  /**
+   * Outputs of a completed previous analysis, kept when nothing in scope changed since;
+   * otherwise the risk assessment keeps the complexity metrics of unchanged files
+   */
+  previous?: Partial<PipelineResults>;
+  /** Agents to run, with the ones they require; every agent when omitted */
+  agents?: PipelineAgent[];
+  /** Ignore cached agent outputs and LLM responses, as an explicit re-run must */
+  refresh?: boolean;
+  signal?: AbortSignal;
+}
+
+interface NodeContext {
+  input: PipelineInput;
+  emit: (event: PipelineEvent) => void;
+  /** Agent states between steps of this run, with the fields checkpoints leave out */
+  live: Map<PipelineAgent, unknown>;
+}
+
+/** How the pipeline runs an agent step by step */
+// The workflows of the four agents sit in one record, and each takes its own state as an argument
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+interface AgentWorkflow<S extends { errors: string[] } = any> {
+  start: (state: PipelineGraphState, context: NodeContext) => Promise<S>;
+  steps: AgentStep<S>[];
+  finish: (state: S) => Promise<unknown>;
+  fail: (state: S, error: Error) => Promise<void>;
+  /** Fields left out of checkpoints: inputs the graph state already holds, and live objects */
+  transient: (keyof S)[];
+  /** The transient fields a step resumed from a checkpoint gets back */
+  runtime: (state: PipelineGraphState, context: NodeContext) => Partial<S>;
+  /** Whether the previous analysis's or a cached output stands in for running the agent */
+  reusable: boolean;
+  cacheable?: (state: PipelineGraphState) => boolean;
+}
+
+function hasSourceFiles(repositoryAnalysis: RepositoryAnalysis): boolean {
+  return repositoryAnalysis.fileStructure.files.some(file => file.type === 'file' && file.category === 'source');
+}
+
+/** Why an agent won't run on the current state, or undefined if it will */
+function skipReason(agent: PipelineAgent, state: PipelineGraphState, selected: PipelineAgent[]): string | undefined {
+  if (!selected.includes(agent)) return 'Not requested';
+
+  const missing = REQUIRED_AGENTS[agent].find(required => state[AGENT_OUTPUT_KEYS[required]] === undefined);
+  if (missing) return `Requires the ${missing} output, which is missing`;
+
+  if (agent === 'code-flow' && !hasSourceFiles(state.repositoryAnalysis!)) return 'No source files to trace';
+  return undefined;
+}
+
+function stepNodeName(agent: PipelineAgent, step: AgentStep<unknown>): string {
+  return `${agent}/${step.name}`;
+}
+
+function withoutFields<S>(state: S, fields: (keyof S)[]): Record<string, unknown> {
+  const saved = { ...state } as Record<string, unknown>;
+  for (const field of fields) delete saved[field as string];
+  return saved;
+}
+
+/**
+ * Runs the four agents as a LangGraph StateGraph, one node per agent step. Conditional
+ * edges skip agents whose required input is missing, so a failed agent doesn't stop the
+ * ones that don't depend on it. Every step is checkpointed under the analysis ID as
+ * thread, and a run cut off by a restart resumes after its last checkpointed step.
+ */
+export class AnalysisPipeline {
+  private readonly workflows: Record<PipelineAgent, AgentWorkflow>;
+
+  constructor(
+    private readonly agents: PipelineAgents,
+    private readonly checkpointer: SqliteCheckpointer = new SqliteCheckpointer(':memory:')
+  ) {
+    this.workflows = this.createWorkflows();
+  }
+
+  /**
+   * Runs the pipeline and yields node events as they happen. A thread with a run still
+   * pending in its checkpoints continues that run. Agents the graph never reached are
+   * reported as skipped at the end.
+   */
+  async *stream(threadId: string, input: PipelineInput): AsyncGenerator<PipelineEvent> {
+    // Each run compiles its own graph, so nodes see their input without it being checkpointed
+    const graph = this.compile(input);
+    const config = {
+      configurable: { thread_id: threadId },
+      signal: input.signal,
+      streamMode: ['updates', 'custom'] as ('updates' | 'custom')[]
+    };
+
+    try {
+      const { next } = await graph.getState({ configurable: { thread_id: threadId } });
+      if (next.length > 0) {
+        logInfo('Resuming pipeline from its last checkpoint', { threadId, next });
+      }
+
+      const stream = await graph.stream(next.length > 0 ? null : { ...input.completed }, config);
+      for await (const [mode, chunk] of stream as AsyncIterable<[string, unknown]>) {
+        if (mode === 'custom') {
+          yield chunk as PipelineEvent;
+          continue;
+        }
+
+        for (const [node, update] of Object.entries(chunk as Record<string, PipelineGraphUpdate | undefined>)) {
+          const agent = node.split('/')[0] as PipelineAgent;
+          const run = update?.agents?.[agent];
+          // Steps before an agent's last, and agents whose output was restored, report nothing
+          if (!run) continue;
+          const output = update[AGENT_OUTPUT_KEYS[agent]];
+          yield { type: 'agent-end', agent, run, results: output ? { [AGENT_OUTPUT_KEYS[agent]]: output } : {} };
+        }
+      }
+
+      const { values } = await graph.getState({ configurable: { thread_id: threadId } });
+      const state = values as PipelineGraphState;
+      for (const agent of PIPELINE_AGENTS) {
+        if (state.agents[agent] || state[AGENT_OUTPUT_KEYS[agent]] !== undefined) continue;
+        const reason = skipReason(agent, state, resolveAgentSelection(input.agents)) ?? 'Not reached';
+        logInfo(`Skipped ${agent}: ${reason}`, { threadId });
+        yield { type: 'agent-end', agent, run: { status: 'skipped', error: reason }, results: {} };
+      }
+    } finally {
+      // Only a run that never got here, because the process stopped, is left to resume
+      await this.checkpointer.deleteThread(threadId);
+    }
+  }
+
+  private compile(input: PipelineInput) {
+    const selected = resolveAgentSelection(input.agents);
+    let writer: LangGraphRunnableConfig['writer'];
+    const context: NodeContext = { input, emit: event => writer?.(event), live: new Map() };
+
+    // On to the first step of the next agent that will run, skipping the ones that won't
+    const firstStepAfter = (agent: PipelineAgent, state: PipelineGraphState): string =>
+      PIPELINE_AGENTS
+        .slice(PIPELINE_AGENTS.indexOf(agent) + 1)
+        .filter(next => !skipReason(next, state, selected))
+        .map(next => stepNodeName(next, this.workflows[next].steps[0]))[0] ?? END;
+
+    // Node names come from the agents' steps, so the graph is typed with plain strings
+    const graph = new StateGraph<typeof PipelineState.spec, PipelineGraphState, PipelineGraphUpdate, string>(PipelineState);
+    PIPELINE_AGENTS.forEach((agent, position) => {
+      const { steps } = this.workflows[agent];
+      const laterAgents = PIPELINE_AGENTS.slice(position + 1).map(next => stepNodeName(next, this.workflows[next].steps[0]));
+
+      steps.forEach((step, index) => {
+        const following = steps[index + 1];
+        graph.addNode(stepNodeName(agent, step), (state: PipelineGraphState, config: LangGraphRunnableConfig) => {
+          writer = config.writer;
+          return this.runStep(agent, index, state, context);
+        });
+        // The agent's next step, unless it already finished: failed, reused or restored
+        graph.addConditionalEdges(
+          stepNodeName(agent, step),
+          (state: PipelineGraphState) => following && !state.agents[agent] && state[AGENT_OUTPUT_KEYS[agent]] === undefined
+            ? stepNodeName(agent, following)
+            : firstStepAfter(agent, state),
+          [...(following ? [stepNodeName(agent, following)] : []), ...laterAgents, END]
+        );
+      });
+    });
+    graph.addEdge(START, stepNodeName('github-analyzer', this.workflows['github-analyzer'].steps[0]));
+
+    return graph.compile({ checkpointer: this.checkpointer });
+  }
+
+  /**
+   * Runs one step of an agent and checkpoints the agent state it leaves. The first step
+   * takes the previous or a cached output instead where there is one; the last step
+   * records the agent's output and status. A failure is recorded rather than thrown, so
+   * the graph routes around it; a cancellation still ends the run.
+   */
+  private async runStep(agent: PipelineAgent, index: number, state: PipelineGraphState, context: NodeContext): Promise<PipelineGraphUpdate> {
+    const { input, emit, live } = context;
+    const workflow = this.workflows[agent];
+    const step = workflow.steps[index];
+    const progress = state.working[agent];
+
+    if (!progress) {
+      // Outputs restored from an interrupted run are kept as they are
+      if (state[AGENT_OUTPUT_KEYS[agent]] !== undefined) return {};
+      emit({ type: 'agent-start', agent });
+    }
+    const startedAt = progress?.startedAt ?? Date.now();
+    const succeeded = (output: unknown): PipelineGraphUpdate => {
+      live.delete(agent);
+      return {
+        [AGENT_OUTPUT_KEYS[agent]]: output,
+        agents: { [agent]: { status: 'succeeded', durationMs: Date.now() - startedAt } },
+        working: { [agent]: undefined }
+      };
+    };
+
+    return captureLogs(
+      log => emit({ type: 'agent-log', agent, log }),
+      () => this.withRefresh(input, async () => {
+        let agentState = live.get(agent) as Awaited<ReturnType<typeof workflow.start>> | undefined;
+        try {
+          if (!progress) {
+            const reused = workflow.reusable ? await this.reuse(agent, state, context) : undefined;
+            if (reused !== undefined) return succeeded(reused);
+            agentState = await workflow.start(state, context);
+          } else if (!agentState) {
+            agentState = { ...progress.state, ...workflow.runtime(state, context) };
+          }
+
+          agentState = await runAgentStep(step, agentState);
+          if (index < workflow.steps.length - 1) {
+            live.set(agent, agentState);
+            return { working: { [agent]: { startedAt, state: withoutFields(agentState, workflow.transient) } } };
+          }
+
+          const output = await workflow.finish(agentState);
+          const key = this.cacheKey(agent, state);
+          if (key) await analysisCache.setAgentOutput(key, output);
+          return succeeded(output);
+        } catch (error) {
+          if (input.signal?.aborted) throw error;
+          live.delete(agent);
+          if (agentState) await workflow.fail(agentState, error as Error);
+          const message = (error as Error).message;
+          logError(`Agent ${agent} failed`, error as Error);
+          return {
+            agents: { [agent]: { status: 'failed', error: message, durationMs: Date.now() - startedAt } },
+            errors: [`${agent}: ${message}`],
+            working: { [agent]: undefined }
+          };
+        }
+      })
+    );
+  }
+
+  private withRefresh<T>(input: PipelineInput, fn: () => Promise<T>): Promise<T> {
+    return input.refresh ? withoutCachedResults(fn) : fn();
+  }
+
+  /**
+   * The previous analysis's output when nothing in scope changed, otherwise the output
+   * cached under the identities of every agent that fed into it
+   */
+  private async reuse(agent: PipelineAgent, state: PipelineGraphState, { input, emit }: NodeContext): Promise<unknown> {
+    const unchanged = state.repositoryAnalysis!.changes?.files.length === 0 ? input.previous : undefined;
+    const previous = unchanged?.[AGENT_OUTPUT_KEYS[agent]];
+    if (previous !== undefined) {
+      logInfo(`Reusing ${agent} output from the previous analysis`);
+      emit({ type: 'agent-reused', agent });
+      return previous;
+    }
+
+    const key = this.cacheKey(agent, state);
+    const cached = key ? await analysisCache.getAgentOutput(key) : undefined;
+    if (cached !== undefined) {
+      logInfo(`Using cached ${agent} output`, { commitSha: key!.commitSha });
+    }
+    return cached;
+  }
+
+  /** Where the agent's output is cached, if it is */
+  private cacheKey(agent: PipelineAgent, state: PipelineGraphState) {
+    const { reusable, cacheable } = this.workflows[agent];
+    if (!reusable || cacheable?.(state) === false) return undefined;
+
+    const agentChain = PIPELINE_AGENTS
+      .slice(0, PIPELINE_AGENTS.indexOf(agent) + 1)
+      .map(name => this.agentFor(name).getCacheIdentity());
+    return getAgentCacheKey(state.repositoryAnalysis!, agentChain);
+  }
+
+  private createWorkflows(): Record<PipelineAgent, AgentWorkflow> {
+    const { githubAnalyzer, architectureInference, codeFlow, riskAssessment } = this.agents;
+    const analyzerOptions = ({ input, emit }: NodeContext): GitHubAnalyzerOptions => ({
+      ...input.analyzerOptions,
+      signal: input.signal,
+      onProgress: progress => emit({ type: 'agent-progress', agent: 'github-analyzer', progress })
+    });
+
+    const github: AgentWorkflow<GitHubAnalyzerState> = {
+      start: (_state, context) => githubAnalyzer.start(context.input.repositoryUrl, analyzerOptions(context)),
+      steps: githubAnalyzer.getSteps(),
+      finish: state => githubAnalyzer.finish(state),
+      fail: (state, error) => githubAnalyzer.fail(state, error),
+      // The options carry the access token; the source is opened again when needed
+      transient: ['options', 'source'],
+      runtime: (_state, context) => ({ options: analyzerOptions(context) }),
+      reusable: false
+    };
+    const architecture: AgentWorkflow<ArchitectureInferenceState> = {
+      start: (state, { input }) => architectureInference.start(state.repositoryAnalysis!, { signal: input.signal }),
+      steps: architectureInference.getSteps(),
+      finish: state => architectureInference.finish(state),
+      fail: (state, error) => architectureInference.fail(state, error),
+      transient: ['repositoryAnalysis', 'signal'],
+      runtime: (state, { input }) => ({ repositoryAnalysis: state.repositoryAnalysis!, signal: input.signal }),
+      reusable: true
+    };
+    const flow: AgentWorkflow<CodeFlowState> = {
+      start: (state, { input }) => codeFlow.start(state.repositoryAnalysis!, state.architectureAnalysis!, { signal: input.signal }),
+      steps: codeFlow.getSteps(),
+      finish: state => codeFlow.finish(state),
+      fail: (state, error) => codeFlow.fail(state, error),
+      transient: ['repositoryAnalysis', 'architectureAnalysis', 'signal'],
+      runtime: (state, { input }) => ({
+        repositoryAnalysis: state.repositoryAnalysis!,
+        architectureAnalysis: state.architectureAnalysis!,
+        signal: input.signal
+      }),
+      reusable: true
+    };
+    const risk: AgentWorkflow<RiskAssessmentState> = {
+      start: (state, { input }) => riskAssessment.start(
+        state.repositoryAnalysis!,
+        state.architectureAnalysis!,
+        state.codeFlowAnalysis,
+        { signal: input.signal, baseline: input.previous?.riskAssessment }
+      ),
+      steps: riskAssessment.getSteps(),
+      finish: state => riskAssessment.finish(state),
+      fail: (state, error) => riskAssessment.fail(state, error),
+      transient: ['repositoryAnalysis', 'architectureAnalysis', 'codeFlowAnalysis', 'baseline', 'signal'],
+      runtime: (state, { input }) => ({
+        repositoryAnalysis: state.repositoryAnalysis!,
+        architectureAnalysis: state.architectureAnalysis!,
+        codeFlowAnalysis: state.codeFlowAnalysis,
+        baseline: input.previous?.riskAssessment,
+        signal: input.signal
+      }),
+      reusable: true,
+      // A degraded assessment made without code flow isn't cached under the full agent chain
+      cacheable: state => state.codeFlowAnalysis !== undefined
+    };
+
+    return { 'github-analyzer': github, 'architecture-inference': architecture, 'code-flow': flow, 'risk-assessment': risk };
+  }
+
+  private agentFor(agent: PipelineAgent) {
+    switch (agent) {
+      case 'github-analyzer': return this.agents.githubAnalyzer;
+      case 'architecture-inference': return this.agents.architectureInference;
+      case 'code-flow': return this.agents.codeFlow;
+      case 'risk-assessment': return this.agents.riskAssessment;
+    }
+  }
+}
+
+export default AnalysisPipeline;
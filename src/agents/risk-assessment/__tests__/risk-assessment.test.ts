@@ -0,0 +1,67 @@
+import { FileComplexityMetric, FileInfo, RepositoryAnalysis, RiskAssessment } from '../../../shared/types';
+import RiskAssessmentAgent, { RiskAssessmentState } from '..';
+
+function source(filePath: string, content: string): FileInfo {
+  return { path: filePath, name: filePath.split('/').pop()!, type: 'file', category: 'source', content };
+}
+
+function metric(file: string, complexity: number): FileComplexityMetric {
+  return { file, linesOfCode: 1, complexity, maintainabilityIndex: 90, riskLevel: 'low', issues: [] };
+}
+
+// The previous assessment's metrics are deliberately off, so reused ones stand out
+const BASELINE = {
+  complexityMetrics: {
+    fileComplexity: [metric('src/kept.ts', 42), metric('src/edited.ts', 42), metric('src/removed.ts', 42)]
+  }
+} as RiskAssessment;
+
+function state(overrides: Partial<RiskAssessmentState>): RiskAssessmentState {
+  const repositoryAnalysis = {
+    repository: { name: 'widgets' },
+    fileStructure: {
+      files: [
+        source('src/kept.ts', 'export const kept = 1;\n'),
+        source('src/edited.ts', 'if (a) { b(); }\n'),
+        source('src/added.ts', 'export const added = 2;\n')
+      ]
+    },
+    changes: {
+      baseCommitSha: 'a1b2c3d',
+      headCommitSha: 'e4f5a6b',
+      method: 'compare',
+      files: [
+        { path: 'src/edited.ts', status: 'modified' },
+        { path: 'src/added.ts', status: 'added' },
+        { path: 'src/removed.ts', status: 'removed' }
+      ]
+    }
+  } as RepositoryAnalysis;
+
+  return {
+    repositoryAnalysis,
+    architectureAnalysis: {} as RiskAssessmentState['architectureAnalysis'],
+    currentStep: 'init',
+    progress: 0,
+    errors: [],
+    metadata: { inputId: 'test', startTime: 0 },
+    ...overrides
+  };
+}
+
+describe('RiskAssessmentAgent complexity analysis', () => {
+  const analyzeComplexity = new RiskAssessmentAgent().getSteps().find(step => step.name === 'analyze_complexity')!;
+
+  it('keeps the baseline metrics of unchanged files and recomputes changed ones', async () => {
+    const { complexityMetrics } = await analyzeComplexity.run(state({ baseline: BASELINE }));
+    const complexityByFile = Object.fromEntries(complexityMetrics!.fileComplexity.map(m => [m.file, m.complexity]));
+
+    expect(complexityByFile).toEqual({ 'src/kept.ts': 42, 'src/edited.ts': 2, 'src/added.ts': 1 });
+  });
+
+  it('computes every metric without a baseline', async () => {
+    const { complexityMetrics } = await analyzeComplexity.run(state({}));
+
+    expect(complexityMetrics!.fileComplexity.map(m => m.complexity).sort()).toEqual([1, 1, 2]);
+  });
+});
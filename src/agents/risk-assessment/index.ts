@@ -13,11 +13,16 @@ import {
   DependencyIssue,
   DependencyRecommendation,
   FileInfo,
-  TechStack
+  AgentRunOptions,
+  AgentStep
 } from '../../shared/types';
 import { 
   LLMClient, 
-  logInfo, 
+  describeAnalysisScope,
+  countLines,
+  hashPromptBuilders,
+  AgentCacheIdentity,
+  runAgentStep,
   logError 
 } from '../../shared/utils';
 import { 
@@ -29,15 +34,57 @@ import {
 } from '../../shared/utils/simple-enhanced-logger';
 import { logAgent4Input, logAgent4Output, logAgent4Error } from '../../shared/utils/agent-io-logger';
 
+// Part of the cache key for this agent's output; bump when the analysis logic changes
+const AGENT_VERSION = '1.0.0';
+
+// What the LLM adds to the computed risks
+interface AIRiskAnalysis {
+  additionalRisks: Array<{
+    type: string;
+    severity: string;
+    title: string;
+    description: string;
+    location: string;
+    recommendation: string;
+  }>;
+  securityConcerns: Array<{
+    type: string;
+    severity: string;
+    description: string;
+    location: string;
+    mitigation: string;
+  }>;
+  qualityIssues: string[];
+  performanceBottlenecks: string[];
+  architectureAntiPatterns: string[];
+}
+
+// The parts of a package.json the dependency check reads
+interface PackageManifest {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+export interface RiskAssessmentOptions extends AgentRunOptions {
+  /** An earlier assessment of the same repository; files unchanged since keep its complexity metrics */
+  baseline?: RiskAssessment;
+}
+
 export interface RiskAssessmentState {
   repositoryAnalysis: RepositoryAnalysis;
   architectureAnalysis: ArchitectureAnalysis;
   codeFlowAnalysis?: CodeFlowAnalysis;
+  complexityMetrics?: ComplexityMetrics;
+  dependencyRisks?: DependencyRisk[];
+  migrationBlockers?: MigrationBlocker[];
+  aiRiskAnalysis?: AIRiskAnalysis;
   riskAssessment?: RiskAssessment;
+  baseline?: RiskAssessment;
+  signal?: AbortSignal;
   currentStep: string;
   progress: number;
   errors: string[];
-  metadata: Record<string, any>;
+  metadata: { inputId: string; startTime: number };
 }
 
 export class RiskAssessmentAgent {
@@ -47,18 +94,26 @@ export class RiskAssessmentAgent {
     this.llmClient = new LLMClient({ provider: 'gemini' });
   }
 
-  private calculateFileComplexity(files: FileInfo[]): FileComplexityMetric[] {
+  getCacheIdentity(): AgentCacheIdentity {
+    return { agent: 'risk-assessment', version: AGENT_VERSION, promptHash: hashPromptBuilders(this) };
+  }
+
+  private calculateFileComplexity(files: FileInfo[], reusable: Map<string, FileComplexityMetric>): FileComplexityMetric[] {
     return files
-      .filter(f => f.content && f.type === 'file')
+      .filter(f => f.content && f.type === 'file' && (f.category === 'source' || f.category === 'test'))
       .map(file => {
+        const reused = reusable.get(file.path);
+        if (reused) return reused;
+
         const content = file.content!;
-        const linesOfCode = content.split('\n').length;
+        const lines = file.lines || countLines(content, file.language);
+        const linesOfCode = lines.code;
         
         // Simple complexity heuristics
         const complexity = this.calculateSimpleComplexity(content);
-        const maintainabilityIndex = this.calculateMaintainabilityIndex(linesOfCode, complexity);
+        const maintainabilityIndex = this.calculateMaintainabilityIndex(linesOfCode, complexity, lines.comment);
         const riskLevel = this.determineFileRiskLevel(linesOfCode, complexity);
-        const issues = this.identifyFileIssues(file, content);
+        const issues = this.identifyFileIssues(file, content, linesOfCode);
 
         return {
           file: file.path,
@@ -72,6 +127,20 @@ export class RiskAssessmentAgent {
       .sort((a, b) => b.complexity - a.complexity);
   }
 
+  /** The baseline's metrics of files that haven't changed since its commit, by path */
+  private reusableFileComplexity(state: RiskAssessmentState): Map<string, FileComplexityMetric> {
+    const { baseline } = state;
+    const { changes } = state.repositoryAnalysis;
+    if (!baseline || !changes) return new Map();
+
+    const changedPaths = new Set(changes.files.map(change => change.path));
+    return new Map(
+      baseline.complexityMetrics.fileComplexity
+        .filter(metric => !changedPaths.has(metric.file))
+        .map(metric => [metric.file, metric])
+    );
+  }
+
   private calculateSimpleComplexity(content: string): number {
     // Simple cyclomatic complexity approximation
     const conditionals = (content.match(/\b(if|else|while|for|switch|case|catch|&&|\|\|)\b/g) || []).length;
@@ -80,12 +149,14 @@ export class RiskAssessmentAgent {
     return Math.min(complexity, 100); // Cap at 100
   }
 
-  private calculateMaintainabilityIndex(loc: number, complexity: number): number {
+  private calculateMaintainabilityIndex(loc: number, complexity: number, commentLines: number = 0): number {
     // Simplified maintainability index (0-100, higher is better)
     const baseIndex = 100;
-    const locPenalty = Math.log(loc) * 2;
+    const locPenalty = Math.log(Math.max(loc, 1)) * 2;
     const complexityPenalty = complexity * 3;
-    return Math.max(0, baseIndex - locPenalty - complexityPenalty);
+    // Commented code is easier to migrate, up to a 10 point bonus
+    const commentBonus = loc > 0 ? Math.min(commentLines / loc, 0.5) * 20 : 0;
+    return Math.min(100, Math.max(0, baseIndex - locPenalty - complexityPenalty + commentBonus));
   }
 
   private determineFileRiskLevel(loc: number, complexity: number): 'low' | 'medium' | 'high' {
@@ -94,14 +165,14 @@ export class RiskAssessmentAgent {
     return 'low';
   }
 
-  private identifyFileIssues(file: FileInfo, content: string): string[] {
+  private identifyFileIssues(file: FileInfo, content: string, linesOfCode: number): string[] {
     const issues: string[] = [];
     
     if (file.size && file.size > 10000) {
       issues.push('Large file size');
     }
     
-    if (content.split('\n').length > 500) {
+    if (linesOfCode > 500) {
       issues.push('High line count');
     }
     
@@ -154,12 +225,12 @@ export class RiskAssessmentAgent {
     return risks;
   }
 
-  private analyzeNpmDependencies(packageJson: any): DependencyRisk[] {
+  private analyzeNpmDependencies(packageJson: PackageManifest): DependencyRisk[] {
     const risks: DependencyRisk[] = [];
     const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
 
     for (const [name, version] of Object.entries(dependencies)) {
-      const risk = this.assessNpmDependency(name, version as string);
+      const risk = this.assessNpmDependency(name, version);
       if (risk) risks.push(risk);
     }
 
@@ -400,6 +471,12 @@ export class RiskAssessmentAgent {
     dependencyRisks: DependencyRisk[]
   ): Promise<string> {
     const topComplexFiles = complexityMetrics.fileComplexity.slice(0, 5);
+    const { linesOfCode } = repositoryAnalysis.fileStructure;
+    const languageLines = Object.entries(linesOfCode.byLanguage)
+      .sort(([, a], [, b]) => b.code - a.code)
+      .slice(0, 10)
+      .map(([language, lines]) => `- ${language}: ${lines.code} code, ${lines.comment} comment, ${lines.blank} blank lines (${lines.files} files)`)
+      .join('\n');
     const criticalDeps = dependencyRisks.filter(d => d.riskLevel === 'critical' || d.riskLevel === 'high');
     
     return `
@@ -415,9 +492,12 @@ Frameworks: ${architectureAnalysis.architecture.techStack.frameworks.join(', ')}
 ## Complexity Analysis
 Total Files: ${repositoryAnalysis.fileStructure.totalFiles}
 Source Files: ${repositoryAnalysis.fileStructure.categories.source?.length || 0}
-Average File Size: ${complexityMetrics.overallComplexity.averageFileSize} lines
+Total Lines of Code: ${complexityMetrics.overallComplexity.totalLinesOfCode}${linesOfCode.uncountedFiles > 0 ? ` (${linesOfCode.uncountedFiles} files not loaded, not counted)` : ''}
+Average File Size: ${complexityMetrics.overallComplexity.averageFileSize} lines of code
 Overall Complexity: ${complexityMetrics.overallComplexity.cyclomaticComplexity}
-
+Lines by Language:
+${languageLines || '- Not available'}
+${describeAnalysisScope(repositoryAnalysis.scope)}
 Top Complex Files:
 ${topComplexFiles.map(f => `- ${f.file}: ${f.linesOfCode} LOC, complexity ${f.complexity} (${f.riskLevel} risk)`).join('\n')}
 
@@ -445,11 +525,194 @@ Provide specific, actionable insights that will help prioritize migration effort
     `;
   }
 
-  async analyze(
+  private async analyzeComplexity(state: RiskAssessmentState): Promise<RiskAssessmentState> {
+    logStep('Complexity Analysis', { operation: 'Analyzing code complexity' });
+    const reusable = this.reusableFileComplexity(state);
+    const fileComplexityMetrics = this.calculateFileComplexity(state.repositoryAnalysis.fileStructure.files, reusable);
+    const reused = fileComplexityMetrics.filter(metric => reusable.get(metric.file) === metric).length;
+    
+    const complexityMetrics: ComplexityMetrics = {
+      fileComplexity: fileComplexityMetrics,
+      overallComplexity: {
+        totalLinesOfCode: fileComplexityMetrics.reduce((sum, f) => sum + f.linesOfCode, 0),
+        averageFileSize: fileComplexityMetrics.length > 0 
+          ? fileComplexityMetrics.reduce((sum, f) => sum + f.linesOfCode, 0) / fileComplexityMetrics.length 
+          : 0,
+        largestFiles: fileComplexityMetrics.slice(0, 5).map(f => f.file),
+        cyclomaticComplexity: fileComplexityMetrics.length > 0
+          ? fileComplexityMetrics.reduce((sum, f) => sum + f.complexity, 0) / fileComplexityMetrics.length
+          : 0,
+        maintainabilityIndex: fileComplexityMetrics.length > 0
+          ? fileComplexityMetrics.reduce((sum, f) => sum + f.maintainabilityIndex, 0) / fileComplexityMetrics.length
+          : 100
+      },
+      complexityHotspots: fileComplexityMetrics
+        .filter(f => f.riskLevel === 'high')
+        .slice(0, 10)
+        .map(f => ({
+          location: f.file,
+          type: 'large_file' as const,
+          severity: 'high' as const,
+          metrics: { linesOfCode: f.linesOfCode, complexity: f.complexity },
+          description: `High complexity file with ${f.linesOfCode} lines and complexity ${f.complexity}`,
+          refactoringSuggestion: 'Consider breaking this file into smaller, more focused modules'
+        }))
+    };
+
+    logProgress(`Analyzed complexity for ${fileComplexityMetrics.length} files`
+      + (state.baseline ? `, ${reused} of them unchanged since the previous analysis` : ''));
+    return { ...state, complexityMetrics, currentStep: 'analyze_complexity', progress: 25 };
+  }
+
+  private async assessDependencies(state: RiskAssessmentState): Promise<RiskAssessmentState> {
+    logStep('Dependency Analysis', { operation: 'Scanning dependency vulnerabilities' });
+    const dependencyRisks = this.analyzeDependencyRisks(state.repositoryAnalysis);
+    logProgress(`Found ${dependencyRisks.length} dependency risks`);
+    return { ...state, dependencyRisks, currentStep: 'analyze_dependencies', progress: 50 };
+  }
+
+  private async identifyBlockers(state: RiskAssessmentState): Promise<RiskAssessmentState> {
+    if (!state.dependencyRisks) {
+      throw new Error('Dependency risks not available');
+    }
+
+    logStep('Migration Blocker Analysis', { operation: 'Identifying migration blockers' });
+    const migrationBlockers = this.identifyMigrationBlockers(
+      state.repositoryAnalysis, 
+      state.architectureAnalysis, 
+      state.dependencyRisks
+    );
+    logProgress(`Identified ${migrationBlockers.length} migration blockers`);
+    return { ...state, migrationBlockers, currentStep: 'identify_blockers', progress: 75 };
+  }
+
+  private async analyzeRisksWithAI(state: RiskAssessmentState): Promise<RiskAssessmentState> {
+    if (!state.complexityMetrics || !state.dependencyRisks) {
+      throw new Error('Complexity metrics or dependency risks not available');
+    }
+
+    logStep('AI Risk Analysis', { model: 'Gemini AI' });
+    const prompt = await this.createRiskAnalysisPrompt(
+      state.repositoryAnalysis,
+      state.architectureAnalysis, 
+      state.complexityMetrics,
+      state.dependencyRisks
+    );
+
+    const aiRiskAnalysis = await this.llmClient.generateStructuredResponse<AIRiskAnalysis>(
+      prompt,
+      JSON.stringify({
+        additionalRisks: [{ type: 'string', severity: 'string', title: 'string', description: 'string', location: 'string', recommendation: 'string' }],
+        securityConcerns: [{ type: 'string', severity: 'string', description: 'string', location: 'string', mitigation: 'string' }],
+        qualityIssues: ['string'],
+        performanceBottlenecks: ['string'],
+        architectureAntiPatterns: ['string']
+      }),
+      'You are an expert software architect and security specialist analyzing migration risks.',
+      { signal: state.signal }
+    );
+
+    return { ...state, aiRiskAnalysis, currentStep: 'analyze_risks', progress: 90 };
+  }
+
+  private async compileAssessment(state: RiskAssessmentState): Promise<RiskAssessmentState> {
+    const { complexityMetrics, dependencyRisks, migrationBlockers, aiRiskAnalysis } = state;
+    if (!complexityMetrics || !dependencyRisks || !migrationBlockers || !aiRiskAnalysis) {
+      throw new Error('Risk analysis results not available');
+    }
+
+    const overallRiskScore = this.calculateOverallRiskScore(complexityMetrics, dependencyRisks, migrationBlockers);
+    
+    // Categorize all risks
+    const allRiskItems: RiskItem[] = [
+      // Complexity risks
+      ...complexityMetrics.complexityHotspots.map(h => ({
+        id: `complexity-${h.location.replace(/\//g, '-')}`,
+        type: 'complexity' as const,
+        severity: h.severity,
+        title: `Complex file: ${h.location}`,
+        description: h.description,
+        location: h.location,
+        impact: 'High complexity makes modification and testing difficult',
+        recommendation: h.refactoringSuggestion,
+        effort: 'high' as const,
+        migrationImpact: 'significant' as const
+      })),
+      // AI-identified additional risks
+      ...aiRiskAnalysis.additionalRisks.map(r => ({
+        id: `ai-risk-${r.title.replace(/\s+/g, '-').toLowerCase()}`,
+        type: r.type as RiskItem['type'],
+        severity: r.severity as RiskItem['severity'],
+        title: r.title,
+        description: r.description,
+        location: r.location,
+        impact: `AI-identified risk: ${r.description}`,
+        recommendation: r.recommendation,
+        effort: 'medium' as const,
+        migrationImpact: 'minor' as const
+      }))
+    ];
+
+    // Convert security concerns to vulnerabilities
+    const vulnerabilities: SecurityVulnerability[] = [
+      ...dependencyRisks
+        .filter(d => d.issues.some(i => i.type === 'vulnerable'))
+        .map(d => ({
+          id: `vuln-${d.name}`,
+          type: 'dependency' as const,
+          severity: d.issues[0].severity,
+          title: `Vulnerable dependency: ${d.name}`,
+          description: d.issues[0].description,
+          location: `Dependencies: ${d.name} ${d.currentVersion}`,
+          fixVersion: d.recommendations[0]?.targetVersion,
+          patchAvailable: d.recommendations.some(r => r.action === 'update'),
+          recommendation: d.recommendations[0]?.description || 'Update to secure version',
+          references: []
+        })),
+      ...aiRiskAnalysis.securityConcerns.map(s => ({
+        id: `security-${s.type}-${Date.now()}`,
+        type: s.type as SecurityVulnerability['type'],
+        severity: s.severity as SecurityVulnerability['severity'],
+        title: `Security concern: ${s.type}`,
+        description: s.description,
+        location: s.location,
+        patchAvailable: false,
+        recommendation: s.mitigation,
+        references: []
+      }))
+    ];
+
+    // Categorize risks by severity
+    const riskCategories = {
+      high_risk: allRiskItems.filter(r => r.severity === 'high' || r.severity === 'critical'),
+      medium_risk: allRiskItems.filter(r => r.severity === 'medium'),
+      low_risk: allRiskItems.filter(r => r.severity === 'low')
+    };
+
+    const priorityActions = this.generatePriorityActions(dependencyRisks, migrationBlockers, complexityMetrics.complexityHotspots);
+
+    const riskAssessment: RiskAssessment = {
+      repository: state.repositoryAnalysis.repository,
+      riskCategories,
+      vulnerabilities,
+      complexityMetrics,
+      dependencyRisks,
+      migrationBlockers,
+      overallRiskScore,
+      priorityActions,
+      timestamp: new Date().toISOString()
+    };
+
+    return { ...state, riskAssessment, currentStep: 'compile_assessment', progress: 100 };
+  }
+
+  /** Logs the inputs of a run and returns the state its first step works on */
+  async start(
     repositoryAnalysis: RepositoryAnalysis,
     architectureAnalysis: ArchitectureAnalysis,
-    codeFlowAnalysis?: CodeFlowAnalysis
-  ): Promise<RiskAssessment> {
+    codeFlowAnalysis?: CodeFlowAnalysis,
+    options: RiskAssessmentOptions = {}
+  ): Promise<RiskAssessmentState> {
     const inputId = Date.now().toString() + Math.random().toString(36).substr(2, 9);
     
     // Log detailed input
@@ -463,212 +726,72 @@ Provide specific, actionable insights that will help prioritize migration effort
       repository: repositoryAnalysis.repository.name 
     });
 
-    const startTime = Date.now();
-
-    try {
-      let state: RiskAssessmentState = {
-        repositoryAnalysis,
-        architectureAnalysis,
-        codeFlowAnalysis,
-        currentStep: 'init',
-        progress: 0,
-        errors: [],
-        metadata: {}
-      };
-
-      // Step 1: Calculate complexity metrics
-      logStep('Complexity Analysis', { operation: 'Analyzing code complexity' });
-      const fileComplexityMetrics = this.calculateFileComplexity(repositoryAnalysis.fileStructure.files);
-      
-      const complexityMetrics: ComplexityMetrics = {
-        fileComplexity: fileComplexityMetrics,
-        overallComplexity: {
-          totalLinesOfCode: fileComplexityMetrics.reduce((sum, f) => sum + f.linesOfCode, 0),
-          averageFileSize: fileComplexityMetrics.length > 0 
-            ? fileComplexityMetrics.reduce((sum, f) => sum + f.linesOfCode, 0) / fileComplexityMetrics.length 
-            : 0,
-          largestFiles: fileComplexityMetrics.slice(0, 5).map(f => f.file),
-          cyclomaticComplexity: fileComplexityMetrics.length > 0
-            ? fileComplexityMetrics.reduce((sum, f) => sum + f.complexity, 0) / fileComplexityMetrics.length
-            : 0,
-          maintainabilityIndex: fileComplexityMetrics.length > 0
-            ? fileComplexityMetrics.reduce((sum, f) => sum + f.maintainabilityIndex, 0) / fileComplexityMetrics.length
-            : 100
-        },
-        complexityHotspots: fileComplexityMetrics
-          .filter(f => f.riskLevel === 'high')
-          .slice(0, 10)
-          .map(f => ({
-            location: f.file,
-            type: 'large_file' as const,
-            severity: 'high' as const,
-            metrics: { linesOfCode: f.linesOfCode, complexity: f.complexity },
-            description: `High complexity file with ${f.linesOfCode} lines and complexity ${f.complexity}`,
-            refactoringSuggestion: 'Consider breaking this file into smaller, more focused modules'
-          }))
-      };
+    return {
+      repositoryAnalysis,
+      architectureAnalysis,
+      codeFlowAnalysis,
+      baseline: options.baseline,
+      signal: options.signal,
+      currentStep: 'init',
+      progress: 0,
+      errors: [],
+      metadata: { inputId, startTime: Date.now() }
+    };
+  }
 
-      logProgress(`Analyzed complexity for ${fileComplexityMetrics.length} files`);
-      state.progress = 25;
-
-      // Step 2: Analyze dependency risks
-      logStep('Dependency Analysis', { operation: 'Scanning dependency vulnerabilities' });
-      const dependencyRisks = this.analyzeDependencyRisks(repositoryAnalysis);
-      logProgress(`Found ${dependencyRisks.length} dependency risks`);
-      state.progress = 50;
-
-      // Step 3: Identify migration blockers
-      logStep('Migration Blocker Analysis', { operation: 'Identifying migration blockers' });
-      const migrationBlockers = this.identifyMigrationBlockers(
-        repositoryAnalysis, 
-        architectureAnalysis, 
-        dependencyRisks
-      );
-      logProgress(`Identified ${migrationBlockers.length} migration blockers`);
-      state.progress = 75;
-
-      // Step 4: AI-enhanced risk analysis
-      logStep('AI Risk Analysis', { model: 'Gemini AI' });
-      const riskAnalysisPrompt = await this.createRiskAnalysisPrompt(
-        repositoryAnalysis,
-        architectureAnalysis, 
-        complexityMetrics,
-        dependencyRisks
-      );
-
-      const aiRiskAnalysis = await this.llmClient.generateStructuredResponse<{
-        additionalRisks: Array<{
-          type: string;
-          severity: string;
-          title: string;
-          description: string;
-          location: string;
-          recommendation: string;
-        }>;
-        securityConcerns: Array<{
-          type: string;
-          severity: string;
-          description: string;
-          location: string;
-          mitigation: string;
-        }>;
-        qualityIssues: string[];
-        performanceBottlenecks: string[];
-        architectureAntiPatterns: string[];
-      }>(
-        riskAnalysisPrompt,
-        JSON.stringify({
-          additionalRisks: [{ type: 'string', severity: 'string', title: 'string', description: 'string', location: 'string', recommendation: 'string' }],
-          securityConcerns: [{ type: 'string', severity: 'string', description: 'string', location: 'string', mitigation: 'string' }],
-          qualityIssues: ['string'],
-          performanceBottlenecks: ['string'],
-          architectureAntiPatterns: ['string']
-        }),
-        'You are an expert software architect and security specialist analyzing migration risks.'
-      );
-
-      // Step 5: Compile final assessment
-      const overallRiskScore = this.calculateOverallRiskScore(complexityMetrics, dependencyRisks, migrationBlockers);
-      
-      // Categorize all risks
-      const allRiskItems: RiskItem[] = [
-        // Complexity risks
-        ...complexityMetrics.complexityHotspots.map(h => ({
-          id: `complexity-${h.location.replace(/\//g, '-')}`,
-          type: 'complexity' as const,
-          severity: h.severity,
-          title: `Complex file: ${h.location}`,
-          description: h.description,
-          location: h.location,
-          impact: 'High complexity makes modification and testing difficult',
-          recommendation: h.refactoringSuggestion,
-          effort: 'high' as const,
-          migrationImpact: 'significant' as const
-        })),
-        // AI-identified additional risks
-        ...aiRiskAnalysis.additionalRisks.map(r => ({
-          id: `ai-risk-${r.title.replace(/\s+/g, '-').toLowerCase()}`,
-          type: r.type as any,
-          severity: r.severity as any,
-          title: r.title,
-          description: r.description,
-          location: r.location,
-          impact: `AI-identified risk: ${r.description}`,
-          recommendation: r.recommendation,
-          effort: 'medium' as const,
-          migrationImpact: 'minor' as const
-        }))
-      ];
-
-      // Convert security concerns to vulnerabilities
-      const vulnerabilities: SecurityVulnerability[] = [
-        ...dependencyRisks
-          .filter(d => d.issues.some(i => i.type === 'vulnerable'))
-          .map(d => ({
-            id: `vuln-${d.name}`,
-            type: 'dependency' as const,
-            severity: d.issues[0].severity,
-            title: `Vulnerable dependency: ${d.name}`,
-            description: d.issues[0].description,
-            location: `Dependencies: ${d.name} ${d.currentVersion}`,
-            fixVersion: d.recommendations[0]?.targetVersion,
-            patchAvailable: d.recommendations.some(r => r.action === 'update'),
-            recommendation: d.recommendations[0]?.description || 'Update to secure version',
-            references: []
-          })),
-        ...aiRiskAnalysis.securityConcerns.map(s => ({
-          id: `security-${s.type}-${Date.now()}`,
-          type: s.type as any,
-          severity: s.severity as any,
-          title: `Security concern: ${s.type}`,
-          description: s.description,
-          location: s.location,
-          patchAvailable: false,
-          recommendation: s.mitigation,
-          references: []
-        }))
-      ];
+  getSteps(): AgentStep<RiskAssessmentState>[] {
+    return [
+      { name: 'analyze_complexity', description: 'Complexity analysis', run: state => this.analyzeComplexity(state) },
+      { name: 'analyze_dependencies', description: 'Dependency analysis', run: state => this.assessDependencies(state) },
+      { name: 'identify_blockers', description: 'Migration blocker analysis', run: state => this.identifyBlockers(state) },
+      { name: 'analyze_risks', description: 'AI risk analysis', run: state => this.analyzeRisksWithAI(state) },
+      { name: 'compile_assessment', description: 'Assessment compilation', run: state => this.compileAssessment(state) }
+    ];
+  }
 
-      // Categorize risks by severity
-      const riskCategories = {
-        high_risk: allRiskItems.filter(r => r.severity === 'high' || r.severity === 'critical'),
-        medium_risk: allRiskItems.filter(r => r.severity === 'medium'),
-        low_risk: allRiskItems.filter(r => r.severity === 'low')
-      };
+  /** The assessment the last step produced, with the run's output logged */
+  async finish(state: RiskAssessmentState): Promise<RiskAssessment> {
+    const { riskAssessment } = state;
+    if (!riskAssessment) {
+      throw new Error('Risk assessment not completed');
+    }
 
-      const priorityActions = this.generatePriorityActions(dependencyRisks, migrationBlockers, complexityMetrics.complexityHotspots);
-
-      const riskAssessment: RiskAssessment = {
-        repository: repositoryAnalysis.repository,
-        riskCategories,
-        vulnerabilities,
-        complexityMetrics,
-        dependencyRisks,
-        migrationBlockers,
-        overallRiskScore,
-        priorityActions,
-        timestamp: new Date().toISOString()
-      };
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
 
-      const executionTime = (Date.now() - startTime) / 1000;
+    // Log detailed output
+    await logAgent4Output(state.metadata.inputId, riskAssessment, executionTime);
 
-      // Log detailed output
-      await logAgent4Output(inputId, riskAssessment, executionTime);
+    logSuccess('Risk Assessment Analysis Completed', {
+      repository: riskAssessment.repository.name,
+      overallRiskScore: riskAssessment.overallRiskScore,
+      totalRisks: Object.values(riskAssessment.riskCategories).reduce((sum, risks) => sum + risks.length, 0),
+      vulnerabilities: riskAssessment.vulnerabilities.length,
+      migrationBlockers: riskAssessment.migrationBlockers.length
+    });
 
-      logSuccess('Risk Assessment Analysis Completed', {
-        repository: repositoryAnalysis.repository.name,
-        overallRiskScore,
-        totalRisks: allRiskItems.length,
-        vulnerabilities: vulnerabilities.length,
-        migrationBlockers: migrationBlockers.length
-      });
+    return riskAssessment;
+  }
 
-      return riskAssessment;
+  async fail(state: RiskAssessmentState, error: Error): Promise<void> {
+    const executionTime = (Date.now() - state.metadata.startTime) / 1000;
+    await logAgent4Error(state.metadata.inputId, error, executionTime);
+    logAnalysisError('Risk assessment analysis failed', error);
+  }
 
+  async analyze(
+    repositoryAnalysis: RepositoryAnalysis,
+    architectureAnalysis: ArchitectureAnalysis,
+    codeFlowAnalysis?: CodeFlowAnalysis,
+    options: RiskAssessmentOptions = {}
+  ): Promise<RiskAssessment> {
+    let state = await this.start(repositoryAnalysis, architectureAnalysis, codeFlowAnalysis, options);
+    try {
+      for (const step of this.getSteps()) {
+        state = await runAgentStep(step, state);
+      }
+      return await this.finish(state);
     } catch (error) {
-      const executionTime = (Date.now() - startTime) / 1000;
-      await logAgent4Error(inputId, error as Error, executionTime);
-      logAnalysisError('Risk assessment analysis failed', error as Error);
+      await this.fail(state, error as Error);
       throw error;
     }
   }
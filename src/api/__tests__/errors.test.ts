@@ -0,0 +1,102 @@
+import axios, { AxiosInstance } from 'axios';
+import fs from 'fs-extra';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+const ADMIN_KEY = 'api-test-admin-key';
+
+describe('API error responses', () => {
+  let directory: string;
+  let server: http.Server;
+  let client: AxiosInstance;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'api-test-'));
+    Object.assign(process.env, {
+      PORT: '0',
+      DATABASE_URL: `json:${directory}`,
+      ANALYSIS_CACHE_DIR: path.join(directory, 'cache'),
+      ADMIN_API_KEY: ADMIN_KEY,
+      AUTH_DISABLED: 'false'
+    });
+
+    // The module starts listening when it is loaded, so it is loaded once the environment is set
+    server = (await import('..')).server;
+    if (!server.listening) await new Promise(resolve => server.once('listening', resolve));
+    client = axios.create({
+      baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      headers: { 'X-API-Key': ADMIN_KEY },
+      validateStatus: () => true
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await fs.remove(directory);
+  });
+
+  function agentError(code: string, step: string) {
+    return { code, message: expect.any(String), timestamp: expect.any(String), agent: 'api', step };
+  }
+
+  it('reports invalid and malformed requests with the offending parts', async () => {
+    const body = await client.post('/api/analyze', { repositoryUrl: 42, options: { maxFiles: -1 } });
+    expect(body.status).toBe(400);
+    expect(body.data).toMatchObject(agentError('INVALID_BODY', 'POST /api/analyze'));
+    expect(body.data.details.map((issue: { path: string }) => issue.path)).toEqual(
+      expect.arrayContaining(['body.repositoryUrl', 'body.options.maxFiles'])
+    );
+
+    const params = await client.post('/api/analysis/abc/rerun/linter');
+    expect(params.status).toBe(400);
+    expect(params.data).toMatchObject(agentError('INVALID_PARAMS', 'POST /api/analysis/:id/rerun/:agent'));
+
+    const malformed = await client.post('/api/analyze', '{"repositoryUrl":', { headers: { 'Content-Type': 'application/json' } });
+    expect(malformed.status).toBe(400);
+    expect(malformed.data).toMatchObject({ code: 'INVALID_BODY', agent: 'api', details: [{ path: 'body' }] });
+  });
+
+  it('reports missing analyses and unknown routes as not found', async () => {
+    const missing = await client.get('/api/analysis/no-such-analysis');
+    expect(missing.status).toBe(404);
+    expect(missing.data).toEqual({ ...agentError('NOT_FOUND', 'GET /api/analysis/:id'), message: 'Analysis not found' });
+
+    const route = await client.delete('/api/no-such-route');
+    expect(route.status).toBe(404);
+    expect(route.data).toMatchObject(agentError('NOT_FOUND', 'DELETE /api/no-such-route'));
+  });
+
+  it('reports missing credentials and roles', async () => {
+    const anonymous = await client.get('/api/analyses', { headers: { 'X-API-Key': '' } });
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.data).toMatchObject(agentError('UNAUTHORIZED', 'GET /api/analyses'));
+
+    const { data: viewer } = await client.post('/api/admin/keys', { name: 'dashboard', owner: 'vera', role: 'viewer' });
+    const forbidden = await client.post('/api/analyze', { repositoryUrl: 'https://github.com/acme/widgets' }, {
+      headers: { 'X-API-Key': viewer.key }
+    });
+    expect(forbidden.status).toBe(403);
+    expect(forbidden.data).toEqual({ ...agentError('FORBIDDEN', 'POST /api/analyze'), message: 'Requires the analyst role' });
+  });
+
+  it('reports internal errors without a stack trace', async () => {
+    // An analysis whose stored result can't be read
+    const analysisDirectory = path.join(directory, 'broken');
+    await fs.outputJson(path.join(analysisDirectory, 'analysis.json'), {
+      id: 'broken',
+      status: 'completed',
+      progress: 100,
+      currentStep: 'Analysis completed',
+      createdAt: '2026-10-01T10:00:00.000Z'
+    });
+    await fs.outputFile(path.join(analysisDirectory, 'riskAssessment.json'), '{ truncated');
+
+    const response = await client.get('/api/analysis/broken');
+    expect(response.status).toBe(500);
+    expect(response.data).toMatchObject(agentError('INTERNAL_ERROR', 'GET /api/analysis/:id'));
+    expect(response.data.message).toMatch(/^Failed to load analysis: /);
+    expect(response.data).not.toHaveProperty('stack');
+  });
+});
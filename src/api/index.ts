@@ -1,254 +1,1464 @@
 import express from 'express';
 import cors from 'cors';
 import path from 'path';
+import { z } from 'zod';
 import { 
   AnalysisRequest, 
   AnalysisResponse, 
-  RepositoryAnalysis, 
-  ArchitectureAnalysis,
-  CodeFlowAnalysis,
-  RiskAssessment 
+  AgentResultSummary,
+  MonorepoAnalysis,
+  PipelineAgent,
+  AgentRunStatus,
+  AgentOutputVersion,
+  Webhook,
+  AnalysisEvent,
+  PublishedAnalysisEvent,
+  Principal,
+  UserRole,
+  RepositoryCredential,
+  SubProjectDiscovery,
+  AgentError
 } from '../shared/types';
-import { logInfo, logError } from '../shared/utils';
+import {
+  logInfo,
+  logError,
+  analysisCache,
+  CacheNamespace,
+  createAnalysisStore,
+  createCheckpointer,
+  isAnalysisFinished,
+  JobQueue,
+  WebhookDispatcher,
+  generateWebhookSecret,
+  finishedWebhookEvent,
+  AnalysisEventBus,
+  AuthService,
+  hasRole,
+  canAccessAnalysis,
+  CredentialVault,
+  REDACTED,
+  registerSecret,
+  redactSecrets,
+  isRemoteRepositoryUrl,
+  resolveLocalRepositoryPath,
+  RequestBudget
+} from '../shared/utils';
+import {
+  agentParamsSchema,
+  agentVersionParamsSchema,
+  analysisRequestSchema,
+  apiJsonSchemas,
+  apiKeySchema,
+  cachePurgeQuerySchema,
+  credentialSchema,
+  idParamsSchema,
+  loginSchema,
+  streamQuerySchema,
+  webhookSchema
+} from '../shared/schemas';
 import GitHubRepoAnalyzerAgent from '../agents/github-analyzer';
 import ArchitectureInferenceAgent from '../agents/architecture-inference';
 import { CodeFlowAgent } from '../agents/code-flow';
 import RiskAssessmentAgent from '../agents/risk-assessment';
+import AnalysisPipeline, {
+  AGENT_OUTPUT_KEYS,
+  downstreamAgents,
+  PIPELINE_AGENTS,
+  PipelineEvent,
+  REQUIRED_AGENTS,
+  resolveAgentSelection
+} from '../agents/pipeline';
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Browsers may only call the API cross-origin from CORS_ORIGINS; the bundled UI is same-origin
+const CORS_ORIGINS = (process.env.CORS_ORIGINS || '').split(',').map(origin => origin.trim()).filter(Boolean);
+
 // Middleware
-app.use(cors());
+app.use(cors({ origin: CORS_ORIGINS.length > 0 ? CORS_ORIGINS : false }));
 app.use(express.json());
 
 // Serve static UI
 app.use(express.static(path.join(__dirname, '../ui')));
 
-// In-memory storage for analysis results (in production, use a database)
-const analysisResults = new Map<string, AnalysisResponse>();
+// Analyses are kept in the store named by DATABASE_URL. Those in progress also stay in
+// memory, where progress updates are cheap, and are written through after every step.
+const analysisStore = createAnalysisStore();
+const activeAnalyses = new Map<string, AnalysisResponse>();
+
+// API keys and the session tokens the UI signs in with; AUTH_DISABLED=true lets every
+// request act as a local admin, for development only
+const auth = new AuthService(analysisStore);
+const AUTH_DISABLED = process.env.AUTH_DISABLED === 'true';
+const LOCAL_PRINCIPAL: Principal = { owner: 'local', role: 'admin', keyId: 'local' };
+
+// Repository tokens users store for their analyses, encrypted with CREDENTIALS_ENCRYPTION_KEY
+const credentialVault = new CredentialVault(analysisStore);
+
+// At most ANALYSIS_WORKERS analyses run at once; the rest wait their turn
+const jobQueue = new JobQueue();
+
+// Status changes are posted to registered webhooks and the request's callback URLs
+const webhooks = new WebhookDispatcher(analysisStore);
+
+// Finished analyses are deleted after this many days; 0 keeps them forever
+const ANALYSIS_RETENTION_DAYS = Number(process.env.ANALYSIS_RETENTION_DAYS ?? 30);
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000;
 
 // Initialize agents
 const githubAnalyzer = new GitHubRepoAnalyzerAgent();
 const architectureInference = new ArchitectureInferenceAgent();
 const codeFlowAgent = new CodeFlowAgent();
 const riskAssessmentAgent = new RiskAssessmentAgent();
+// Each step is checkpointed next to the analysis store, so a run resumes where a restart cut it off
+const analysisPipeline = new AnalysisPipeline({
+  githubAnalyzer,
+  architectureInference,
+  codeFlow: codeFlowAgent,
+  riskAssessment: riskAssessmentAgent
+}, createCheckpointer());
+
+// Agents that can be re-run on their stored inputs; the repository analysis is redone by a new analysis
+const RERUNNABLE_AGENTS: PipelineAgent[] = ['architecture-inference', 'code-flow', 'risk-assessment'];
+
+// What happens to each analysis, streamed to clients as deltas
+const analysisEvents = new AnalysisEventBus();
+
+// Last status published per analysis, so saves that change nothing else aren't announced
+const publishedStatuses = new Map<string, string>();
+
+// Idle streams get a comment this often, so proxies don't time them out
+const STREAM_HEARTBEAT_INTERVAL = 15 * 1000;
+
+// Step label and progress band of each agent
+const AGENT_STEPS: Record<PipelineAgent, { running: string; done: string; start: number; end: number }> = {
+  'github-analyzer': { running: 'Analyzing GitHub repository', done: 'Repository analysis', start: 10, end: 50 },
+  'architecture-inference': { running: 'Inferring architecture patterns', done: 'Architecture inference', start: 60, end: 70 },
+  'code-flow': { running: 'Analyzing code flow and dependencies', done: 'Code flow analysis', start: 75, end: 80 },
+  'risk-assessment': { running: 'Assessing migration risks and vulnerabilities', done: 'Risk assessment', start: 90, end: 95 }
+};
 
 // Generate unique analysis ID
 function generateAnalysisId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
+function principalOf(res: express.Response): Principal {
+  return res.locals.principal;
+}
+
+// An API key or session token, as `Authorization: Bearer`, `X-API-Key` or, for event streams,
+// which browsers can't send headers with, `?access_token=`
+function readCredential(req: express.Request): string | undefined {
+  const authorization = req.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+  if (req.get('X-API-Key')) return req.get('X-API-Key');
+  if (req.path.endsWith('/stream') && typeof req.query.access_token === 'string') return req.query.access_token;
+  return undefined;
+}
+
+function requireRole(role: UserRole): express.RequestHandler {
+  return (req, res, next) => {
+    if (hasRole(principalOf(res), role)) return next();
+    res.status(403).json(apiError(req, 'FORBIDDEN', `Requires the ${role} role`));
+  };
+}
+
+type RequestPart = 'body' | 'params' | 'query';
+
+// Every error response is an AgentError: the API is the agent and the route the step
+function apiError(req: express.Request, code: string, message: string, details?: unknown): AgentError {
+  return {
+    code,
+    message,
+    ...(details !== undefined && { details }),
+    timestamp: new Date().toISOString(),
+    agent: 'api',
+    step: `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`
+  };
+}
+
+// A rejected request, with the offending parts of it as details
+function requestError(req: express.Request, part: RequestPart, issues: Array<{ path: string; message: string }>): AgentError {
+  return apiError(req, `INVALID_${part.toUpperCase()}`, issues.map(issue => `${issue.path}: ${issue.message}`).join('; '), issues);
+}
+
+// Checks the request's parts against their schemas; a valid body is replaced by its parsed value
+function validate(schemas: Partial<Record<RequestPart, z.ZodTypeAny>>): express.RequestHandler {
+  return (req, res, next) => {
+    for (const [part, schema] of Object.entries(schemas) as Array<[RequestPart, z.ZodTypeAny]>) {
+      const parsed = schema.safeParse(req[part] ?? {});
+      if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => ({ path: [part, ...issue.path].join('.'), message: issue.message }));
+        return res.status(400).json(requestError(req, part, issues));
+      }
+      if (part === 'body') req.body = parsed.data;
+    }
+    return next();
+  };
+}
+
+// Every API route needs credentials, apart from signing in and the request schemas
+app.use('/api', async (req, res, next) => {
+  if (AUTH_DISABLED) {
+    res.locals.principal = LOCAL_PRINCIPAL;
+    return next();
+  }
+  if (req.path === '/auth/login' || req.path === '/schemas') return next();
+  
+  const credential = readCredential(req);
+  if (!credential) {
+    return res.status(401).json(apiError(req, 'UNAUTHORIZED', 'Authentication required'));
+  }
+  
+  try {
+    const principal = await auth.authenticate(credential);
+    if (!principal) {
+      return res.status(401).json(apiError(req, 'UNAUTHORIZED', 'Invalid or revoked credentials'));
+    }
+    res.locals.principal = principal;
+    return next();
+  } catch (error) {
+    logError('Failed to authenticate request', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to authenticate request: ${(error as Error).message}`));
+  }
+});
+
 // Health check endpoint
 app.get('/health', (req, res) => {
-  return res.json({ status: 'healthy', timestamp: new Date().toISOString() });
+  return res.json({ status: 'healthy', timestamp: new Date().toISOString(), queue: jobQueue.getStats() });
+});
+
+// Request schemas as JSON Schema, for clients to validate with before calling the API
+app.get('/api/schemas', (req, res) => {
+  return res.json(apiJsonSchemas());
+});
+
+// Exchange an API key for a session token
+app.post('/api/auth/login', validate({ body: loginSchema }), async (req, res) => {
+  try {
+    const { apiKey } = req.body;
+    
+    const principal = AUTH_DISABLED ? LOCAL_PRINCIPAL : await auth.authenticate(apiKey);
+    if (!principal) {
+      return res.status(401).json(apiError(req, 'UNAUTHORIZED', 'Invalid or revoked API key'));
+    }
+    
+    return res.json({ ...auth.issueToken(principal), owner: principal.owner, role: principal.role });
+  } catch (error) {
+    logError('Failed to sign in', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to sign in: ${(error as Error).message}`));
+  }
+});
+
+// Who the credentials belong to
+app.get('/api/auth/me', (req, res) => {
+  const { owner, role } = principalOf(res);
+  return res.json({ owner, role, authDisabled: AUTH_DISABLED });
 });
 
 // Start analysis endpoint
-app.post('/api/analyze', async (req, res) => {
+app.post('/api/analyze', requireRole('analyst'), validate({ body: analysisRequestSchema }), async (req, res) => {
   try {
     const request: AnalysisRequest = req.body;
     
-    if (!request.repositoryUrl) {
-      return res.status(400).json({
-        error: 'Repository URL is required'
-      });
+    if (!isRemoteRepositoryUrl(request.repositoryUrl)) {
+      try {
+        await resolveLocalRepositoryPath(request.repositoryUrl);
+      } catch (error) {
+        return res.status(400).json(requestError(req, 'body', [{ path: 'body.repositoryUrl', message: (error as Error).message }]));
+      }
+    }
+
+    if (request.credentialId !== undefined) {
+      try {
+        if (!credentialVault.isConfigured) throw new Error('Stored credentials are disabled; set CREDENTIALS_ENCRYPTION_KEY');
+        await credentialVault.find(request.credentialId, principalOf(res).owner, request.repositoryUrl);
+      } catch (error) {
+        return res.status(400).json(requestError(req, 'body', [{ path: 'body.credentialId', message: (error as Error).message }]));
+      }
+    }
+
+    if (request.previousAnalysisId !== undefined) {
+      const previous = await getVisibleAnalysis(request.previousAnalysisId, principalOf(res));
+      if (!previous) {
+        return res.status(404).json(apiError(req, 'NOT_FOUND', 'Previous analysis not found'));
+      }
+      if (!['completed', 'partial'].includes(previous.status) || !previous.result?.repositoryAnalysis?.repository.commitSha) {
+        return res.status(400).json(requestError(req, 'body', [{
+          path: 'body.previousAnalysisId',
+          message: 'Must be a completed analysis with a resolved commit'
+        }]));
+      }
     }
 
     const analysisId = generateAnalysisId();
     
-    // Create initial analysis response
-    const analysisResponse: AnalysisResponse = {
-      id: analysisId,
-      status: 'pending',
-      progress: 0,
-      currentStep: 'initialized',
-      createdAt: new Date().toISOString()
-    };
-    
-    analysisResults.set(analysisId, analysisResponse);
+    // The stored request never holds the access token; the vault keeps it, encrypted, until
+    // the analysis finishes, so that the analysis can resume after a restart
+    if (request.accessToken && credentialVault.isConfigured) {
+      await credentialVault.storeAnalysisToken(analysisId, principalOf(res).owner, request.repositoryUrl, request.accessToken);
+    }
+    await createAnalysisRecord(analysisId, withoutAccessToken(request), { owner: principalOf(res).owner });
     
-    // Start analysis asynchronously
-    performAnalysis(analysisId, request);
+    // Start analysis once a worker is free
+    const queuePosition = enqueueAnalysis(analysisId, request);
     
     return res.json({
       analysisId,
-      status: 'started',
-      message: 'Analysis started successfully'
+      status: queuePosition > 0 ? 'queued' : 'started',
+      queuePosition,
+      message: queuePosition > 0 ? `Analysis queued at position ${queuePosition}` : 'Analysis started successfully'
     });
     
   } catch (error) {
     logError('Failed to start analysis', error as Error);
-    return res.status(500).json({
-      error: 'Failed to start analysis',
-      message: (error as Error).message
-    });
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to start analysis: ${(error as Error).message}`));
   }
 });
 
 // Get analysis status and results
-app.get('/api/analysis/:id', (req, res) => {
-  const analysisId = req.params.id;
-  const result = analysisResults.get(analysisId);
-  
-  if (!result) {
-    return res.status(404).json({
-      error: 'Analysis not found'
-    });
+app.get('/api/analysis/:id', validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    const result = await getVisibleAnalysis(analysisId, principalOf(res));
+    
+    if (!result) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    return res.json(result);
+  } catch (error) {
+    logError('Failed to load analysis', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to load analysis: ${(error as Error).message}`));
   }
-  
-  return res.json(result);
 });
 
-// Get all analyses (for debugging)
-app.get('/api/analyses', (req, res) => {
-  const analyses = Array.from(analysisResults.values());
-  return res.json(analyses);
+// Get just the agent outputs produced so far, which the stream only sums up
+app.get('/api/analysis/:id/results', validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const analysis = await getVisibleAnalysis(req.params.id, principalOf(res));
+    
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    return res.json(analysis.result ?? {});
+  } catch (error) {
+    logError('Failed to load analysis results', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to load analysis results: ${(error as Error).message}`));
+  }
+});
+
+// List the caller's analyses; admins get everyone's
+app.get('/api/analyses', async (req, res) => {
+  try {
+    const principal = principalOf(res);
+    // Listings leave out agent results, which GET /api/analysis/:id returns
+    const owner = principal.role === 'admin' ? undefined : principal.owner;
+    const analyses = new Map((await analysisStore.list({ owner, results: false })).map(analysis => [analysis.id, analysis]));
+    activeAnalyses.forEach((analysis, id) => {
+      if (!canAccessAnalysis(principal, analysis)) return;
+      const { result, ...summary } = withQueuePosition(analysis);
+      analyses.set(id, summary);
+    });
+    return res.json(Array.from(analyses.values()));
+  } catch (error) {
+    logError('Failed to list analyses', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list analyses: ${(error as Error).message}`));
+  }
 });
 
 // Delete analysis
-app.delete('/api/analysis/:id', (req, res) => {
-  const analysisId = req.params.id;
-  const deleted = analysisResults.delete(analysisId);
-  
-  if (!deleted) {
-    return res.status(404).json({
-      error: 'Analysis not found'
+app.delete('/api/analysis/:id', requireRole('analyst'), validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    
+    if (!(await getVisibleAnalysis(analysisId, principalOf(res)))) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    // A running analysis would write itself back on its next step
+    if (activeAnalyses.has(analysisId)) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'Analysis is still queued or running'));
+    }
+    
+    const deleted = await analysisStore.delete(analysisId);
+    
+    if (!deleted) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    return res.json({ message: 'Analysis deleted successfully' });
+  } catch (error) {
+    logError('Failed to delete analysis', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to delete analysis: ${(error as Error).message}`));
+  }
+});
+
+// Cancel a queued or running analysis
+app.post('/api/analysis/:id/cancel', requireRole('analyst'), validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    const analysis = await getVisibleAnalysis(analysisId, principalOf(res));
+    
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    if (isAnalysisFinished(analysis)) {
+      return res.status(409).json(apiError(req, 'CONFLICT', `Analysis is already ${analysis.status}`));
+    }
+    
+    // Sub-project analyses run inside their discovery run's job, unless an agent is re-run
+    if (analysis.parentId && !analysis.rerun) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'Sub-project analyses are cancelled through their discovery run', { parentId: analysis.parentId }));
+    }
+    
+    const cancelled = jobQueue.cancel(analysisId);
+    if (!cancelled) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'Analysis is not queued or running'));
+    }
+    
+    // A running analysis aborts its in-flight requests and records itself as cancelled
+    if (cancelled === 'queued') {
+      const result = activeAnalyses.get(analysisId)!;
+      finishRerun(result);
+      result.status = 'cancelled';
+      result.error = 'Analysis cancelled';
+      result.completedAt = new Date().toISOString();
+      await finishAnalysis(result);
+      publishQueuePositions();
+    }
+    
+    logInfo('Analysis cancelled', { analysisId, was: cancelled });
+    return res.json({
+      analysisId,
+      status: cancelled === 'queued' ? 'cancelled' : 'cancelling',
+      message: 'Analysis cancelled successfully'
     });
+  } catch (error) {
+    logError('Failed to cancel analysis', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to cancel analysis: ${(error as Error).message}`));
+  }
+});
+
+// Re-run one agent on the analysis's stored upstream outputs
+app.post('/api/analysis/:id/rerun/:agent', requireRole('analyst'), validate({ params: agentParamsSchema }), async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    const agent = req.params.agent as PipelineAgent;
+    
+    if (!RERUNNABLE_AGENTS.includes(agent)) {
+      return res.status(400).json(requestError(req, 'params', [{
+        path: 'params.agent',
+        message: 'The repository analysis is redone by a new analysis; pass previousAnalysisId to reuse what did not change'
+      }]));
+    }
+    
+    const analysis = await getVisibleAnalysis(analysisId, principalOf(res));
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    if (analysis.monorepo || analysis.request?.discover) {
+      return res.status(400).json(apiError(req, 'BAD_REQUEST', 'Discovery runs have no agent outputs; re-run the agent on a sub-project analysis'));
+    }
+    
+    if (!isAnalysisFinished(analysis) || activeAnalyses.has(analysisId)) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'Analysis is still queued or running'));
+    }
+    
+    const missing = REQUIRED_AGENTS[agent].find(required => analysis.result?.[AGENT_OUTPUT_KEYS[required]] === undefined);
+    if (missing) {
+      return res.status(409).json(apiError(req, 'CONFLICT', `Re-running ${agent} needs the stored ${missing} output, which this analysis doesn't have`));
+    }
+    
+    if (!analysis.request) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'Analysis has no stored request to re-run'));
+    }
+    
+    // Claim the analysis before anything is awaited, so a second re-run or a delete sees it as active
+    activeAnalyses.set(analysisId, analysis);
+    
+    // The current output stays until the re-run succeeds; only then is it kept as a version
+    analysis.versions = { ...analysis.versions, [agent]: agentVersions(analysis, agent) };
+    analysis.agents = { ...(analysis.agents ?? pendingAgentStatuses()), [agent]: { status: 'pending' } };
+    analysis.rerun = { agent, requestedAt: new Date().toISOString() };
+    if (analysis.incremental) {
+      analysis.incremental.reusedAgents = analysis.incremental.reusedAgents.filter(reused => reused !== agent);
+    }
+    analysis.status = 'pending';
+    analysis.progress = 0;
+    analysis.currentStep = `Re-running ${agent}`;
+    delete analysis.error;
+    delete analysis.completedAt;
+    await saveAnalysis(analysis);
+    
+    const queuePosition = enqueueAnalysis(analysisId, jobRequest(analysis));
+    
+    return res.json({
+      analysisId,
+      agent,
+      status: queuePosition > 0 ? 'queued' : 'started',
+      queuePosition,
+      message: `Re-run of ${agent} ${queuePosition > 0 ? `queued at position ${queuePosition}` : 'started'}`
+    });
+  } catch (error) {
+    logError('Failed to re-run agent', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to re-run agent: ${(error as Error).message}`));
+  }
+});
+
+// Versions of an agent's output, oldest first
+app.get('/api/analysis/:id/agents/:agent/versions', validate({ params: agentParamsSchema }), async (req, res) => {
+  try {
+    const agent = req.params.agent as PipelineAgent;
+    
+    const analysis = await getVisibleAnalysis(req.params.id, principalOf(res));
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    return res.json({
+      agent,
+      currentVersion: currentVersion(analysis, agent),
+      versions: agentVersions(analysis, agent)
+    });
+  } catch (error) {
+    logError('Failed to list agent versions', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list agent versions: ${(error as Error).message}`));
+  }
+});
+
+// One version of an agent's output
+app.get('/api/analysis/:id/agents/:agent/versions/:version', validate({ params: agentVersionParamsSchema }), async (req, res) => {
+  try {
+    const agent = req.params.agent as PipelineAgent;
+    const version = Number(req.params.version);
+    
+    const analysis = await getVisibleAnalysis(req.params.id, principalOf(res));
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    const key = AGENT_OUTPUT_KEYS[agent];
+    const output = version === currentVersion(analysis, agent)
+      ? analysis.result?.[key]
+      : await analysisStore.getAgentVersion(analysis.id, key, version);
+    if (output === undefined) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Version not found'));
+    }
+    
+    return res.json(output);
+  } catch (error) {
+    logError('Failed to load agent version', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to load agent version: ${(error as Error).message}`));
+  }
+});
+
+// Delivery log of an analysis's webhook and callback notifications
+app.get('/api/analysis/:id/webhooks', validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const analysisId = req.params.id;
+    const analysis = await getVisibleAnalysis(analysisId, principalOf(res));
+    
+    if (!analysis) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+    }
+    
+    return res.json({ analysisId, deliveries: await analysisStore.listWebhookDeliveries(analysisId) });
+  } catch (error) {
+    logError('Failed to list webhook deliveries', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list webhook deliveries: ${(error as Error).message}`));
+  }
+});
+
+// Register a webhook for the status changes of the caller's analyses, or of every analysis for admins
+app.post('/api/webhooks', requireRole('analyst'), validate({ body: webhookSchema }), async (req, res) => {
+  try {
+    const { url, events, secret } = req.body;
+    
+    const principal = principalOf(res);
+    const webhook: Webhook = {
+      id: generateAnalysisId(),
+      url,
+      secret: secret ?? generateWebhookSecret(),
+      events,
+      owner: principal.role === 'admin' ? undefined : principal.owner,
+      createdAt: new Date().toISOString()
+    };
+    await analysisStore.saveWebhook(webhook);
+    
+    logInfo('Webhook registered', { webhookId: webhook.id, url, events });
+    // The secret is shown this once; listings leave it out
+    return res.status(201).json(webhook);
+  } catch (error) {
+    logError('Failed to register webhook', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to register webhook: ${(error as Error).message}`));
+  }
+});
+
+app.get('/api/webhooks', async (req, res) => {
+  try {
+    const principal = principalOf(res);
+    const registered = (await analysisStore.listWebhooks())
+      .filter(webhook => principal.role === 'admin' || webhook.owner === principal.owner);
+    return res.json({ webhooks: registered.map(({ secret, ...webhook }) => webhook) });
+  } catch (error) {
+    logError('Failed to list webhooks', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list webhooks: ${(error as Error).message}`));
+  }
+});
+
+app.delete('/api/webhooks/:id', requireRole('analyst'), validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const principal = principalOf(res);
+    const webhook = (await analysisStore.listWebhooks()).find(webhook => webhook.id === req.params.id);
+    if (!webhook || (principal.role !== 'admin' && webhook.owner !== principal.owner)) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Webhook not found'));
+    }
+    
+    const deleted = await analysisStore.deleteWebhook(webhook.id);
+    if (!deleted) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Webhook not found'));
+    }
+    
+    logInfo('Webhook deleted', { webhookId: req.params.id });
+    return res.json({ message: 'Webhook deleted successfully' });
+  } catch (error) {
+    logError('Failed to delete webhook', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to delete webhook: ${(error as Error).message}`));
+  }
+});
+
+// Store a repository access token for the caller's analyses to use through credentialId
+app.post('/api/credentials', requireRole('analyst'), validate({ body: credentialSchema }), async (req, res) => {
+  try {
+    const { name, host, token } = req.body;
+    
+    if (!credentialVault.isConfigured) {
+      return res.status(400).json(apiError(req, 'BAD_REQUEST', 'Stored credentials are disabled; set CREDENTIALS_ENCRYPTION_KEY'));
+    }
+    
+    const credential = await credentialVault.create(name, principalOf(res).owner, host, token);
+    
+    logInfo('Repository credential stored', { credentialId: credential.id, host: credential.host });
+    return res.status(201).json(publicCredential(credential));
+  } catch (error) {
+    logError('Failed to store credential', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to store credential: ${(error as Error).message}`));
+  }
+});
+
+app.get('/api/credentials', async (req, res) => {
+  try {
+    const principal = principalOf(res);
+    // Access tokens kept for running analyses are not credentials anyone can use
+    const stored = (await analysisStore.listCredentials())
+      .filter(credential => !credential.analysisId && (principal.role === 'admin' || credential.owner === principal.owner));
+    return res.json({ credentials: stored.map(publicCredential) });
+  } catch (error) {
+    logError('Failed to list credentials', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list credentials: ${(error as Error).message}`));
+  }
+});
+
+app.delete('/api/credentials/:id', requireRole('analyst'), validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const principal = principalOf(res);
+    const credential = await analysisStore.getCredential(req.params.id);
+    if (!credential || credential.analysisId || (principal.role !== 'admin' && credential.owner !== principal.owner)) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Credential not found'));
+    }
+    
+    const deleted = await analysisStore.deleteCredential(credential.id);
+    if (!deleted) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'Credential not found'));
+    }
+    
+    logInfo('Repository credential deleted', { credentialId: credential.id });
+    return res.json({ message: 'Credential deleted successfully' });
+  } catch (error) {
+    logError('Failed to delete credential', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to delete credential: ${(error as Error).message}`));
+  }
+});
+
+// Manage API keys; the key itself is only in the response that creates it
+app.get('/api/admin/keys', requireRole('admin'), async (req, res) => {
+  try {
+    const apiKeys = await analysisStore.listApiKeys();
+    return res.json({ keys: apiKeys.map(({ keyHash, ...apiKey }) => apiKey) });
+  } catch (error) {
+    logError('Failed to list API keys', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to list API keys: ${(error as Error).message}`));
+  }
+});
+
+app.post('/api/admin/keys', requireRole('admin'), validate({ body: apiKeySchema }), async (req, res) => {
+  try {
+    const { name, owner, role } = req.body;
+    
+    const { key, apiKey } = await auth.createApiKey(name, owner, role);
+    const { keyHash, ...created } = apiKey;
+    
+    logInfo('API key created', { keyId: apiKey.id, owner: apiKey.owner, role, by: principalOf(res).owner });
+    return res.status(201).json({ ...created, key });
+  } catch (error) {
+    logError('Failed to create API key', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to create API key: ${(error as Error).message}`));
+  }
+});
+
+// Revoke a key; its session tokens stop working too
+app.delete('/api/admin/keys/:id', requireRole('admin'), validate({ params: idParamsSchema }), async (req, res) => {
+  try {
+    const apiKey = await analysisStore.getApiKey(req.params.id);
+    if (!apiKey) {
+      return res.status(404).json(apiError(req, 'NOT_FOUND', 'API key not found'));
+    }
+    
+    if (apiKey.revokedAt) {
+      return res.status(409).json(apiError(req, 'CONFLICT', 'API key is already revoked'));
+    }
+    
+    apiKey.revokedAt = new Date().toISOString();
+    await analysisStore.saveApiKey(apiKey);
+    
+    logInfo('API key revoked', { keyId: apiKey.id, by: principalOf(res).owner });
+    return res.json({ message: 'API key revoked successfully' });
+  } catch (error) {
+    logError('Failed to revoke API key', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to revoke API key: ${(error as Error).message}`));
+  }
+});
+
+// Inspect the on-disk analysis cache
+app.get('/api/cache', requireRole('admin'), async (req, res) => {
+  try {
+    return res.json(await analysisCache.getStats());
+  } catch (error) {
+    logError('Failed to read cache stats', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to read cache stats: ${(error as Error).message}`));
+  }
+});
+
+// Purge the cache: everything, one namespace (?namespace=contents|agents|prompts) or one commit's agent outputs (?commitSha=)
+app.delete('/api/cache', requireRole('admin'), validate({ query: cachePurgeQuerySchema }), async (req, res) => {
+  const namespace = req.query.namespace as string | undefined;
+  const commitSha = req.query.commitSha as string | undefined;
+
+  try {
+    const removed = await analysisCache.purge({ namespace: namespace as CacheNamespace | undefined, commitSha });
+    return res.json({ message: 'Cache purged successfully', removed });
+  } catch (error) {
+    logError('Failed to purge cache', error as Error);
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to purge cache: ${(error as Error).message}`));
   }
-  
-  return res.json({ message: 'Analysis deleted successfully' });
 });
 
 // Server-sent events for real-time updates
-app.get('/api/analysis/:id/stream', (req, res) => {
+app.get('/api/analysis/:id/stream', validate({ params: idParamsSchema, query: streamQuerySchema }), async (req, res) => {
   const analysisId = req.params.id;
   
+  let analysis: AnalysisResponse | undefined;
+  try {
+    analysis = await getVisibleAnalysis(analysisId, principalOf(res));
+  } catch (error) {
+    logError('Failed to load analysis for stream', error as Error, { analysisId });
+    return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Failed to load analysis: ${(error as Error).message}`));
+  }
+  
+  if (!analysis) {
+    return res.status(404).json(apiError(req, 'NOT_FOUND', 'Analysis not found'));
+  }
+  
+  return streamAnalysisEvents(req, res, analysis);
+});
+
+// Sends the analysis's events as server-sent events until it finishes or the client leaves
+function streamAnalysisEvents(req: express.Request, res: express.Response, analysis: AnalysisResponse) {
+  const analysisId = analysis.id;
+  
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
     'Connection': 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Headers': 'Cache-Control'
+    'X-Accel-Buffering': 'no'
   });
+  res.write('retry: 3000\n\n');
   
-  // Send initial data
-  const result = analysisResults.get(analysisId);
-  if (result) {
-    res.write(`data: ${JSON.stringify(result)}\n\n`);
-  }
+  const send = (event: PublishedAnalysisEvent) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
   
-  // Set up periodic updates
-  const interval = setInterval(() => {
-    const updatedResult = analysisResults.get(analysisId);
-    if (updatedResult) {
-      res.write(`data: ${JSON.stringify(updatedResult)}\n\n`);
-      
-      // Close connection when analysis is complete
-      if (updatedResult.status === 'completed' || updatedResult.status === 'failed') {
-        clearInterval(interval);
-        res.end();
-      }
-    }
-  }, 1000);
+  // A reconnecting client gets the events it missed; anyone else, or a client whose events
+  // are gone, starts from a snapshot of the analysis record without its agent outputs.
+  // Nothing is awaited from here on, so no event can slip in between the snapshot and the
+  // subscription.
+  const lastEventId = req.get('Last-Event-ID') ?? (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+  const missed = lastEventId ? analysisEvents.replay(analysisId, lastEventId) : undefined;
+  const current = activeAnalyses.get(analysisId) ?? analysis;
+  if (missed) {
+    missed.forEach(send);
+  } else {
+    const snapshotId = analysisEvents.lastEventId(analysisId);
+    const { result, ...snapshot } = withQueuePosition(current);
+    res.write(`${snapshotId ? `id: ${snapshotId}\n` : ''}event: snapshot\ndata: ${JSON.stringify(snapshot)}\n\n`);
+  }
   
-  // Clean up on client disconnect
-  req.on('close', () => {
-    clearInterval(interval);
+  if (isAnalysisFinished(current)) {
     res.end();
+    return;
+  }
+  
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_INTERVAL);
+  const unsubscribe = analysisEvents.subscribe(analysisId, event => {
+    send(event);
+    // Close connection when analysis is complete
+    if (event.type === 'status' && isAnalysisFinished(event)) stop();
   });
-});
+  const stop = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  
+  // Clean up on client disconnect
+  req.on('close', stop);
+}
 
 // Perform the actual analysis
-async function performAnalysis(analysisId: string, request: AnalysisRequest) {
+async function performAnalysis(analysisId: string, request: AnalysisRequest, signal: AbortSignal) {
+  if (request.discover) {
+    return performDiscoveryAnalysis(analysisId, request, signal);
+  }
+
+  let releaseToken: (() => void) | undefined;
   try {
-    const result = analysisResults.get(analysisId);
+    const result = activeAnalyses.get(analysisId);
     if (!result) return;
     
+    const agents = result.agents ??= pendingAgentStatuses();
+    
     logInfo(`Starting analysis for ${request.repositoryUrl}`, { analysisId });
     
+    // Incremental runs start from a previous analysis and keep its scope unless told otherwise
+    const previous = request.previousAnalysisId ? await getAnalysis(request.previousAnalysisId) : undefined;
+    const baseline = previous?.result?.repositoryAnalysis;
+    if (request.previousAnalysisId && !result.incremental) {
+      result.incremental = { previousAnalysisId: request.previousAnalysisId, reusedAgents: [] };
+    }
+    
+    // Only the repository analysis reads the repository, so a resumed or re-run analysis past it needs no token
+    const token = result.result?.repositoryAnalysis ? undefined : await repositoryToken(request, result);
+    releaseToken = token ? registerSecret(token) : undefined;
+    
     // Update status to running
     result.status = 'running';
     result.progress = 0;
     result.currentStep = 'Starting GitHub analysis';
+    await saveAnalysis(result);
+    await webhooks.dispatch(result, 'analysis.started');
     
-    // Step 1: GitHub Repository Analysis
-    logInfo('Running GitHub repository analysis', { analysisId });
-    result.currentStep = 'Analyzing GitHub repository';
-    result.progress = 10;
-    
-    const repositoryAnalysis: RepositoryAnalysis = await githubAnalyzer.analyze(request.repositoryUrl);
-    
-    result.progress = 50;
-    result.currentStep = 'Repository analysis completed';
-    result.result = { repositoryAnalysis };
-    
-    // Step 2: Architecture Inference
-    logInfo('Running architecture inference', { analysisId });
-    result.currentStep = 'Inferring architecture patterns';
-    result.progress = 60;
-    
-    const architectureAnalysis: ArchitectureAnalysis = await architectureInference.analyze(repositoryAnalysis);
-    
-    result.progress = 70;
-    result.currentStep = 'Architecture inference completed';
-    result.result!.architectureAnalysis = architectureAnalysis;
-    
-    // Step 3: Code Flow Analysis
-    logInfo('Running code flow analysis', { analysisId });
-    result.currentStep = 'Analyzing code flow and dependencies';
-    result.progress = 75;
-    
-    const codeFlowAnalysis: CodeFlowAnalysis = await codeFlowAgent.analyze(repositoryAnalysis, architectureAnalysis);
-    
-    result.progress = 80;
-    result.currentStep = 'Code flow analysis completed';
-    result.result!.codeFlowAnalysis = codeFlowAnalysis;
-    
-    // Step 4: Risk Assessment Analysis
-    logInfo('Running risk assessment analysis', { analysisId });
-    result.currentStep = 'Assessing migration risks and vulnerabilities';
-    result.progress = 90;
+    const events = analysisPipeline.stream(analysisId, {
+      repositoryUrl: request.repositoryUrl,
+      analyzerOptions: {
+        ...(request.options ?? baseline?.scope),
+        ref: request.ref || request.branch,
+        token,
+        baseline,
+        // Every source the analysis opens, re-opened ones included, draws on one budget
+        budget: new RequestBudget()
+      },
+      // An analysis interrupted by a restart keeps the results of the agents it had finished;
+      // a re-run agent's current output is left out so that it runs again
+      completed: result.rerun ? withoutOutput(result.result, result.rerun.agent) : result.result,
+      // A partial analysis may hold degraded outputs, so only a completed one's are reused
+      previous: previous?.status === 'completed' ? previous.result : undefined,
+      agents: request.agents,
+      refresh: result.rerun !== undefined,
+      signal
+    });
+    for await (const event of events) {
+      if (event.type === 'agent-end' && event.agent === result.rerun?.agent && event.run.status === 'succeeded') {
+        await saveCurrentVersion(result, event.agent);
+      }
+      const progress = result.progress;
+      applyPipelineEvent(result, event);
+      publishPipelineEvent(result, event, progress);
+      if (event.type === 'agent-end') {
+        await saveAnalysis(result);
+        if (event.run.status !== 'skipped') await webhooks.dispatch(result, 'analysis.agent-completed', event.agent);
+      }
+    }
     
-    const riskAssessment: RiskAssessment = await riskAssessmentAgent.analyze(repositoryAnalysis, architectureAnalysis, codeFlowAnalysis);
+    // Every other agent works from the repository analysis
+    const repositoryAnalysis = result.result?.repositoryAnalysis;
+    if (!repositoryAnalysis) {
+      throw new Error(agents['github-analyzer'].error || 'Repository analysis did not complete');
+    }
     
+    // A re-run's request names one agent; the analysis is judged by everything it was asked for
+    finishRerun(result);
+    const selected = resolveAgentSelection((result.request ?? request).agents);
+    const degraded = selected.filter(agent => agents[agent].status !== 'succeeded');
     result.progress = 100;
-    result.currentStep = 'Analysis completed';
-    result.result!.riskAssessment = riskAssessment;
-    result.status = 'completed';
+    result.currentStep = degraded.length > 0 ? `Analysis completed without ${degraded.join(', ')}` : 'Analysis completed';
+    result.status = degraded.length > 0 ? 'partial' : 'completed';
     result.completedAt = new Date().toISOString();
+    await finishAnalysis(result);
     
-    logInfo('Analysis completed successfully', { 
+    logInfo(degraded.length > 0 ? 'Analysis completed with missing agent results' : 'Analysis completed successfully', { 
       analysisId, 
       repository: repositoryAnalysis.repository.name,
-      architecture: architectureAnalysis.architecture.type,
-      codeFlowComplexity: codeFlowAnalysis.complexity,
-      riskScore: riskAssessment.overallRiskScore
+      architecture: result.result?.architectureAnalysis?.architecture.type,
+      codeFlowComplexity: result.result?.codeFlowAnalysis?.complexity,
+      riskScore: result.result?.riskAssessment?.overallRiskScore,
+      degraded
     });
     
   } catch (error) {
-    logError('Analysis failed', error as Error, { analysisId });
+    if (signal.aborted) {
+      logInfo('Analysis stopped after cancellation', { analysisId });
+    } else {
+      logError('Analysis failed', error as Error, { analysisId });
+    }
     
-    const result = analysisResults.get(analysisId);
+    const result = activeAnalyses.get(analysisId);
     if (result) {
-      result.status = 'failed';
-      result.error = (error as Error).message;
+      result.status = signal.aborted ? 'cancelled' : 'failed';
+      result.error = signal.aborted ? 'Analysis cancelled' : redactSecrets((error as Error).message);
       result.completedAt = new Date().toISOString();
+      
+      // The agent that was interrupted failed; the ones after it never ran
+      for (const run of Object.values(result.agents ?? {})) {
+        if (run.status === 'running') Object.assign(run, { status: 'failed', error: result.error });
+        if (run.status === 'pending') Object.assign(run, { status: 'skipped', error: result.error });
+      }
+      finishRerun(result);
+      await finishAnalysis(result);
     }
+  } finally {
+    releaseToken?.();
   }
 }
 
-// Error handling middleware
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  logError('Unhandled error in API', err);
-  res.status(500).json({
-    error: 'Internal server error',
-    message: err.message
+// Folds a pipeline event into the analysis record
+function applyPipelineEvent(result: AnalysisResponse, event: PipelineEvent) {
+  const step = AGENT_STEPS[event.agent];
+  switch (event.type) {
+    case 'agent-start':
+      logInfo(`Running ${event.agent}`, { analysisId: result.id });
+      result.agents![event.agent] = { status: 'running' };
+      result.currentStep = step.running;
+      result.progress = step.start;
+      break;
+    case 'agent-progress': {
+      const { phase, completed, total } = event.progress;
+      if (phase === 'listing') {
+        result.currentStep = 'Listing repository files';
+        break;
+      }
+      // Content fetching spans the 10-45% band of the overall progress
+      result.currentStep = `Fetched ${completed}/${total} files`;
+      result.progress = 10 + Math.round((completed / Math.max(total, 1)) * 35);
+      break;
+    }
+    case 'agent-reused':
+      result.incremental?.reusedAgents.push(event.agent);
+      break;
+    case 'agent-end':
+      result.agents![event.agent] = event.run;
+      result.result = { ...result.result, ...event.results };
+      if (event.results.repositoryAnalysis) result.fetchStats = event.results.repositoryAnalysis.fetchStats;
+      result.currentStep = `${step.done} ${event.run.status}`;
+      result.progress = Math.max(result.progress, step.end);
+      break;
+  }
+}
+
+// Relays a pipeline event to stream clients as the change it made to the analysis
+function publishPipelineEvent(result: AnalysisResponse, event: PipelineEvent, previousProgress: number) {
+  switch (event.type) {
+    case 'agent-start':
+      analysisEvents.publish(result.id, { type: 'step-started', agent: event.agent });
+      break;
+    case 'agent-progress':
+      // Content fetching reports every file; clients hear of it once per percentage point
+      if (event.progress.phase === 'content' && result.progress === previousProgress) break;
+      analysisEvents.publish(result.id, { type: 'progress', agent: event.agent, progress: result.progress, currentStep: result.currentStep });
+      break;
+    case 'agent-log': {
+      const { level, message, details } = event.log;
+      analysisEvents.publish(result.id, level === 'warn'
+        ? { type: 'warning', agent: event.agent, message, details }
+        : { type: 'log', agent: event.agent, level, message, details });
+      break;
+    }
+    case 'agent-end':
+      analysisEvents.publish(result.id, {
+        type: 'partial-result',
+        agent: event.agent,
+        run: event.run,
+        summary: event.run.status === 'succeeded' ? summarizeAgentResults(event.results) : undefined,
+        reused: result.incremental?.reusedAgents.includes(event.agent) || undefined
+      });
+      break;
+  }
+}
+
+// The counts a stream client shows for an agent's output, which can run to every file's content
+function summarizeAgentResults(results: NonNullable<AnalysisResponse['result']>): AgentResultSummary {
+  const { repositoryAnalysis, architectureAnalysis, codeFlowAnalysis, riskAssessment } = results;
+  return {
+    ...(repositoryAnalysis && {
+      ...(repositoryAnalysis.repository.commitSha && { commitSha: repositoryAnalysis.repository.commitSha }),
+      files: repositoryAnalysis.fileStructure.totalFiles,
+      directories: repositoryAnalysis.fileStructure.totalDirectories,
+      contentLoaded: repositoryAnalysis.fetchStats.contentLoaded,
+      partial: repositoryAnalysis.fetchStats.partial
+    }),
+    ...(architectureAnalysis && {
+      architectureType: architectureAnalysis.architecture.type,
+      components: architectureAnalysis.architecture.components.length,
+      migrationComplexity: architectureAnalysis.migrationComplexity
+    }),
+    ...(codeFlowAnalysis && {
+      entryPoints: codeFlowAnalysis.codeFlow.entryPoints.length,
+      executionPaths: codeFlowAnalysis.codeFlow.executionPaths.length,
+      complexity: codeFlowAnalysis.complexity
+    }),
+    ...(riskAssessment && {
+      overallRiskScore: riskAssessment.overallRiskScore,
+      highRisks: riskAssessment.riskCategories.high_risk.length,
+      vulnerabilities: riskAssessment.vulnerabilities.length,
+      migrationBlockers: riskAssessment.migrationBlockers.length
+    })
+  };
+}
+
+// Publishes the analysis's status, progress and step when any of them changed
+function publishStatus(analysis: AnalysisResponse) {
+  const event: AnalysisEvent = {
+    type: 'status',
+    status: analysis.status,
+    progress: analysis.progress,
+    currentStep: analysis.currentStep,
+    queuePosition: jobQueue.getPosition(analysis.id),
+    error: analysis.error,
+    completedAt: analysis.completedAt
+  };
+  const key = JSON.stringify(event);
+  if (publishedStatuses.get(analysis.id) === key) return;
+  publishedStatuses.set(analysis.id, key);
+  analysisEvents.publish(analysis.id, event);
+}
+
+// Waiting analyses move up when one starts or leaves the queue
+function publishQueuePositions() {
+  for (const analysis of activeAnalyses.values()) {
+    if (jobQueue.getPosition(analysis.id) !== undefined) publishStatus(analysis);
+  }
+}
+
+function pendingAgentStatuses(): Record<PipelineAgent, AgentRunStatus> {
+  return Object.fromEntries(PIPELINE_AGENTS.map(agent => [agent, { status: 'pending' }])) as Record<PipelineAgent, AgentRunStatus>;
+}
+
+// The stored copy of a request: it records that an access token was given, never the token
+function withoutAccessToken(request: AnalysisRequest): AnalysisRequest {
+  return request.accessToken ? { ...request, accessToken: REDACTED } : request;
+}
+
+// The token a job reads its repository with: the request's own or its stored credential's.
+// A resumed analysis finds its request's token in the vault, under the discovery run for a
+// sub-project; without a vault the token was never kept.
+async function repositoryToken(request: AnalysisRequest, analysis: AnalysisResponse): Promise<string | undefined> {
+  if (request.accessToken === REDACTED) {
+    const token = credentialVault.isConfigured ? await credentialVault.resolveAnalysisToken(analysis.parentId ?? analysis.id) : undefined;
+    if (!token) {
+      throw new Error('The access token for this analysis is not stored, so it could not resume after a server restart; submit it again');
+    }
+    return token;
+  }
+  if (request.credentialId) {
+    return credentialVault.resolve(request.credentialId, analysis.owner, request.repositoryUrl);
+  }
+  return request.accessToken;
+}
+
+// A stored credential as the API shows it, without the token
+function publicCredential({ encryptedToken, ...credential }: RepositoryCredential): Omit<RepositoryCredential, 'encryptedToken'> {
+  return credential;
+}
+
+// What a job runs for an analysis: its request, narrowed to the agent being re-run if any
+function jobRequest(analysis: AnalysisResponse): AnalysisRequest {
+  const request = analysis.request!;
+  return analysis.rerun ? { ...request, agents: [analysis.rerun.agent], previousAnalysisId: undefined } : request;
+}
+
+// Versions of an agent's output; an agent that was never re-run has its original output as version 1
+function agentVersions(analysis: AnalysisResponse, agent: PipelineAgent): AgentOutputVersion[] {
+  const recorded = analysis.versions?.[agent];
+  if (recorded) return recorded;
+  if (analysis.result?.[AGENT_OUTPUT_KEYS[agent]] === undefined) return [];
+  return [{ version: 1, createdAt: analysis.createdAt, durationMs: analysis.agents?.[agent]?.durationMs }];
+}
+
+// The version held in the analysis result, if the agent has a current output
+function currentVersion(analysis: AnalysisResponse, agent: PipelineAgent): number | undefined {
+  const versions = agentVersions(analysis, agent);
+  return analysis.result?.[AGENT_OUTPUT_KEYS[agent]] !== undefined && versions.length > 0
+    ? versions[versions.length - 1].version
+    : undefined;
+}
+
+// The results without the agent's output
+function withoutOutput(results: AnalysisResponse['result'], agent: PipelineAgent): AnalysisResponse['result'] {
+  if (!results) return results;
+  const { [AGENT_OUTPUT_KEYS[agent]]: _output, ...rest } = results;
+  return rest;
+}
+
+// Stores the agent's current output under its version number, before a re-run's output replaces it
+async function saveCurrentVersion(analysis: AnalysisResponse, agent: PipelineAgent) {
+  const version = currentVersion(analysis, agent);
+  const key = AGENT_OUTPUT_KEYS[agent];
+  if (version !== undefined) await analysisStore.saveAgentVersion(analysis.id, key, version, analysis.result![key]!);
+}
+
+// A successful re-run's output becomes the agent's next version, and the outputs downstream of
+// it, built on the output it replaced, are marked stale; a failed one leaves everything in place
+function finishRerun(result: AnalysisResponse) {
+  const rerun = result.rerun;
+  if (!rerun) return;
+  
+  const run = result.agents?.[rerun.agent];
+  const versions = result.versions?.[rerun.agent] ?? [];
+  if (run?.status === 'succeeded' && result.result?.[AGENT_OUTPUT_KEYS[rerun.agent]] !== undefined) {
+    versions.push({
+      version: (versions[versions.length - 1]?.version ?? 0) + 1,
+      createdAt: new Date().toISOString(),
+      durationMs: run.durationMs
+    });
+    result.versions = { ...result.versions, [rerun.agent]: versions };
+    
+    const stale = new Set(result.staleAgents?.filter(agent => agent !== rerun.agent));
+    for (const agent of downstreamAgents(rerun.agent)) {
+      if (result.result?.[AGENT_OUTPUT_KEYS[agent]] !== undefined) stale.add(agent);
+    }
+    result.staleAgents = PIPELINE_AGENTS.filter(agent => stale.has(agent));
+    if (result.staleAgents.length === 0) delete result.staleAgents;
+  }
+  delete result.rerun;
+}
+
+function enqueueAnalysis(analysisId: string, request: AnalysisRequest): number {
+  const position = jobQueue.enqueue(analysisId, signal => {
+    publishQueuePositions();
+    return performAnalysis(analysisId, request, signal);
   });
+  const analysis = activeAnalyses.get(analysisId);
+  if (analysis) publishStatus(analysis);
+  return position;
+}
+
+async function createAnalysisRecord(
+  analysisId: string,
+  request: AnalysisRequest,
+  { owner, parentId }: { owner?: string; parentId?: string }
+): Promise<AnalysisResponse> {
+  const analysisResponse: AnalysisResponse = {
+    id: analysisId,
+    status: 'pending',
+    progress: 0,
+    currentStep: 'initialized',
+    request,
+    parentId,
+    owner,
+    createdAt: new Date().toISOString()
+  };
+  activeAnalyses.set(analysisId, analysisResponse);
+  await saveAnalysis(analysisResponse);
+  return analysisResponse;
+}
+
+async function getAnalysis(analysisId: string): Promise<AnalysisResponse | undefined> {
+  const active = activeAnalyses.get(analysisId);
+  return active ? withQueuePosition(active) : analysisStore.get(analysisId);
+}
+
+// The analysis if the caller may see it; others' analyses are reported as not found
+async function getVisibleAnalysis(analysisId: string, principal: Principal): Promise<AnalysisResponse | undefined> {
+  const analysis = await getAnalysis(analysisId);
+  return analysis && canAccessAnalysis(principal, analysis) ? analysis : undefined;
+}
+
+// The queue position moves as other analyses start, so it is reported live and never stored
+function withQueuePosition(analysis: AnalysisResponse): AnalysisResponse {
+  const queuePosition = jobQueue.getPosition(analysis.id);
+  return queuePosition === undefined ? analysis : { ...analysis, queuePosition };
+}
+
+// A store that can't be written must not fail the analysis; it stays in memory instead
+async function saveAnalysis(analysis: AnalysisResponse): Promise<boolean> {
+  publishStatus(analysis);
+  try {
+    await analysisStore.save(analysis);
+    return true;
+  } catch (error) {
+    logError('Failed to save analysis', error as Error, { analysisId: analysis.id });
+    return false;
+  }
+}
+
+async function finishAnalysis(analysis: AnalysisResponse): Promise<void> {
+  if (await saveAnalysis(analysis)) {
+    activeAnalyses.delete(analysis.id);
+  }
+  // Sub-projects read with their discovery run's token, which is kept until the run finishes
+  if (!analysis.parentId && analysis.request?.accessToken === REDACTED && credentialVault.isConfigured) {
+    await credentialVault.forgetAnalysisToken(analysis.id);
+  }
+  analysisEvents.close(analysis.id);
+  publishedStatuses.delete(analysis.id);
+  const event = finishedWebhookEvent(analysis.status);
+  if (event) await webhooks.dispatch(analysis, event);
+}
+
+function countBy(values: Array<string | undefined>): Record<string, number> {
+  return values.reduce<Record<string, number>>((counts, value) => {
+    if (value) counts[value] = (counts[value] || 0) + 1;
+    return counts;
+  }, {});
+}
+
+// Discover sub-projects, then run the full pipeline for each one as its own analysis
+async function performDiscoveryAnalysis(analysisId: string, request: AnalysisRequest, signal: AbortSignal) {
+  const result = activeAnalyses.get(analysisId);
+  if (!result) return;
+
+  let children: AnalysisResponse[] = [];
+  try {
+    if (result.monorepo) {
+      // Interrupted by a restart: the sub-projects are known, so only unfinished ones run again
+      logInfo(`Resuming sub-project analyses for ${request.repositoryUrl}`, { analysisId });
+      children = await loadSubProjectAnalyses(result.monorepo);
+    } else {
+      children = await discoverSubProjects(result, request, signal);
+    }
+    const monorepo = result.monorepo!;
+
+    for (const [index, entry] of monorepo.subProjects.entries()) {
+      const child = children[index];
+      if (isAnalysisFinished(child)) continue;
+
+      result.currentStep = `Analyzing sub-project ${index + 1}/${monorepo.subProjects.length}: ${entry.project.name}`;
+      entry.status = 'running';
+
+      // performAnalysis updates the child record in place; the stored request has no access token,
+      // and after a restart neither has this run's, so the child resolves it from the vault
+      await performAnalysis(child.id, { ...child.request!, accessToken: request.accessToken }, signal);
+
+      entry.status = child.status;
+      entry.error = child.error;
+      entry.primaryLanguage = child.result?.architectureAnalysis?.architecture.techStack.language;
+      entry.architectureType = child.result?.architectureAnalysis?.architecture.type;
+      entry.riskScore = child.result?.riskAssessment?.overallRiskScore;
+
+      result.progress = 10 + Math.round(((index + 1) / monorepo.subProjects.length) * 85);
+      await saveAnalysis(result);
+      signal.throwIfAborted();
+    }
+
+    monorepo.summary = {
+      total: monorepo.subProjects.length,
+      completed: monorepo.subProjects.filter(entry => entry.status === 'completed').length,
+      partial: monorepo.subProjects.filter(entry => entry.status === 'partial').length,
+      failed: monorepo.subProjects.filter(entry => entry.status === 'failed').length,
+      languages: countBy(monorepo.subProjects.map(entry => entry.primaryLanguage)),
+      architectureTypes: countBy(monorepo.subProjects.map(entry => entry.architectureType))
+    };
+    monorepo.timestamp = new Date().toISOString();
+
+    result.progress = 100;
+    result.currentStep = 'Analysis completed';
+    result.status = 'completed';
+    result.completedAt = new Date().toISOString();
+    await finishAnalysis(result);
+
+    logInfo('Sub-project analysis completed', { analysisId, ...monorepo.summary });
+  } catch (error) {
+    if (signal.aborted) {
+      logInfo('Sub-project analysis stopped after cancellation', { analysisId });
+    } else {
+      logError('Sub-project discovery failed', error as Error, { analysisId });
+    }
+    result.status = signal.aborted ? 'cancelled' : 'failed';
+    result.error = signal.aborted ? 'Analysis cancelled' : redactSecrets((error as Error).message);
+    result.completedAt = new Date().toISOString();
+
+    // Sub-projects that never ran end the way their discovery run did
+    for (const [index, child] of children.entries()) {
+      if (isAnalysisFinished(child)) continue;
+      child.status = result.status;
+      child.error = result.error;
+      child.completedAt = result.completedAt;
+      await finishAnalysis(child);
+      if (result.monorepo) result.monorepo.subProjects[index].status = child.status;
+    }
+    await finishAnalysis(result);
+  }
+}
+
+// Lists the sub-projects, records a pending analysis for each and attaches the monorepo report
+async function discoverSubProjects(result: AnalysisResponse, request: AnalysisRequest, signal: AbortSignal): Promise<AnalysisResponse[]> {
+  const analysisId = result.id;
+  logInfo(`Starting sub-project discovery for ${request.repositoryUrl}`, { analysisId });
+  result.status = 'running';
+  result.progress = 5;
+  result.currentStep = 'Discovering sub-projects';
+  await saveAnalysis(result);
+  await webhooks.dispatch(result, 'analysis.started');
+
+  const token = await repositoryToken(request, result);
+  const releaseToken = token ? registerSecret(token) : undefined;
+  let discovery: SubProjectDiscovery;
+  try {
+    discovery = await githubAnalyzer.discoverSubProjects(request.repositoryUrl, {
+      ...request.options,
+      ref: request.ref || request.branch,
+      token,
+      signal
+    });
+  } catch (error) {
+    // Secrets are only masked while registered, so the message is redacted before the token is released
+    throw new Error(redactSecrets((error as Error).message));
+  } finally {
+    releaseToken?.();
+  }
+
+  // Every sub-project is read at the commit discovery resolved, even if the branch moves meanwhile
+  const ref = discovery.repository.commitSha || request.ref || request.branch;
+
+  const children: AnalysisResponse[] = [];
+  for (const project of discovery.subProjects) {
+    children.push(await createAnalysisRecord(generateAnalysisId(), withoutAccessToken({
+      repositoryUrl: request.repositoryUrl,
+      ref,
+      // A project that holds others leaves them to their own analyses
+      options: {
+        ...request.options,
+        subpath: project.path,
+        ...(project.nested && { exclude: [...(request.options?.exclude ?? []), ...project.nested.map(inner => `/${inner}/`)] })
+      },
+      agents: request.agents,
+      accessToken: request.accessToken,
+      credentialId: request.credentialId
+    }), { owner: result.owner, parentId: analysisId }));
+  }
+
+  result.monorepo = {
+    repository: discovery.repository,
+    subProjects: discovery.subProjects.map((project, index) => ({
+      project,
+      analysisId: children[index].id,
+      status: 'pending' as const
+    })),
+    links: discovery.links,
+    listingComplete: discovery.listingComplete,
+    summary: { total: discovery.subProjects.length, completed: 0, partial: 0, failed: 0, languages: {}, architectureTypes: {} },
+    timestamp: new Date().toISOString()
+  };
+  result.progress = 10;
+  await saveAnalysis(result);
+
+  return children;
+}
+
+// Reloads a discovery run's sub-project analyses; unfinished ones become active again
+async function loadSubProjectAnalyses(monorepo: MonorepoAnalysis): Promise<AnalysisResponse[]> {
+  const children: AnalysisResponse[] = [];
+  for (const entry of monorepo.subProjects) {
+    const child = await getAnalysis(entry.analysisId);
+    if (!child) {
+      throw new Error(`Sub-project analysis ${entry.analysisId} no longer exists`);
+    }
+    if (!isAnalysisFinished(child)) activeAnalyses.set(child.id, child);
+    children.push(child);
+  }
+  return children;
+}
+
+// Analyses left pending or running in the store were cut off by a restart. They are queued
+// again in submission order and continue from the pipeline's last checkpoint; sub-project
+// analyses are picked up by their discovery run, unless they were re-running an agent.
+async function resumeInterruptedAnalyses() {
+  const interrupted = await analysisStore.list({ status: ['pending', 'running'] });
+  let resumed = 0;
+  for (const analysis of interrupted) {
+    if (analysis.parentId && !analysis.rerun) continue;
+
+    if (!analysis.request) {
+      analysis.status = 'failed';
+      analysis.error = 'Interrupted by a server restart';
+      analysis.completedAt = new Date().toISOString();
+      await saveAnalysis(analysis);
+      continue;
+    }
+
+    activeAnalyses.set(analysis.id, analysis);
+    enqueueAnalysis(analysis.id, jobRequest(analysis));
+    resumed++;
+  }
+  if (resumed > 0) {
+    logInfo('Resuming interrupted analyses', { count: resumed });
+  }
+}
+
+async function purgeExpiredAnalyses() {
+  if (!(ANALYSIS_RETENTION_DAYS > 0)) return;
+  try {
+    const before = new Date(Date.now() - ANALYSIS_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const removed = await analysisStore.deleteCompletedBefore(before);
+    if (removed > 0) {
+      logInfo('Deleted expired analyses', { removed, retentionDays: ANALYSIS_RETENTION_DAYS });
+    }
+  } catch (error) {
+    logError('Failed to delete expired analyses', error as Error);
+  }
+}
+
+// Unknown API routes get an AgentError like every other failed request
+app.use('/api', (req, res) => {
+  return res.status(404).json(apiError(req, 'NOT_FOUND', `No route for ${req.method} ${req.baseUrl}${req.path}`));
 });
 
+// Error handling middleware
+app.use((err: unknown, req: express.Request, res: express.Response, _next: express.NextFunction) => {
+  const error = err instanceof Error ? err : new Error(String(err));
+  // express.json() marks bodies it can't parse with this type
+  if ('type' in error && error.type === 'entity.parse.failed') {
+    return res.status(400).json(requestError(req, 'body', [{ path: 'body', message: `Malformed JSON: ${error.message}` }]));
+  }
+  logError('Unhandled error in API', error);
+  return res.status(500).json(apiError(req, 'INTERNAL_ERROR', `Internal server error: ${error.message}`));
+});
+
+resumeInterruptedAnalyses()
+  .catch(error => logError('Failed to recover interrupted analyses', error as Error))
+  .then(purgeExpiredAnalyses);
+setInterval(purgeExpiredAnalyses, RETENTION_SWEEP_INTERVAL).unref();
+if (!AUTH_DISABLED) {
+  auth.warnIfNoAdmin().catch(error => logError('Failed to check for admin API keys', error as Error));
+}
+
 // Start server
-app.listen(port, () => {
+export const server = app.listen(port, () => {
   logInfo(`Server running on port ${port}`);
   console.log(`🚀 Server running on http://localhost:${port}`);
   console.log(`📊 Health check: http://localhost:${port}/health`);
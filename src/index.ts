@@ -47,7 +47,7 @@ process.on('SIGTERM', () => {
   process.exit(0);
 });
 
-process.on('unhandledRejection', (reason, promise) => {
+process.on('unhandledRejection', (reason) => {
   logError('Unhandled promise rejection', reason as Error);
   console.error('❌ Unhandled promise rejection:', reason);
 });
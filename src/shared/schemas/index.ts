@@ -0,0 +1,145 @@
+/**
+ * Request schemas of every API endpoint that takes a body, path parameters or a query.
+ * The API validates with them, and clients can too: import them, or fetch them as JSON
+ * Schema from GET /api/schemas.
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AnalysisRequest, PipelineAgent, UserRole, WebhookEvent } from '../types';
+import { CACHE_NAMESPACES, CacheNamespace } from '../utils/analysis-cache';
+import { isRemoteRepositoryUrl } from '../utils/repository-providers';
+import { USER_ROLES } from '../utils/auth';
+import { WEBHOOK_EVENTS } from '../utils/webhooks';
+
+export const MAX_FILES_LIMIT = 100000;
+export const MAX_FILE_SIZE_LIMIT = 50 * 1024 * 1024;
+
+const nonEmptyString = z.string().trim().min(1);
+
+const httpUrl = z.string().refine(value => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}, 'Must be an http(s) URL');
+
+// Remote URLs need an owner (or project) and a repository; anything else is a path on the
+// server, which the API checks against LOCAL_REPOSITORY_ROOTS
+const repositoryUrl = nonEmptyString.refine(value => {
+  if (!isRemoteRepositoryUrl(value)) return true;
+  const scp = value.match(/^git@[^:/]+:(.+)$/);
+  if (scp) return scp[1].split('/').filter(Boolean).length >= 2;
+  try {
+    return new URL(value).pathname.split('/').filter(Boolean).length >= 2;
+  } catch {
+    return false;
+  }
+}, 'Must be a repository URL such as https://github.com/owner/repo, or a path on the server');
+
+const globs = z.array(nonEmptyString);
+
+export const pipelineAgentSchema = z.enum(['github-analyzer', 'architecture-inference', 'code-flow', 'risk-assessment']) satisfies z.ZodType<PipelineAgent>;
+
+export const analysisOptionsSchema = z
+  .object({
+    includeTests: z.boolean(),
+    maxFiles: z.number().int().min(1).max(MAX_FILES_LIMIT),
+    includeContent: z.boolean(),
+    include: globs,
+    exclude: globs,
+    maxFileSize: z.number().int().min(1).max(MAX_FILE_SIZE_LIMIT),
+    subpath: z.string().refine(value => !value.split(/[\\/]/).includes('..'), 'Must not contain ".." segments')
+  })
+  .partial()
+  .strict();
+
+export const analysisRequestSchema = z
+  .object({
+    repositoryUrl,
+    ref: nonEmptyString.optional(),
+    branch: nonEmptyString.optional(),
+    discover: z.boolean().optional(),
+    previousAnalysisId: nonEmptyString.optional(),
+    options: analysisOptionsSchema.optional(),
+    agents: z.array(pipelineAgentSchema).nonempty().optional(),
+    callbackUrls: z.array(httpUrl).optional(),
+    // '[REDACTED]' is what stored requests show in place of a token
+    accessToken: z.string().min(1).refine(value => value !== '[REDACTED]', 'Must be a token').optional(),
+    credentialId: nonEmptyString.optional()
+  })
+  .superRefine((request, context) => {
+    if (request.previousAnalysisId !== undefined && request.discover) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['previousAnalysisId'], message: 'Cannot be combined with discover' });
+    }
+    if (request.accessToken !== undefined && request.credentialId !== undefined) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['credentialId'], message: 'Cannot be combined with accessToken' });
+    }
+  }) satisfies z.ZodType<AnalysisRequest, z.ZodTypeDef, unknown>;
+
+export const loginSchema = z.object({
+  apiKey: z.string().min(1)
+});
+
+export const webhookSchema = z.object({
+  url: httpUrl,
+  events: z.array(z.enum(WEBHOOK_EVENTS as [WebhookEvent, ...WebhookEvent[]])).nonempty().optional(),
+  secret: z.string().min(16).optional()
+});
+
+export const credentialSchema = z.object({
+  name: nonEmptyString,
+  host: z.string().regex(/^[a-z0-9.-]+$/i, 'Must be the host name of the repositories the token is for, like github.com'),
+  token: z.string().min(1)
+});
+
+export const apiKeySchema = z.object({
+  name: nonEmptyString,
+  owner: nonEmptyString,
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]])
+});
+
+export const idParamsSchema = z.object({
+  id: nonEmptyString
+});
+
+export const agentParamsSchema = idParamsSchema.extend({
+  agent: pipelineAgentSchema
+});
+
+export const agentVersionParamsSchema = agentParamsSchema.extend({
+  version: z.coerce.number().int().min(1)
+});
+
+export const cachePurgeQuerySchema = z.object({
+  namespace: z.enum(CACHE_NAMESPACES as [CacheNamespace, ...CacheNamespace[]]).optional(),
+  commitSha: z.string().regex(/^[0-9a-f]{7,64}$/i, 'Must be a hexadecimal commit SHA').optional()
+});
+
+export const streamQuerySchema = z.object({
+  lastEventId: z.string().optional(),
+  access_token: z.string().optional()
+});
+
+// Published under these names by GET /api/schemas
+export const API_SCHEMAS = {
+  analysisRequest: analysisRequestSchema,
+  analysisOptions: analysisOptionsSchema,
+  login: loginSchema,
+  webhook: webhookSchema,
+  credential: credentialSchema,
+  apiKey: apiKeySchema,
+  idParams: idParamsSchema,
+  agentParams: agentParamsSchema,
+  agentVersionParams: agentVersionParamsSchema,
+  cachePurgeQuery: cachePurgeQuerySchema,
+  streamQuery: streamQuerySchema
+};
+
+/** Every published schema as JSON Schema, keyed by name */
+export function apiJsonSchemas(): Record<keyof typeof API_SCHEMAS, object> {
+  return Object.fromEntries(
+    Object.entries(API_SCHEMAS).map(([name, schema]) => [name, zodToJsonSchema(schema, { $refStrategy: 'none' })])
+  ) as Record<keyof typeof API_SCHEMAS, object>;
+}
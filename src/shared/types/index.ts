@@ -7,7 +7,8 @@ export interface Repository {
   language?: string;
   stars?: number;
   forks?: number;
-  branch: string;
+  branch: string; // the branch, tag or commit that was analyzed
+  commitSha?: string; // commit the analysis was pinned to; absent for plain directories
   lastUpdated?: string;
 }
 
@@ -18,8 +19,19 @@ export interface FileInfo {
   type: 'file' | 'directory';
   size?: number;
   extension?: string;
+  sha?: string; // git blob SHA, when the listing reports it
   content?: string;
+  binary?: boolean; // the loaded content was binary, so it was left out
   category?: FileCategory;
+  language?: string;
+  confidence?: number; // 0-1, how sure the classifier is about category and language
+  lines?: LineCounts; // set when the content was loaded
+}
+
+export interface FileClassification {
+  category: FileCategory;
+  language?: string;
+  confidence: number;
 }
 
 export type FileCategory = 
@@ -38,12 +50,101 @@ export interface FileStructure {
   files: FileInfo[];
   categories: Record<FileCategory, FileInfo[]>;
   mainFiles: FileInfo[];
+  exclusions: Partial<Record<ExclusionReason, number>>; // listed files left out of the analysis, by reason
+  linesOfCode: LinesOfCodeStats;
+}
+
+export interface LineCounts {
+  code: number;
+  comment: number;
+  blank: number;
+}
+
+export interface LineCountSummary extends LineCounts {
+  files: number;
+}
+
+export interface LinesOfCodeStats {
+  total: LineCountSummary;
+  byLanguage: Record<string, LineCountSummary>;
+  byCategory: Partial<Record<FileCategory, LineCountSummary>>;
+  byDirectory: Record<string, LineCountSummary>; // includes subdirectories; the root is `total`
+  uncountedFiles: number; // analyzed files whose content was not loaded
+}
+
+export type ExclusionReason =
+  | 'gitignore'
+  | 'migrationignore'
+  | 'vendored' // .gitattributes linguist-vendored
+  | 'generated' // .gitattributes linguist-generated
+  | 'default-ignore' // built-in list of build output, dependency and IDE directories
+  | 'binary'
+  | 'size'
+  | 'scope' // include / exclude globs
+  | 'test';
+
+export type ListingMethod = 'git-tree' | 'contents-api' | 'gitlab-tree' | 'bitbucket-files' | 'filesystem' | 'git-cli';
+
+export interface FileListing {
+  files: FileInfo[];
+  complete: boolean; // false when the listing hit maxFiles or a part of the tree could not be read
+  method: ListingMethod;
+}
+
+export interface RequestBudgetUsage {
+  limit?: number; // undefined means no per-analysis budget
+  used: number;
+  exhausted: boolean;
+  retries: number;
+  rateLimitWaits: number;
+  rateLimitRemaining?: number;
+  rateLimitReset?: string;
+}
+
+export interface FetchStats {
+  requests?: RequestBudgetUsage; // only for sources that go through a rate-limited API
+  contentRequested: number;
+  contentLoaded: number;
+  contentCached?: number; // of contentLoaded, read from the blob cache instead of the source
+  contentReused?: number; // of contentLoaded, taken from the previous analysis of an incremental run
+  contentSkipped?: number; // files in scope left without content: past the first maxFiles, or over maxFileSize once loaded
+  partial: boolean; // true when the listing or file contents are incomplete
+}
+
+// Incremental re-analysis types
+export interface FileChange {
+  path: string;
+  status: 'added' | 'modified' | 'removed' | 'renamed';
+  previousPath?: string; // set for renames
+}
+
+export interface CommitComparison {
+  baseCommitSha: string;
+  headCommitSha: string;
+  files: FileChange[];
+  complete: boolean; // false when the provider truncated the list of changed files
+}
+
+export interface ChangeSet {
+  baseCommitSha: string;
+  headCommitSha: string;
+  // How the changes were found: the provider's compare API, or the blob SHAs of both listings
+  method: 'same-commit' | 'compare' | 'listing';
+  files: FileChange[]; // only changes inside the analysis scope
 }
 
 // Agent 1 output types
 export interface RepositoryAnalysis {
   repository: Repository;
   fileStructure: FileStructure;
+  listing: {
+    complete: boolean;
+    method: ListingMethod;
+    entries: number;
+  };
+  fetchStats: FetchStats;
+  scope: AnalysisScope;
+  changes?: ChangeSet; // set when the analysis was based on a previous one
   summary: {
     purpose: string;
     mainTechnologies: string[];
@@ -393,51 +494,266 @@ export interface MigrationBlocker {
 }
 
 // Agent state types for LangGraph
+export type PipelineAgent = 'github-analyzer' | 'architecture-inference' | 'code-flow' | 'risk-assessment';
+
+export interface AgentRunStatus {
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+  error?: string; // why the agent failed or was skipped
+  durationMs?: number;
+}
+
 export interface AgentState {
   repository?: Repository;
   repositoryAnalysis?: RepositoryAnalysis;
   architectureAnalysis?: ArchitectureAnalysis;
   codeFlowAnalysis?: CodeFlowAnalysis;
   riskAssessment?: RiskAssessment;
+  agents?: Partial<Record<PipelineAgent, AgentRunStatus>>;
   currentStep: string;
   progress: number;
   errors: string[];
-  metadata: Record<string, any>;
+  metadata: Record<string, unknown>;
 }
 
 // API types
 export interface AnalysisRequest {
   repositoryUrl: string;
-  branch?: string;
-  options?: {
-    includeTests?: boolean;
-    maxFiles?: number;
-    includeContent?: boolean;
-  };
+  ref?: string; // branch, tag or commit SHA; defaults to the repository's default branch
+  branch?: string; // accepted as an alias of `ref`
+  discover?: boolean; // detect sub-projects and analyze each one separately
+  previousAnalysisId?: string; // re-analyze only what changed since this completed analysis
+  options?: AnalysisOptions; // defaults to the previous analysis's scope for incremental runs
+  agents?: PipelineAgent[]; // run only these agents and the ones they require; all when omitted
+  callbackUrls?: string[]; // notified of this analysis's status changes like registered webhooks
+  accessToken?: string; // reads a private repository for this analysis only; never stored or logged
+  credentialId?: string; // a stored repository credential to read it with instead
+}
+
+export interface AnalysisOptions {
+  includeTests?: boolean;
+  maxFiles?: number; // max listing entries (files and directories)
+  includeContent?: boolean; // false analyzes file names and structure only
+  include?: string[]; // path globs; when set, only matching files are analyzed
+  exclude?: string[]; // path globs removed after `include` is applied
+  maxFileSize?: number; // bytes; larger files are skipped
+  subpath?: string; // directory to analyze instead of the repository root; '' is the root
+}
+
+/** Per-run options every agent's analyze() accepts */
+export interface AgentRunOptions {
+  signal?: AbortSignal; // aborts the run's repository and LLM requests
+}
+
+/**
+ * One step of an agent's workflow. analyze() runs the steps in order; the pipeline runs
+ * each as its own graph node, checkpointing the state in between.
+ */
+export interface AgentStep<S> {
+  name: string;
+  description: string; // names the step in the error raised when it fails
+  run: (state: S) => Promise<S>; // records failures in the state's `errors`, or throws
+}
+
+// Options with every default filled in, as recorded on the analysis result
+export type AnalysisScope = Required<AnalysisOptions>;
+
+export interface AgentOutputVersion {
+  version: number; // 1 is the output of the original run
+  createdAt: string;
+  durationMs?: number;
 }
 
 export interface AnalysisResponse {
   id: string;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: 'pending' | 'running' | 'completed' | 'partial' | 'failed' | 'cancelled'; // partial: finished, but some agents failed or were skipped
+  agents?: Record<PipelineAgent, AgentRunStatus>; // not set for discovery runs
   progress: number;
   currentStep: string;
+  request?: AnalysisRequest; // as submitted; sub-project analyses record the request made for them
   result?: {
     repositoryAnalysis?: RepositoryAnalysis;
     architectureAnalysis?: ArchitectureAnalysis;
     codeFlowAnalysis?: CodeFlowAnalysis;
     riskAssessment?: RiskAssessment;
   };
+  fetchStats?: FetchStats;
+  monorepo?: MonorepoAnalysis; // set for discovery runs instead of `result`
+  parentId?: string; // discovery run this sub-project analysis belongs to
+  owner?: string; // user who started it; sub-project analyses belong to their discovery run's owner
+  incremental?: {
+    previousAnalysisId: string;
+    reusedAgents: string[]; // agents whose previous output was kept because their input did not change
+  };
+  versions?: Partial<Record<PipelineAgent, AgentOutputVersion[]>>; // outputs of re-run agents, oldest first
+  rerun?: { agent: PipelineAgent; requestedAt: string }; // set while a single agent is re-run
+  staleAgents?: PipelineAgent[]; // agents whose output was built on an upstream output that has since been re-run
+  queuePosition?: number; // while pending: 1-based place among analyses waiting for a worker
+  error?: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Monorepo discovery types
+export interface SubProject {
+  path: string; // directory relative to the repository root, '' for the root
+  name: string; // package / module name from the manifest, or the directory name
+  manifests: string[];
+  ecosystems: string[];
+  nested?: string[]; // paths of the sub-projects inside this one, which its analysis leaves out
+}
+
+export interface SubProjectLink {
+  from: string; // path of the depending sub-project
+  to: string; // path of the sub-project it depends on
+  manifest: string;
+  dependency: string; // name the dependency is declared under
+}
+
+export interface SubProjectDiscovery {
+  repository: Repository;
+  subProjects: SubProject[];
+  links: SubProjectLink[];
+  listingComplete: boolean;
+}
+
+export interface MonorepoAnalysis {
+  repository: Repository;
+  subProjects: Array<{
+    project: SubProject;
+    analysisId: string;
+    status: AnalysisResponse['status'];
+    primaryLanguage?: string;
+    architectureType?: ArchitectureInfo['type'];
+    riskScore?: number;
+    error?: string;
+  }>;
+  links: SubProjectLink[];
+  listingComplete: boolean;
+  summary: {
+    total: number;
+    completed: number;
+    partial: number;
+    failed: number;
+    languages: Record<string, number>;
+    architectureTypes: Record<string, number>;
+  };
+  timestamp: string;
+}
+
+// Counts and IDs that sum up an agent's output, streamed instead of the output itself
+export type AgentResultSummary = Record<string, string | number | boolean>;
+
+// Analysis event types, published while an analysis runs and streamed as deltas
+export type AnalysisEvent =
+  | {
+      type: 'status';
+      status: AnalysisResponse['status'];
+      progress: number;
+      currentStep: string;
+      queuePosition?: number;
+      error?: string;
+      completedAt?: string;
+    }
+  | { type: 'step-started'; agent: PipelineAgent }
+  | { type: 'progress'; agent: PipelineAgent; progress: number; currentStep: string }
+  | {
+      type: 'partial-result';
+      agent: PipelineAgent;
+      run: AgentRunStatus;
+      summary?: AgentResultSummary; // set when the agent succeeded; GET /api/analysis/:id/results has the output
+      reused?: boolean; // taken over from the previous analysis
+    }
+  | { type: 'warning'; agent?: PipelineAgent; message: string; details?: Record<string, unknown> }
+  | { type: 'log'; agent?: PipelineAgent; level: 'info' | 'error'; message: string; details?: Record<string, unknown> };
+
+export type PublishedAnalysisEvent = AnalysisEvent & {
+  id: string; // SSE event ID, usable as Last-Event-ID
+  timestamp: string;
+};
+
+// Webhook types
+export type WebhookEvent =
+  | 'analysis.started'
+  | 'analysis.agent-completed'
+  | 'analysis.completed' // also sent for partial results
+  | 'analysis.failed'
+  | 'analysis.cancelled';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string; // signs every payload; only returned when the webhook is registered
+  events?: WebhookEvent[]; // all events when omitted
+  owner?: string; // only notified about this user's analyses; admins' webhooks hear about all of them
+  createdAt: string;
+}
+
+export interface WebhookPayload {
+  id: string; // delivery ID, the same on every attempt
+  event: WebhookEvent;
+  createdAt: string;
+  analysis: Omit<AnalysisResponse, 'result' | 'queuePosition'>;
+  agent?: AgentRunStatus & { name: PipelineAgent }; // for analysis.agent-completed
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: string;
+  statusCode?: number;
   error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  analysisId: string;
+  event: WebhookEvent;
+  url: string;
+  webhookId?: string; // not set for the request's callback URLs
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
   createdAt: string;
   completedAt?: string;
 }
 
+// Authentication types
+export type UserRole = 'viewer' | 'analyst' | 'admin'; // each role can do everything the ones before it can
+
+export interface ApiKey {
+  id: string;
+  name: string; // what the key is for, like the CI job that uses it
+  owner: string; // user the key acts for; analyses belong to users, not keys
+  role: UserRole;
+  keyHash: string; // SHA-256 of the key, which is only shown when it is created
+  prefix: string; // start of the key, to tell keys apart
+  createdAt: string;
+  revokedAt?: string;
+}
+
+// Who a request is made by
+export interface Principal {
+  owner: string;
+  role: UserRole;
+  keyId: string;
+}
+
+// A repository access token stored for reuse by its owner's analyses
+export interface RepositoryCredential {
+  id: string;
+  name: string;
+  owner: string;
+  host: string; // the token is only sent to repositories on this host, like github.com
+  encryptedToken: string; // AES-256-GCM; the token itself is never returned
+  analysisId?: string; // set for the access token sent with an analysis, which is kept only until it finishes
+  createdAt: string;
+}
+
 // Error types
 export interface AgentError {
   code: string;
   message: string;
-  details?: any;
+  details?: unknown;
   timestamp: string;
   agent: string;
   step: string;
-}
\ No newline at end of file
+}
+
@@ -0,0 +1,116 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AnalysisScope, RepositoryAnalysis } from '../../types';
+import { AgentCacheKey, AnalysisCache, getAgentCacheKey, withoutCachedResults } from '../analysis-cache';
+
+const SCOPE: AnalysisScope = {
+  includeTests: true,
+  maxFiles: 1000,
+  includeContent: true,
+  include: [],
+  exclude: [],
+  maxFileSize: 1024 * 1024,
+  subpath: ''
+};
+
+type CacheInput = Pick<RepositoryAnalysis, 'repository' | 'scope' | 'fetchStats'>;
+
+function analysisOf(commitSha: string | undefined, fetchStats: Partial<RepositoryAnalysis['fetchStats']> = {}): CacheInput {
+  return {
+    repository: { url: 'https://github.com/acme/widgets', name: 'widgets', owner: 'acme', branch: 'main', commitSha },
+    scope: SCOPE,
+    fetchStats: { contentRequested: 10, contentLoaded: 10, partial: false, ...fetchStats }
+  };
+}
+
+function keyFor(commitSha: string, agent = 'architecture-analyzer', version = '1'): AgentCacheKey {
+  return getAgentCacheKey(analysisOf(commitSha), [{ agent, version, promptHash: 'p1' }]) as AgentCacheKey;
+}
+
+describe('getAgentCacheKey', () => {
+  const agents = [{ agent: 'github-analyzer', version: '1', promptHash: '' }];
+
+  it('keys outputs of a fully fetched, pinned commit', () => {
+    expect(getAgentCacheKey(analysisOf('abc123'), agents)).toEqual({
+      commitSha: 'abc123',
+      repositoryUrl: 'https://github.com/acme/widgets',
+      scope: SCOPE,
+      agents
+    });
+  });
+
+  it('leaves unpinned and partially fetched analyses uncached', () => {
+    expect(getAgentCacheKey(analysisOf(undefined), agents)).toBeUndefined();
+    expect(getAgentCacheKey(analysisOf('abc123', { contentLoaded: 7 }), agents)).toBeUndefined();
+    const exhausted = { limit: 5, used: 5, exhausted: true, retries: 0, rateLimitWaits: 0 };
+    expect(getAgentCacheKey(analysisOf('abc123', { requests: exhausted }), agents)).toBeUndefined();
+  });
+});
+
+describe('AnalysisCache', () => {
+  let directory: string;
+  let cache: AnalysisCache;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-cache-test-'));
+    cache = new AnalysisCache(directory, true);
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it('computes an output once and serves it from the cache afterwards', async () => {
+    const compute = jest.fn(async () => ({ components: 3 }));
+
+    await expect(cache.remember(keyFor('abc123'), compute)).resolves.toEqual({ components: 3 });
+    await expect(cache.remember(keyFor('abc123'), compute)).resolves.toEqual({ components: 3 });
+    expect(compute).toHaveBeenCalledTimes(1);
+
+    // A new agent version is a different key
+    await cache.remember(keyFor('abc123', 'architecture-analyzer', '2'), compute);
+    expect(compute).toHaveBeenCalledTimes(2);
+  });
+
+  it('computes without caching when there is no key or the run refreshes', async () => {
+    const compute = jest.fn(async () => 'output');
+
+    await cache.remember(undefined, compute);
+    await cache.remember(undefined, compute);
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect((await cache.getStats()).namespaces.agents.entries).toBe(0);
+
+    await cache.remember(keyFor('abc123'), compute);
+    await withoutCachedResults(() => cache.remember(keyFor('abc123'), compute));
+    expect(compute).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps concurrent writes of one entry apart and leaves no temporary files', async () => {
+    await Promise.all(['first', 'second', 'third'].map(output => cache.setAgentOutput(keyFor('abc123'), output)));
+
+    expect(['first', 'second', 'third']).toContain(await cache.getAgentOutput(keyFor('abc123')));
+    const files = await fs.readdir(path.join(directory, 'agents', 'abc123'));
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^architecture-analyzer-[0-9a-f]{32}\.json$/);
+  });
+
+  it('purges one commit, one namespace or everything', async () => {
+    await cache.setAgentOutput(keyFor('abc123'), 'a');
+    await cache.setAgentOutput(keyFor('abc123', 'dependency-mapper'), 'b');
+    await cache.setAgentOutput(keyFor('def456'), 'c');
+    await cache.setContent('blob1', 'console.log(1);');
+    await cache.setPromptResponse('prompt1', 'response');
+
+    await expect(cache.purge({ commitSha: 'abc123' })).resolves.toBe(2);
+    expect(await cache.getAgentOutput(keyFor('abc123'))).toBeUndefined();
+    expect(await cache.getAgentOutput(keyFor('def456'))).toBe('c');
+
+    await expect(cache.purge({ namespace: 'contents' })).resolves.toBe(1);
+    expect(await cache.getContent('blob1')).toBeUndefined();
+    expect(await cache.getPromptResponse('prompt1')).toBe('response');
+
+    await expect(cache.purge()).resolves.toBe(2);
+    expect(await cache.getStats()).toMatchObject({ commits: 0, namespaces: { agents: { entries: 0 }, prompts: { entries: 0 } } });
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AnalysisResponse } from '../../types';
+import { AnalysisStore, JsonFileAnalysisStore, SqliteAnalysisStore } from '../analysis-store';
+
+function analysis(id: string, owner: string | undefined, createdAt: string): AnalysisResponse {
+  return {
+    id,
+    status: 'completed',
+    progress: 100,
+    currentStep: 'Analysis completed',
+    owner,
+    result: { riskAssessment: { overallRiskScore: 42 } },
+    createdAt
+  } as AnalysisResponse;
+}
+
+describe.each([
+  ['sqlite', (directory: string) => new SqliteAnalysisStore(path.join(directory, 'app.db'))],
+  ['json', (directory: string) => new JsonFileAnalysisStore(directory)]
+])('%s analysis store listing', (_kind, open) => {
+  let directory: string;
+  let store: AnalysisStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-store-test-'));
+    store = open(directory);
+    await store.save(analysis('alice-1', 'alice', '2026-10-01T10:00:00.000Z'));
+    await store.save(analysis('bob-1', 'bob', '2026-10-01T11:00:00.000Z'));
+    await store.save(analysis('alice-2', 'alice', '2026-10-01T12:00:00.000Z'));
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await fs.remove(directory);
+  });
+
+  it("lists one owner's analyses, oldest first", async () => {
+    expect((await store.list({ owner: 'alice' })).map(entry => entry.id)).toEqual(['alice-1', 'alice-2']);
+    expect((await store.list()).map(entry => entry.id)).toEqual(['alice-1', 'bob-1', 'alice-2']);
+  });
+
+  it('leaves agent results out when asked to', async () => {
+    const [summary] = await store.list({ owner: 'bob', results: false });
+    const [full] = await store.list({ owner: 'bob' });
+
+    expect(summary).toMatchObject({ id: 'bob-1', owner: 'bob' });
+    expect(summary).not.toHaveProperty('result');
+    expect(full.result).toEqual({ riskAssessment: { overallRiskScore: 42 } });
+  });
+});
+
+describe('JsonFileAnalysisStore', () => {
+  it('keeps every entry of concurrent saves to one list file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-store-test-'));
+    const store = new JsonFileAnalysisStore(directory);
+    try {
+      await Promise.all(Array.from({ length: 20 }, (_, index) =>
+        store.saveWebhook({ id: `hook-${index}`, url: 'https://example.com/hooks', secret: 'receiver-shared-secret', createdAt: '2026-10-01T09:00:00.000Z' })
+      ));
+      await Promise.all([store.deleteWebhook('hook-0'), store.deleteWebhook('hook-1')]);
+
+      expect((await store.listWebhooks()).map(webhook => webhook.id).sort()).toEqual(
+        Array.from({ length: 18 }, (_, index) => `hook-${index + 2}`).sort()
+      );
+      expect((await fs.readdir(directory)).filter(file => file.endsWith('.tmp'))).toEqual([]);
+    } finally {
+      await fs.remove(directory);
+    }
+  });
+});
+
+describe('SqliteAnalysisStore', () => {
+  it('adds the owner column to a store created without one', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'analysis-store-test-'));
+    const filename = path.join(directory, 'app.db');
+    const db = new Database(filename);
+    db.exec(`
+      CREATE TABLE analyses (
+        id TEXT PRIMARY KEY, status TEXT NOT NULL, repository_url TEXT, parent_id TEXT, error TEXT,
+        record TEXT NOT NULL, created_at TEXT NOT NULL, completed_at TEXT
+      )
+    `);
+    const { result, ...record } = analysis('old-1', 'alice', '2026-09-01T10:00:00.000Z');
+    db.prepare('INSERT INTO analyses (id, status, record, created_at) VALUES (?, ?, ?, ?)')
+      .run(record.id, record.status, JSON.stringify(record), record.createdAt);
+    db.close();
+
+    const store = new SqliteAnalysisStore(filename);
+    try {
+      expect((await store.list({ owner: 'alice' })).map(entry => entry.id)).toEqual(['old-1']);
+      expect(await store.list({ owner: 'bob' })).toEqual([]);
+    } finally {
+      await store.close();
+      await fs.remove(directory);
+    }
+  });
+});
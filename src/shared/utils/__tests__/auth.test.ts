@@ -0,0 +1,106 @@
+import { Principal } from '../../types';
+import { AnalysisStore, createAnalysisStore } from '../analysis-store';
+import { AuthService, canAccessAnalysis, hasRole } from '../auth';
+
+const viewer: Principal = { owner: 'vera', role: 'viewer', keyId: 'k1' };
+const analyst: Principal = { owner: 'ana', role: 'analyst', keyId: 'k2' };
+const admin: Principal = { owner: 'root', role: 'admin', keyId: 'k3' };
+
+describe('permissions', () => {
+  it('gives each role the permissions of the roles below it', () => {
+    expect([viewer, analyst, admin].map(principal => hasRole(principal, 'viewer'))).toEqual([true, true, true]);
+    expect([viewer, analyst, admin].map(principal => hasRole(principal, 'analyst'))).toEqual([false, true, true]);
+    expect([viewer, analyst, admin].map(principal => hasRole(principal, 'admin'))).toEqual([false, false, true]);
+  });
+
+  it('lets viewers and analysts see their own analyses and admins every analysis', () => {
+    const analysis = { owner: 'ana' };
+
+    expect(canAccessAnalysis(analyst, analysis)).toBe(true);
+    expect(canAccessAnalysis({ ...viewer, owner: 'ana' }, analysis)).toBe(true);
+    expect(canAccessAnalysis(viewer, analysis)).toBe(false);
+    expect(canAccessAnalysis(admin, analysis)).toBe(true);
+    expect(canAccessAnalysis(analyst, { owner: undefined })).toBe(false);
+  });
+});
+
+describe('AuthService', () => {
+  let store: AnalysisStore;
+  let auth: AuthService;
+
+  beforeEach(() => {
+    store = createAnalysisStore('sqlite::memory:');
+    auth = new AuthService(store, { adminKey: 'bootstrap-admin-key', tokenSecret: 'test-secret', tokenTtlMs: 60 * 1000 });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('authenticates stored keys and the admin key with their owner and role', async () => {
+    const { key, apiKey } = await auth.createApiKey('ci', 'ana', 'analyst');
+
+    expect(apiKey.keyHash).not.toContain(key);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    await expect(auth.authenticate(key)).resolves.toEqual({ owner: 'ana', role: 'analyst', keyId: apiKey.id });
+    await expect(auth.authenticate('bootstrap-admin-key')).resolves.toMatchObject({ role: 'admin' });
+    await expect(auth.authenticate('alm_unknown')).resolves.toBeUndefined();
+  });
+
+  it('accepts session tokens until they expire', async () => {
+    const { key } = await auth.createApiKey('dashboard', 'vera', 'viewer');
+    const principal = (await auth.authenticate(key))!;
+
+    jest.useFakeTimers({ now: Date.now(), doNotFake: ['nextTick', 'setImmediate'] });
+    try {
+      const { token, expiresAt } = auth.issueToken(principal);
+      expect(Date.parse(expiresAt) - Date.now()).toBe(60 * 1000);
+      await expect(auth.authenticate(token)).resolves.toEqual(principal);
+
+      jest.advanceTimersByTime(60 * 1000);
+      await expect(auth.authenticate(token)).resolves.toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('refuses tokens that were tampered with or signed with another secret', async () => {
+    const { key } = await auth.createApiKey('dashboard', 'vera', 'viewer');
+    const { token } = auth.issueToken((await auth.authenticate(key))!);
+    const [payload, signature] = token.split('.');
+
+    const forged = Buffer.from(JSON.stringify({ keyId: 'env-admin', exp: Date.now() + 60 * 1000 })).toString('base64url');
+    await expect(auth.authenticate(`${forged}.${signature}`)).resolves.toBeUndefined();
+    await expect(auth.authenticate(`${payload}.${signature.slice(1)}`)).resolves.toBeUndefined();
+
+    const other = new AuthService(store, { tokenSecret: 'another-secret' });
+    await expect(other.authenticate(token)).resolves.toBeUndefined();
+  });
+
+  it('stops accepting a revoked key and the tokens issued for it', async () => {
+    const { key, apiKey } = await auth.createApiKey('laptop', 'ana', 'analyst');
+    const { token } = auth.issueToken((await auth.authenticate(key))!);
+
+    await store.saveApiKey({ ...apiKey, revokedAt: new Date().toISOString() });
+
+    await expect(auth.authenticate(key)).resolves.toBeUndefined();
+    await expect(auth.authenticate(token)).resolves.toBeUndefined();
+  });
+
+  it('acts with the current role of the key behind a token', async () => {
+    const { key, apiKey } = await auth.createApiKey('laptop', 'ana', 'viewer');
+    const { token } = auth.issueToken((await auth.authenticate(key))!);
+
+    await store.saveApiKey({ ...apiKey, role: 'admin' });
+
+    await expect(auth.authenticate(token)).resolves.toMatchObject({ owner: 'ana', role: 'admin' });
+  });
+
+  it('drops tokens for the admin key once the admin key is unset', async () => {
+    const { token } = auth.issueToken((await auth.authenticate('bootstrap-admin-key'))!);
+
+    await expect(auth.authenticate(token)).resolves.toMatchObject({ role: 'admin' });
+    const withoutAdminKey = new AuthService(store, { adminKey: '', tokenSecret: 'test-secret' });
+    await expect(withoutAdminKey.authenticate(token)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,73 @@
+import { AnalysisStore, createAnalysisStore } from '../analysis-store';
+import { CredentialVault } from '../credentials';
+
+const TOKEN = 'ghp_fixture0123456789';
+
+describe('CredentialVault', () => {
+  let store: AnalysisStore;
+  let vault: CredentialVault;
+
+  beforeEach(() => {
+    store = createAnalysisStore('sqlite::memory:');
+    vault = new CredentialVault(store, { encryptionKey: 'test-encryption-key' });
+  });
+
+  afterEach(async () => {
+    await store.close();
+  });
+
+  it('stores tokens encrypted and decrypts them for their owner', async () => {
+    const credential = await vault.create('ci', 'ana', 'GitHub.com', TOKEN);
+    const again = await vault.create('ci', 'ana', 'github.com', TOKEN);
+
+    expect(credential.host).toBe('github.com');
+    expect(JSON.stringify(await store.getCredential(credential.id))).not.toContain(TOKEN);
+    // A fresh IV for every token, so equal tokens don't look equal
+    expect(again.encryptedToken).not.toBe(credential.encryptedToken);
+
+    await expect(vault.resolve(credential.id, 'ana', 'https://github.com/acme/private')).resolves.toBe(TOKEN);
+  });
+
+  it('refuses other owners and other hosts', async () => {
+    const credential = await vault.create('ci', 'ana', 'github.com', TOKEN);
+
+    await expect(vault.resolve(credential.id, 'bob', 'https://github.com/acme/private')).rejects.toThrow(`Credential ${credential.id} not found`);
+    await expect(vault.resolve(credential.id, 'ana', 'https://gitlab.com/acme/private'))
+      .rejects.toThrow('is for github.com and can\'t be used for https://gitlab.com/acme/private');
+  });
+
+  it('detects tampered tokens and a changed encryption key', async () => {
+    const credential = await vault.create('ci', 'ana', 'github.com', TOKEN);
+    const [iv, tag, ciphertext] = credential.encryptedToken.split('.');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 1;
+    await store.saveCredential({ ...credential, encryptedToken: [iv, tag, flipped.toString('base64url')].join('.') });
+
+    await expect(vault.resolve(credential.id, 'ana', 'https://github.com/acme/private')).rejects.toThrow('could not be decrypted');
+
+    const original = await vault.create('ci', 'ana', 'github.com', TOKEN);
+    const rekeyed = new CredentialVault(store, { encryptionKey: 'another-key' });
+    await expect(rekeyed.resolve(original.id, 'ana', 'https://github.com/acme/private')).rejects.toThrow('could not be decrypted');
+  });
+
+  it('stores nothing without an encryption key', async () => {
+    const disabled = new CredentialVault(store, { encryptionKey: '' });
+
+    expect(disabled.isConfigured).toBe(false);
+    await expect(disabled.create('ci', 'ana', 'github.com', TOKEN)).rejects.toThrow('set CREDENTIALS_ENCRYPTION_KEY');
+  });
+
+  it('keeps an analysis token until it is forgotten, apart from the credentials', async () => {
+    await vault.storeAnalysisToken('analysis-1', 'ana', 'https://github.com/acme/private', TOKEN);
+    const [stored] = await store.listCredentials();
+
+    await expect(vault.resolveAnalysisToken('analysis-1')).resolves.toBe(TOKEN);
+    await expect(vault.resolveAnalysisToken('analysis-2')).resolves.toBeUndefined();
+    // It can't be referenced as a credentialId
+    await expect(vault.resolve(stored.id, 'ana', 'https://github.com/acme/private')).rejects.toThrow('not found');
+
+    await vault.forgetAnalysisToken('analysis-1');
+    await expect(vault.resolveAnalysisToken('analysis-1')).resolves.toBeUndefined();
+    expect(await store.listCredentials()).toEqual([]);
+  });
+});
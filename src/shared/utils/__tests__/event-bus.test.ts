@@ -0,0 +1,66 @@
+import { AnalysisEvent, PublishedAnalysisEvent } from '../../types';
+import { AnalysisEventBus } from '../event-bus';
+
+function progress(value: number): AnalysisEvent {
+  return { type: 'progress', agent: 'github-analyzer', progress: value, currentStep: `Step ${value}` };
+}
+
+function progressOf(events: PublishedAnalysisEvent[] | undefined): number[] | undefined {
+  return events?.map(event => (event as Extract<AnalysisEvent, { type: 'progress' }>).progress);
+}
+
+describe('AnalysisEventBus', () => {
+  it('replays the events published after a Last-Event-ID', () => {
+    const bus = new AnalysisEventBus();
+    const published = [10, 20, 30].map(value => bus.publish('analysis-1', progress(value)));
+    bus.publish('analysis-2', progress(99));
+
+    expect(progressOf(bus.replay('analysis-1', published[0].id))).toEqual([20, 30]);
+    expect(bus.replay('analysis-1', published[2].id)).toEqual([]);
+    expect(bus.lastEventId('analysis-1')).toBe(published[2].id);
+  });
+
+  it('refuses replays it can no longer answer in full', () => {
+    const bus = new AnalysisEventBus({ bufferSize: 1 });
+    const published = [10, 20, 30].map(value => bus.publish('analysis-1', progress(value)));
+
+    // The second event was evicted, so a replay after the first would skip it
+    expect(bus.replay('analysis-1', published[0].id)).toBeUndefined();
+    expect(progressOf(bus.replay('analysis-1', published[1].id))).toEqual([30]);
+    // IDs from another process, or that aren't IDs at all, never match
+    expect(bus.replay('analysis-1', `previous-boot.${published[1].id.split('.')[1]}`)).toBeUndefined();
+    expect(bus.replay('analysis-1', 'garbage')).toBeUndefined();
+    expect(bus.replay('unknown', published[1].id)).toBeUndefined();
+  });
+
+  it('delivers live events to subscribers until they unsubscribe', () => {
+    const bus = new AnalysisEventBus();
+    const received: PublishedAnalysisEvent[] = [];
+    const unsubscribe = bus.subscribe('analysis-1', event => received.push(event));
+
+    bus.publish('analysis-1', progress(10));
+    bus.publish('analysis-2', progress(20));
+    unsubscribe();
+    bus.publish('analysis-1', progress(30));
+
+    expect(progressOf(received)).toEqual([10]);
+  });
+
+  it('forgets a closed analysis once its retention is over', () => {
+    jest.useFakeTimers();
+    try {
+      const bus = new AnalysisEventBus({ retentionMs: 1000 });
+      const first = bus.publish('analysis-1', progress(10));
+      bus.publish('analysis-1', progress(20));
+      bus.close('analysis-1');
+
+      jest.advanceTimersByTime(999);
+      expect(progressOf(bus.replay('analysis-1', first.id))).toEqual([20]);
+
+      jest.advanceTimersByTime(1);
+      expect(bus.replay('analysis-1', first.id)).toBeUndefined();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
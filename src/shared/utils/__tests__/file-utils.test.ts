@@ -0,0 +1,90 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FileInfo } from '../../types';
+import { isBinaryContent } from '../archive';
+import { classifyFile, getExclusionReason, getFileExtension, isTextFile } from '../file-utils';
+import { LocalDirectorySource } from '../repository-source';
+
+function file(filePath: string, content?: string): FileInfo {
+  const name = path.posix.basename(filePath);
+  return { path: filePath, name, type: 'file', extension: getFileExtension(name), content };
+}
+
+// The start of an ELF executable
+const EXECUTABLE = Buffer.from([0x7f, 0x45, 0x4c, 0x46, 0x02, 0x01, 0x01, 0x00, 0x00, 0x00, 0x3e, 0x00]);
+
+describe('file classification', () => {
+  it('reads names with text extensions, and names without one, as text', () => {
+    expect(['app.ts', 'PAYROLL.CBL', 'Makefile', 'LICENSE', 'bin/deploy'].filter(isTextFile))
+      .toEqual(['app.ts', 'PAYROLL.CBL', 'Makefile', 'LICENSE', 'bin/deploy']);
+    expect(['logo.png', 'app.jar', 'lib.so', 'archive.tar.gz'].some(isTextFile)).toBe(false);
+    expect(getExclusionReason(file('logo.png'))).toBe('binary');
+  });
+
+  it('finds NUL bytes near the start of binary content', () => {
+    expect(isBinaryContent(EXECUTABLE)).toBe(true);
+    expect(isBinaryContent(Buffer.from('#!/bin/sh\necho hello\n'))).toBe(false);
+    // Only the first 8000 bytes are sampled
+    expect(isBinaryContent(Buffer.concat([Buffer.alloc(8000, 'a'), Buffer.from([0])]))).toBe(false);
+  });
+
+  it('categorizes by special name, extension, test convention and content', () => {
+    expect(classifyFile(file('package.json'))).toMatchObject({ category: 'dependency', confidence: 1 });
+    expect(classifyFile(file('src/server.ts'))).toMatchObject({ category: 'source', language: 'TypeScript' });
+    expect(classifyFile(file('src/server.test.ts')).category).toBe('test');
+    expect(classifyFile(file('src/main/java/AppTest.java')).category).toBe('test');
+    expect(classifyFile(file('docs/guide.md')).category).toBe('documentation');
+    expect(classifyFile(file('config/app.yaml')).category).toBe('config');
+
+    // A test without a test name is recognized by its imports, with less confidence
+    const helper = classifyFile(file('src/checks.ts', "import { expect } from 'chai';\n"));
+    expect(helper.category).toBe('test');
+    expect(helper.confidence).toBeLessThanOrEqual(0.6);
+
+    expect(classifyFile(file('bin/tool', 'ELF\0\0\0')).category).toBe('other');
+  });
+
+  it('tells VB6 forms from MySQL table definitions by content', () => {
+    const form = classifyFile(file('forms/Main.frm', 'VERSION 5.00\nBegin VB.Form frmMain\nEnd\n'));
+    expect(form).toMatchObject({ category: 'source', language: 'Visual Basic 6' });
+
+    expect(classifyFile({ ...file('mysql/orders.frm'), binary: true }).category).toBe('other');
+    expect(classifyFile(file('mysql/orders.frm', '\xfe\x01\x0a\x0c\0\0')).category).toBe('other');
+  });
+});
+
+describe('content loading', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'file-utils-test-'));
+    await fs.outputFile(path.join(directory, 'Makefile'), 'build:\n\tcc -o tool main.c\n');
+    await fs.outputFile(path.join(directory, 'bin/deploy'), '#!/bin/sh\necho deploying\n');
+    await fs.outputFile(path.join(directory, 'bin/tool'), EXECUTABLE);
+    await fs.outputFile(path.join(directory, 'mysql/orders.frm'), Buffer.from([0xfe, 0x01, 0x0a, 0x0c, 0x00, 0x00, 0x30, 0x00]));
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  it('leaves binary files without an extension out of the per-file loader', async () => {
+    const source = new LocalDirectorySource(directory);
+    const loaded = await source.loadContents([file('Makefile'), file('bin/deploy'), file('bin/tool')]);
+
+    expect(Object.fromEntries(loaded.map(f => [f.path, f.content]))).toEqual({
+      'Makefile': 'build:\n\tcc -o tool main.c\n',
+      'bin/deploy': '#!/bin/sh\necho deploying\n',
+      'bin/tool': undefined
+    });
+    expect(loaded.find(f => f.path === 'bin/tool')?.binary).toBe(true);
+  });
+
+  it('marks binary files with a text extension so they are not classified as source', async () => {
+    const [table] = await new LocalDirectorySource(directory).loadContents([file('mysql/orders.frm')]);
+
+    expect(table).toMatchObject({ binary: true, content: undefined });
+    expect(classifyFile(table).category).toBe('other');
+  });
+});
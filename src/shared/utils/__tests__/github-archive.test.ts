@@ -0,0 +1,88 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { FileInfo } from '../../types';
+import { GitHubClient } from '../github';
+import { RateLimiter } from '../rate-limiter';
+import { GitHubRepositorySource } from '../repository-source';
+
+// acme-widgets.tar.gz wraps its files in `acme-widgets-3f2c1d9/` like GitHub's tarballs,
+// and stores the long docs path in a pax header
+const TARBALL = fs.readFileSync(path.join(__dirname, 'fixtures', 'acme-widgets.tar.gz'));
+const LONG_PATH = `docs/${'deeply-nested-directory-name/'.repeat(4)}long-path-notes.md`;
+
+function file(filePath: string): FileInfo {
+  return { path: filePath, name: path.posix.basename(filePath), type: 'file', size: 32 };
+}
+
+describe('GitHubRepositorySource.loadContents', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: http.IncomingMessage[];
+  let archiveAvailable: boolean;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      const url = new URL(req.url || '/', 'http://stub');
+
+      if (url.pathname === '/repos/acme/widgets/tarball/HEAD' && archiveAvailable) {
+        res.writeHead(200, { 'Content-Type': 'application/x-gzip' });
+        return res.end(TARBALL);
+      }
+
+      const contents = url.pathname.match(/^\/repos\/acme\/widgets\/contents\/(.+)$/);
+      if (contents) {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        return res.end(JSON.stringify({ encoding: 'base64', content: Buffer.from(`per-file ${contents[1]}`).toString('base64') }));
+      }
+
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      return res.end(JSON.stringify({ message: 'Not Found' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    archiveAvailable = true;
+  });
+
+  function createSource(): GitHubRepositorySource {
+    const client = new GitHubClient('ghp_fixture', baseURL, new RateLimiter({ maxRetries: 0 }));
+    return new GitHubRepositorySource('https://github.example.com/acme/widgets', client);
+  }
+
+  it('fills the requested text files from one tarball download', async () => {
+    const progress: string[] = [];
+    const files = await createSource().loadContents(
+      [file('README.md'), file('src/index.ts'), file('assets/logo.png'), file(LONG_PATH)],
+      { onProgress: (_loaded, _total, filePath) => progress.push(filePath) }
+    );
+
+    expect(requests.map(req => req.url)).toEqual(['/repos/acme/widgets/tarball/HEAD']);
+    expect(requests[0].headers.authorization).toBe('token ghp_fixture');
+    expect(Object.fromEntries(files.map(f => [f.path, f.content]))).toEqual({
+      'README.md': '# Widgets\n',
+      'src/index.ts': 'export const answer = 42;\n',
+      'assets/logo.png': undefined,
+      [LONG_PATH]: 'Long paths use a pax header\n'
+    });
+    expect(progress).not.toContain('unrequested.txt');
+  });
+
+  it('falls back to a request per file when the archive is unavailable', async () => {
+    archiveAvailable = false;
+
+    const files = await createSource().loadContents([file('README.md'), file('src/index.ts')]);
+
+    expect(files.map(f => f.content)).toEqual(['per-file README.md', 'per-file src/index.ts']);
+    expect(requests.filter(req => req.url?.includes('/contents/'))).toHaveLength(2);
+  });
+});
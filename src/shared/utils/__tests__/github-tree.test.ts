@@ -0,0 +1,122 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GitHubClient } from '../github';
+import { RateLimiter } from '../rate-limiter';
+
+interface TreeEntry {
+  path: string;
+  type: 'blob' | 'tree';
+  sha: string;
+  size?: number;
+}
+
+// HEAD holds README.md and src/, whose recursive listing is too big for one response
+const TREES: Record<string, TreeEntry[]> = {
+  HEAD: [
+    { path: 'README.md', type: 'blob', sha: 'b-readme', size: 10 },
+    { path: 'src', type: 'tree', sha: 't-src' }
+  ],
+  't-src': [
+    { path: 'index.ts', type: 'blob', sha: 'b-index', size: 20 },
+    { path: 'lib', type: 'tree', sha: 't-lib' }
+  ],
+  't-lib': [{ path: 'util.ts', type: 'blob', sha: 'b-util', size: 30 }]
+};
+
+const CONTENTS: Record<string, Array<{ path: string; name: string; type: 'file' | 'dir'; size: number; sha: string }>> = {
+  '': [
+    { path: 'README.md', name: 'README.md', type: 'file', size: 10, sha: 'b-readme' },
+    { path: 'src', name: 'src', type: 'dir', size: 0, sha: 't-src' }
+  ],
+  src: [{ path: 'src/index.ts', name: 'index.ts', type: 'file', size: 20, sha: 'b-index' }]
+};
+
+describe('GitHubClient.getAllFiles', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: string[];
+  let recursiveRoot: 'truncated' | 'too-large';
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://stub');
+      requests.push(`${url.pathname}${url.search}`);
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      const tree = url.pathname.match(/^\/repos\/acme\/widgets\/git\/trees\/(.+)$/);
+      if (tree) {
+        const sha = decodeURIComponent(tree[1]);
+        const recursive = url.searchParams.get('recursive') === '1';
+        if (sha === 'HEAD' && recursive) {
+          return recursiveRoot === 'too-large'
+            ? json(422, { message: 'Tree too large' })
+            : json(200, { sha: 'HEAD', tree: TREES.HEAD.slice(0, 1), truncated: true });
+        }
+        if (!TREES[sha]) return json(404, { message: 'Not Found' });
+        // Recursive listings of the subtrees are complete
+        const entries = recursive && sha === 't-src'
+          ? [...TREES['t-src'], ...TREES['t-lib'].map(entry => ({ ...entry, path: `lib/${entry.path}` }))]
+          : TREES[sha];
+        return json(200, { sha, tree: entries, truncated: false });
+      }
+
+      const contents = url.pathname.match(/^\/repos\/acme\/widgets\/contents\/?(.*)$/);
+      if (contents && CONTENTS[contents[1]]) return json(200, CONTENTS[contents[1]]);
+
+      return json(404, { message: 'Not Found' });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    recursiveRoot = 'truncated';
+  });
+
+  function createClient(): GitHubClient {
+    return new GitHubClient('ghp_fixture', baseURL, new RateLimiter({ maxRetries: 0 }));
+  }
+
+  it('walks a truncated tree one subtree at a time', async () => {
+    const listing = await createClient().getAllFiles('acme', 'widgets');
+
+    expect(listing).toMatchObject({ complete: true, method: 'git-tree' });
+    expect(listing.files.map(file => [file.path, file.type])).toEqual([
+      ['README.md', 'file'],
+      ['src', 'directory'],
+      ['src/index.ts', 'file'],
+      ['src/lib', 'directory'],
+      ['src/lib/util.ts', 'file']
+    ]);
+    expect(requests.some(request => request.includes('/contents'))).toBe(false);
+  });
+
+  it('stops at the listing limit and says the listing is incomplete', async () => {
+    const listing = await createClient().getAllFiles('acme', 'widgets', undefined, 3);
+
+    expect(listing.complete).toBe(false);
+    expect(listing.files.map(file => file.path)).toEqual(['README.md', 'src', 'src/index.ts']);
+  });
+
+  it('fails for a subpath that does not exist instead of listing nothing', async () => {
+    await expect(createClient().getAllFiles('acme', 'widgets', undefined, 1000, 'scr')).rejects.toThrow('Directory scr not found');
+    expect(requests.some(request => request.includes('/contents'))).toBe(false);
+  });
+
+  it('falls back to the contents API when GitHub refuses the tree as too large', async () => {
+    recursiveRoot = 'too-large';
+
+    const listing = await createClient().getAllFiles('acme', 'widgets');
+
+    expect(listing.method).toBe('contents-api');
+    expect(listing.files.map(file => file.path)).toEqual(['README.md', 'src', 'src/index.ts']);
+  });
+});
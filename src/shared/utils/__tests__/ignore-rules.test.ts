@@ -0,0 +1,98 @@
+import path from 'path';
+import { FileInfo } from '../../types';
+import { IgnoreRules } from '../ignore-rules';
+
+function ruleFile(filePath: string, ...lines: string[]): FileInfo {
+  return { path: filePath, name: path.posix.basename(filePath), type: 'file', content: lines.join('\n') };
+}
+
+function ignored(rules: IgnoreRules, paths: string[]): string[] {
+  return paths.filter(filePath => rules.match(filePath) !== undefined);
+}
+
+describe('IgnoreRules', () => {
+  it('anchors patterns with a leading or inner slash to their directory', () => {
+    const rules = IgnoreRules.fromFiles([ruleFile('.gitignore', '/build', 'docs/*.md', '*.log')]);
+
+    expect(ignored(rules, [
+      'build/app.js',
+      'src/build/app.js',
+      'docs/guide.md',
+      'docs/api/guide.md',
+      'src/docs/guide.md',
+      'debug.log',
+      'src/server/debug.log'
+    ])).toEqual(['build/app.js', 'docs/guide.md', 'debug.log', 'src/server/debug.log']);
+  });
+
+  it('matches any number of directories with **', () => {
+    const rules = IgnoreRules.fromFiles([ruleFile('.gitignore', '**/tmp', 'logs/**/debug.log', 'cache/**')]);
+
+    expect(ignored(rules, [
+      'tmp/a.txt',
+      'src/deep/tmp/a.txt',
+      'logs/debug.log',
+      'logs/2024/01/debug.log',
+      'logs/2024/error.log',
+      'cache/a/b/c.bin',
+      'src/cache/c.bin'
+    ])).toEqual(['tmp/a.txt', 'src/deep/tmp/a.txt', 'logs/debug.log', 'logs/2024/01/debug.log', 'cache/a/b/c.bin']);
+  });
+
+  it('keeps negated files unless a parent directory is excluded', () => {
+    const rules = IgnoreRules.fromFiles([
+      ruleFile('.gitignore', '# build output', '*.log', '!keep.log', 'out/', '!out/report.html', '\\#notes')
+    ]);
+
+    expect(rules.match('server.log')).toBe('gitignore');
+    expect(rules.match('logs/keep.log')).toBeUndefined();
+    // Git never looks inside out/, so the negation can't bring the report back
+    expect(rules.match('out/report.html')).toBe('gitignore');
+    expect(rules.match('#notes')).toBe('gitignore');
+  });
+
+  it('applies a pattern with a trailing slash to directories only', () => {
+    const rules = IgnoreRules.fromFiles([ruleFile('.gitignore', 'cache/')]);
+
+    expect(rules.match('cache/entry.json')).toBe('gitignore');
+    expect(rules.match('src/cache/entry.json')).toBe('gitignore');
+    expect(rules.match('src/cache')).toBeUndefined();
+  });
+
+  it('scopes nested rule files to their directory and lets them override their parents', () => {
+    const rules = IgnoreRules.fromFiles([
+      ruleFile('packages/api/.gitignore', '!*.gen.ts', '/dist'),
+      ruleFile('.gitignore', '*.gen.ts'),
+      ruleFile('packages/web/.migrationignore', 'legacy/')
+    ]);
+
+    expect(rules.match('src/schema.gen.ts')).toBe('gitignore');
+    expect(rules.match('packages/api/src/schema.gen.ts')).toBeUndefined();
+    expect(rules.match('packages/api/dist/server.js')).toBe('gitignore');
+    expect(rules.match('packages/api/src/dist/server.js')).toBeUndefined();
+    expect(rules.match('packages/web/legacy/app.js')).toBe('migrationignore');
+    expect(rules.match('packages/api/legacy/app.js')).toBeUndefined();
+  });
+
+  it('reads linguist-vendored and linguist-generated markers from .gitattributes', () => {
+    const rules = IgnoreRules.fromFiles([
+      ruleFile('.gitattributes', '* text=auto', 'third_party/** linguist-vendored', '*.pb.go linguist-generated=true'),
+      ruleFile('third_party/ours/.gitattributes', '** -linguist-vendored')
+    ]);
+
+    expect(rules.match('third_party/zlib/inflate.c')).toBe('vendored');
+    expect(rules.match('api/service.pb.go')).toBe('generated');
+    expect(rules.match('src/main.go')).toBeUndefined();
+    expect(rules.isExplicitlyKept('src/main.go')).toBe(false);
+
+    expect(rules.match('third_party/ours/patch.c')).toBeUndefined();
+    expect(rules.isExplicitlyKept('third_party/ours/patch.c')).toBe(true);
+  });
+
+  it('has no rules without loaded rule files', () => {
+    const rules = IgnoreRules.fromFiles([{ path: '.gitignore', name: '.gitignore', type: 'file' }]);
+
+    expect(rules.isEmpty).toBe(true);
+    expect(rules.match('anything.log')).toBeUndefined();
+  });
+});
@@ -0,0 +1,124 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { JobQueue } from '../job-queue';
+import { RateLimiter } from '../rate-limiter';
+
+// A job that runs until it is finished from the test or aborted through its signal
+function controllableJob() {
+  let finish!: () => void;
+  let signal: AbortSignal | undefined;
+  let started = false;
+  const settled = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+
+  const run = jest.fn(async (jobSignal: AbortSignal) => {
+    started = true;
+    signal = jobSignal;
+    await new Promise<void>((resolve, reject) => {
+      void settled.then(resolve);
+      jobSignal.addEventListener('abort', () => reject(jobSignal.reason));
+    });
+  });
+
+  return {
+    run,
+    finish,
+    get started() { return started; },
+    get signal() { return signal; }
+  };
+}
+
+// Lets the queue react to jobs that settled
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('JobQueue', () => {
+  it('starts jobs up to its concurrency and reports the positions of the others', () => {
+    const queue = new JobQueue(2);
+    const jobs = ['a', 'b', 'c', 'd'].map(() => controllableJob());
+
+    expect(['a', 'b', 'c', 'd'].map((id, index) => queue.enqueue(id, jobs[index].run))).toEqual([0, 0, 1, 2]);
+    expect(jobs.map(job => job.started)).toEqual([true, true, false, false]);
+    expect(queue.getPosition('a')).toBeUndefined();
+    expect(queue.getPosition('d')).toBe(2);
+    expect(queue.getStats()).toEqual({ workers: 2, running: 2, queued: 2 });
+    expect(() => queue.enqueue('c', jobs[2].run)).toThrow('Job c is already queued');
+
+    jobs.forEach(job => job.finish());
+  });
+
+  it('drops a cancelled queued job, which never starts, and moves the ones behind it up', async () => {
+    const queue = new JobQueue(1);
+    const [first, second, third] = [controllableJob(), controllableJob(), controllableJob()];
+    queue.enqueue('first', first.run);
+    queue.enqueue('second', second.run);
+    queue.enqueue('third', third.run);
+
+    expect(queue.cancel('second')).toBe('queued');
+    expect(queue.getPosition('third')).toBe(1);
+
+    first.finish();
+    await flush();
+
+    expect(second.run).not.toHaveBeenCalled();
+    expect(third.started).toBe(true);
+    expect(queue.isRunning('third')).toBe(true);
+  });
+
+  it('aborts the signal of a cancelled running job and frees its worker', async () => {
+    const queue = new JobQueue(1);
+    const [running, waiting] = [controllableJob(), controllableJob()];
+    queue.enqueue('running', running.run);
+    queue.enqueue('waiting', waiting.run);
+
+    expect(queue.cancel('running')).toBe('running');
+    expect(running.signal?.aborted).toBe(true);
+    expect((running.signal?.reason as Error).message).toBe('Analysis cancelled');
+    // The job still holds its worker until it has stopped
+    expect(queue.isRunning('running')).toBe(true);
+
+    await flush();
+
+    expect(queue.isRunning('running')).toBe(false);
+    expect(waiting.started).toBe(true);
+    expect(waiting.signal?.aborted).toBe(false);
+    expect(queue.cancel('running')).toBeUndefined();
+  });
+
+  it("cuts the waits of a cancelled job's rate-limited requests short", async () => {
+    const queue = new JobQueue(1);
+    const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+    const unavailable = { data: {}, status: 503, statusText: '503', headers: {}, config } as AxiosResponse;
+    const request = jest.fn(async (_signal?: AbortSignal): Promise<AxiosResponse<string>> => {
+      throw new AxiosError('Request failed with status code 503', 'ERR_BAD_RESPONSE', config, undefined, unavailable);
+    });
+
+    let execution: Promise<unknown> | undefined;
+    queue.enqueue('analysis', async signal => {
+      // Retrying the 503 would wait a minute
+      execution = new RateLimiter({ signal, baseDelayMs: 60 * 1000 }).execute(request);
+      await execution;
+    });
+    await flush();
+
+    queue.cancel('analysis');
+
+    await expect(execution).rejects.toMatchObject({ name: 'AbortError' });
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(request.mock.calls[0][0]?.aborted).toBe(true);
+  });
+
+  it('keeps going after a job fails', async () => {
+    const queue = new JobQueue(1);
+    const next = controllableJob();
+    queue.enqueue('failing', async () => {
+      throw new Error('Repository not found');
+    });
+    queue.enqueue('next', next.run);
+
+    await flush();
+
+    expect(next.started).toBe(true);
+    expect(queue.getStats()).toEqual({ workers: 1, running: 1, queued: 0 });
+    next.finish();
+  });
+});
@@ -0,0 +1,88 @@
+import { FileInfo } from '../../types';
+import { countLines, countLinesOfCode } from '../line-counter';
+
+function source(...lines: string[]): string {
+  return `${lines.join('\n')}\n`;
+}
+
+describe('countLines', () => {
+  it('counts the lines of a block comment that spans lines as comments', () => {
+    const content = source(
+      '/**',
+      ' * Adds two numbers.',
+      '',
+      ' */',
+      'function add(a, b) { /* inline */ return a + b; }',
+      'const total = add(1, 2); /* starts here',
+      '   and ends here */ console.log(total);',
+      '/* one */ /* two */'
+    );
+
+    expect(countLines(content, 'JavaScript')).toEqual({ code: 3, comment: 4, blank: 1 });
+  });
+
+  it('ignores comment markers inside strings', () => {
+    const content = source(
+      "const pattern = 'src/**/*.ts';",
+      'const url = "http://example.com"; // the home page',
+      'const escaped = "a \\" /* quote";',
+      'const template = `--${"/*"}`;',
+      'run(pattern);',
+      '// done'
+    );
+
+    expect(countLines(content, 'TypeScript')).toEqual({ code: 5, comment: 1, blank: 0 });
+    expect(countLines(source("print('# not a comment')", '# a comment'), 'Python')).toEqual({ code: 1, comment: 1, blank: 0 });
+    expect(countLines(source("SELECT '/*' FROM dual;", 'SELECT 1;'), 'SQL')).toEqual({ code: 2, comment: 0, blank: 0 });
+  });
+
+  it('treats an apostrophe in Visual Basic as a comment rather than a string', () => {
+    const content = source('Dim name As String \' the "user" name', "' a comment", 'name = "it\'s"');
+
+    expect(countLines(content, 'Visual Basic 6')).toEqual({ code: 2, comment: 1, blank: 0 });
+  });
+
+  it('reads fixed-format COBOL comments from the indicator column', () => {
+    const content = source(
+      '000100 IDENTIFICATION DIVISION.',
+      '000200* Payroll batch job',
+      '      / New page',
+      '       PROCEDURE DIVISION.',
+      "           DISPLAY '*> not a comment'.",
+      '           MOVE A TO B. *> inline comment',
+      '       *> free-format comment',
+      '*   column one is part of the sequence area',
+      ''
+    );
+
+    expect(countLines(content, 'COBOL')).toEqual({ code: 5, comment: 3, blank: 1 });
+  });
+
+  it('counts every non-blank line as code in languages without comments', () => {
+    expect(countLines('{\n  "//": "not a comment"\n}\n\n', 'JSON')).toEqual({ code: 3, comment: 0, blank: 1 });
+    expect(countLines('', 'TypeScript')).toEqual({ code: 0, comment: 0, blank: 1 });
+  });
+});
+
+describe('countLinesOfCode', () => {
+  it('totals loaded files per language, category and directory', () => {
+    const files: FileInfo[] = [
+      { path: 'src/app.ts', name: 'app.ts', type: 'file', language: 'TypeScript', category: 'source', content: '// app\nrun();\n' },
+      { path: 'src/lib/util.py', name: 'util.py', type: 'file', language: 'Python', category: 'source', content: 'x = 1\n\n' },
+      { path: 'src/lib', name: 'lib', type: 'directory' },
+      { path: 'logo.svg', name: 'logo.svg', type: 'file' }
+    ];
+
+    const stats = countLinesOfCode(files);
+
+    expect(stats.total).toEqual({ files: 2, code: 2, comment: 1, blank: 1 });
+    expect(stats.byLanguage.TypeScript).toEqual({ files: 1, code: 1, comment: 1, blank: 0 });
+    expect(stats.byCategory.source).toEqual({ files: 2, code: 2, comment: 1, blank: 1 });
+    expect(stats.byDirectory).toEqual({
+      'src': { files: 2, code: 2, comment: 1, blank: 1 },
+      'src/lib': { files: 1, code: 1, comment: 0, blank: 1 }
+    });
+    expect(stats.uncountedFiles).toBe(1);
+    expect(files[0].lines).toEqual({ code: 1, comment: 1, blank: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import path from 'path';
+import { FileInfo, SubProject } from '../../types';
+import { detectSubProjects, linkSubProjects } from '../project-discovery';
+
+function file(filePath: string, content?: string): FileInfo {
+  const name = path.posix.basename(filePath);
+  return { path: filePath, name, type: 'file', extension: name.includes('.') ? name.split('.').pop() : undefined, content };
+}
+
+function paths(subProjects: SubProject[]): string[] {
+  return subProjects.map(project => project.path);
+}
+
+describe('detectSubProjects', () => {
+  it('gives workspace roots and aggregator POMs way to their modules', () => {
+    const subProjects = detectSubProjects([
+      file('package.json'),
+      file('README.md'),
+      file('packages/api/package.json'),
+      file('packages/api/src/server.ts'),
+      file('packages/web/package.json'),
+      file('packages/web/src/app.tsx'),
+      file('services/pom.xml'),
+      file('services/billing/pom.xml'),
+      file('services/billing/src/main/java/Invoice.java')
+    ], 'shop');
+
+    expect(paths(subProjects)).toEqual(['packages/api', 'packages/web', 'services/billing']);
+    expect(subProjects[0]).toEqual({ path: 'packages/api', name: 'api', manifests: ['package.json'], ecosystems: ['npm'] });
+  });
+
+  it('keeps a project with sources of its own next to the projects nested in it', () => {
+    const subProjects = detectSubProjects([
+      file('package.json'),
+      file('src/index.ts'),
+      file('docs/package.json'),
+      file('docs/site.js'),
+      file('examples/basic/package.json'),
+      file('examples/basic/index.js'),
+      file('app/pom.xml'),
+      file('app/src/main/java/App.java'),
+      file('app/tools/helper/package.json'),
+      file('app/tools/helper/index.js')
+    ], 'widgets');
+
+    expect(paths(subProjects)).toEqual(['', 'app', 'app/tools/helper', 'docs', 'examples/basic']);
+    expect(subProjects[0]).toMatchObject({ name: 'widgets', nested: ['app', 'app/tools/helper', 'docs', 'examples/basic'] });
+    expect(subProjects[1]).toMatchObject({ name: 'app', ecosystems: ['maven'], nested: ['app/tools/helper'] });
+  });
+
+  it('skips manifests of dependencies, fixtures and tests', () => {
+    const subProjects = detectSubProjects([
+      file('go.mod'),
+      file('main.go'),
+      file('vendor/github.com/acme/lib/go.mod'),
+      file('node_modules/left-pad/package.json'),
+      file('test/fixtures/app/package.json'),
+      file('__tests__/package.json')
+    ]);
+
+    expect(subProjects).toEqual([{ path: '', name: 'root', manifests: ['go.mod'], ecosystems: ['go'] }]);
+  });
+});
+
+describe('linkSubProjects', () => {
+  const subProjects = detectSubProjects([
+    file('packages/api/package.json'),
+    file('packages/shared/package.json'),
+    file('packages/web/package.json'),
+    file('crates/core/Cargo.toml'),
+    file('crates/cli/Cargo.toml'),
+    file('services/billing/pom.xml'),
+    file('services/common/pom.xml')
+  ]);
+
+  it('names projects after their manifests and links them by name and by path', () => {
+    const { subProjects: named, links } = linkSubProjects(subProjects, [
+      file('packages/api/package.json', JSON.stringify({ name: '@shop/api', dependencies: { '@shop/shared': '^1.0.0', express: '^4.0.0' } })),
+      file('packages/shared/package.json', JSON.stringify({ name: '@shop/shared' })),
+      file('packages/web/package.json', JSON.stringify({ name: '@shop/web', devDependencies: { shared: 'file:../shared' } })),
+      file('crates/core/Cargo.toml', '[package]\nname = "core"\n'),
+      file('crates/cli/Cargo.toml', '[package]\nname = "cli"\n\n[dependencies.engine]\npath = "../core"\n'),
+      file('services/common/pom.xml', '<project><artifactId>common</artifactId></project>'),
+      file('services/billing/pom.xml', `<project>
+        <parent><artifactId>platform</artifactId></parent>
+        <artifactId>billing</artifactId>
+        <dependencies><dependency><artifactId>common</artifactId></dependency></dependencies>
+      </project>`)
+    ]);
+
+    expect(Object.fromEntries(named.map(project => [project.path, project.name]))).toEqual({
+      'crates/cli': 'cli',
+      'crates/core': 'core',
+      'packages/api': '@shop/api',
+      'packages/shared': '@shop/shared',
+      'packages/web': '@shop/web',
+      'services/billing': 'billing',
+      'services/common': 'common'
+    });
+    expect(links.map(link => `${link.from} -> ${link.to} (${link.dependency})`)).toEqual([
+      'crates/cli -> crates/core (engine)',
+      'packages/api -> packages/shared (@shop/shared)',
+      'packages/web -> packages/shared (shared)',
+      'services/billing -> services/common (common)'
+    ]);
+  });
+
+  it('skips manifests without content or that fail to parse', () => {
+    const { subProjects: named, links } = linkSubProjects(subProjects, [
+      file('packages/api/package.json', '{ not json'),
+      file('packages/web/package.json')
+    ]);
+
+    expect(named).toEqual(subProjects);
+    expect(links).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+import { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { RateLimiter, RequestBudget } from '../rate-limiter';
+
+const config = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+
+function ok(headers: Record<string, string> = {}): AxiosResponse<string> {
+  return { data: 'ok', status: 200, statusText: 'OK', headers, config };
+}
+
+function failure(status: number, headers: Record<string, string> = {}, message = ''): AxiosError {
+  const response = { data: { message }, status, statusText: String(status), headers, config } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, undefined, response);
+}
+
+// Answers with the given responses in order, throwing the errors among them
+function replay(...responses: Array<AxiosResponse<string> | AxiosError>) {
+  const request = jest.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('No more responses');
+    if (next instanceof AxiosError) throw next;
+    return next;
+  });
+  return request;
+}
+
+describe('RateLimiter', () => {
+  it('waits out a Retry-After given in seconds or as an HTTP date', async () => {
+    const limiter = new RateLimiter({ maxWaitMs: 1000 });
+
+    const past = new Date(Date.now() - 60 * 1000).toUTCString();
+    const request = replay(failure(503, { 'retry-after': past }), failure(429, { 'retry-after': '0' }), ok());
+    await expect(limiter.execute(request)).resolves.toMatchObject({ data: 'ok' });
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(limiter.getUsage()).toMatchObject({ used: 3, retries: 2, rateLimitWaits: 2 });
+  });
+
+  it('gives up when Retry-After asks for longer than the longest wait', async () => {
+    const limiter = new RateLimiter({ maxWaitMs: 1000 });
+
+    const inAnHour = new Date(Date.now() + 60 * 60 * 1000).toUTCString();
+    await expect(limiter.execute(replay(failure(503, { 'retry-after': inAnHour }))))
+      .rejects.toThrow(/Rate limit requires waiting 36\d\ds/);
+    await expect(limiter.execute(replay(failure(429, { 'retry-after': '120' }))))
+      .rejects.toThrow('Rate limit requires waiting 120s, which exceeds the configured maximum');
+  });
+
+  it('retries server errors with backoff but not client errors', async () => {
+    const limiter = new RateLimiter({ maxRetries: 2, baseDelayMs: 1 });
+
+    const flaky = replay(failure(502), failure(500), ok());
+    await expect(limiter.execute(flaky)).resolves.toMatchObject({ data: 'ok' });
+
+    const missing = replay(failure(404));
+    await expect(limiter.execute(missing)).rejects.toThrow('status code 404');
+    expect(missing).toHaveBeenCalledTimes(1);
+
+    const down = replay(failure(500), failure(500), failure(500), ok());
+    await expect(limiter.execute(down)).rejects.toThrow('status code 500');
+    expect(down).toHaveBeenCalledTimes(3);
+  });
+
+  it('refuses requests while the primary limit is spent until a reset too far away', async () => {
+    const limiter = new RateLimiter({ maxWaitMs: 1000 });
+    const reset = String(Math.ceil(Date.now() / 1000) + 3600);
+
+    await limiter.execute(replay(ok({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset })));
+    await expect(limiter.execute(replay(ok()))).rejects.toThrow(/Rate limit exhausted until/);
+    expect(limiter.getUsage()).toMatchObject({ rateLimitRemaining: 0 });
+  });
+
+  it('shares one request budget between the limiters of an analysis', async () => {
+    const budget = new RequestBudget(3);
+    const first = new RateLimiter({ budget });
+    const reopened = new RateLimiter({ budget });
+
+    await first.execute(replay(ok()));
+    await first.execute(replay(ok()));
+    await reopened.execute(replay(ok()));
+    await expect(reopened.execute(replay(ok()))).rejects.toThrow('Request budget of 3 requests exhausted');
+
+    expect(first.isExhausted()).toBe(true);
+    expect(first.getUsage()).toMatchObject({ limit: 3, used: 3, exhausted: true });
+    // A limiter of its own starts from a fresh budget
+    await expect(new RateLimiter({ maxRequests: 3 }).execute(replay(ok()))).resolves.toBeDefined();
+  });
+});
@@ -0,0 +1,281 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { isDeepStrictEqual } from 'util';
+import { createRepositorySource, resolveLocalRepositoryPath, resolveRepositoryProvider } from '../repository-providers';
+
+interface Interaction {
+  path: string;
+  query: Record<string, string>;
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+interface Recording {
+  host: string;
+  repositoryUrl: string;
+  interactions: Interaction[];
+}
+
+function loadRecording(name: string): Recording {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf-8'));
+}
+
+const recordings = {
+  githubEnterprise: loadRecording('github-enterprise'),
+  gitlab: loadRecording('gitlab'),
+  bitbucketServer: loadRecording('bitbucket-server')
+};
+
+const ENV_NAMES = [
+  'GITHUB_TOKEN',
+  'GITHUB_ENTERPRISE_HOSTS',
+  'GITHUB_ENTERPRISE_TOKEN',
+  'GITLAB_TOKEN',
+  'GITLAB_HOSTS',
+  'GITLAB_SELF_MANAGED_TOKEN',
+  'BITBUCKET_SERVER_HOSTS',
+  'BITBUCKET_TOKEN'
+];
+
+describe('repository providers', () => {
+  let server: http.Server;
+  let stubURL: string;
+  let recording: Recording;
+  let requests: http.IncomingMessage[];
+  let unmatched: string[];
+  const savedEnv: Record<string, string | undefined> = {};
+
+  // Replays the recorded response whose path and query match the request exactly
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(req);
+      const [pathname, search = ''] = (req.url || '/').split('?');
+      const query = Object.fromEntries(new URLSearchParams(search));
+      const interaction = recording.interactions.find(candidate => candidate.path === pathname && isDeepStrictEqual(candidate.query, query));
+
+      if (!interaction) {
+        unmatched.push(req.url || '/');
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        return res.end('{"message":"Not Found"}');
+      }
+
+      const text = typeof interaction.body === 'string';
+      res.writeHead(interaction.status, { 'Content-Type': text ? 'text/plain' : 'application/json', ...interaction.headers });
+      return res.end(text ? interaction.body : JSON.stringify(interaction.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    stubURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    unmatched = [];
+    for (const name of ENV_NAMES) {
+      savedEnv[name] = process.env[name];
+      delete process.env[name];
+    }
+    // Tokens for the public hosts, which must never reach a self-hosted one
+    process.env.GITHUB_TOKEN = 'github-com-token';
+    process.env.GITLAB_TOKEN = 'gitlab-com-token';
+  });
+
+  afterEach(() => {
+    for (const name of ENV_NAMES) {
+      if (savedEnv[name] === undefined) delete process.env[name];
+      else process.env[name] = savedEnv[name];
+    }
+  });
+
+  it('reads a GitHub Enterprise repository through its configured API base', async () => {
+    recording = recordings.githubEnterprise;
+    process.env.GITHUB_ENTERPRISE_HOSTS = `${recording.host}=${stubURL}/api/v3`;
+    process.env.GITHUB_ENTERPRISE_TOKEN = 'ghe-token';
+
+    const source = await createRepositorySource(recording.repositoryUrl);
+    const repository = await source.getRepository();
+    const listing = await source.listFiles();
+    const readme = await source.getFileContent('README.md');
+
+    expect(source.kind).toBe('github');
+    expect(repository).toMatchObject({
+      name: 'widgets',
+      owner: 'acme',
+      branch: 'main',
+      commitSha: '3f2c1d9a6b7e8f90123456789abcdef012345678'
+    });
+    expect(listing.complete).toBe(true);
+    expect(listing.files.map(f => [f.path, f.type])).toEqual([
+      ['README.md', 'file'],
+      ['src', 'directory'],
+      ['src/index.ts', 'file']
+    ]);
+    expect(readme).toBe('# Widgets\n');
+    expect(unmatched).toEqual([]);
+    expect(requests.every(req => req.headers.authorization === 'token ghe-token')).toBe(true);
+  });
+
+  it('reads a self-managed GitLab project across tree pages', async () => {
+    recording = recordings.gitlab;
+    process.env.GITLAB_HOSTS = `${recording.host}=${stubURL}/api/v4`;
+    process.env.GITLAB_SELF_MANAGED_TOKEN = 'gitlab-self-managed-token';
+
+    const source = await createRepositorySource(recording.repositoryUrl);
+    const repository = await source.getRepository();
+    const listing = await source.listFiles();
+    const readme = await source.getFileContent('README.md');
+
+    expect(source.kind).toBe('gitlab');
+    expect(repository).toMatchObject({
+      name: 'billing',
+      owner: 'platform/backend',
+      language: 'Java',
+      branch: 'develop',
+      commitSha: '7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9a8b'
+    });
+    expect(listing).toMatchObject({ complete: true, method: 'gitlab-tree' });
+    expect(listing.files.map(f => [f.path, f.type])).toEqual([
+      ['README.md', 'file'],
+      ['src', 'directory'],
+      ['src/Invoice.java', 'file']
+    ]);
+    expect(readme).toBe('# Billing\n');
+    expect(unmatched).toEqual([]);
+    expect(requests.every(req => req.headers['private-token'] === 'gitlab-self-managed-token')).toBe(true);
+  });
+
+  it('reads a Bitbucket Server repository and derives its directories', async () => {
+    recording = recordings.bitbucketServer;
+    process.env.BITBUCKET_SERVER_HOSTS = `${recording.host}=${stubURL}`;
+    process.env.BITBUCKET_TOKEN = 'bitbucket-token';
+
+    const source = await createRepositorySource(recording.repositoryUrl);
+    const repository = await source.getRepository();
+    const listing = await source.listFiles();
+    const readme = await source.getFileContent('README.md');
+
+    expect(source.kind).toBe('bitbucket-server');
+    expect(repository).toMatchObject({
+      name: 'payments',
+      owner: 'PLAT',
+      branch: 'master',
+      commitSha: '5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b9a8f7e6d'
+    });
+    expect(listing).toMatchObject({ complete: true, method: 'bitbucket-files' });
+    expect(listing.files.map(f => [f.path, f.type])).toEqual([
+      ['README.md', 'file'],
+      ['gateway', 'directory'],
+      ['gateway/stripe', 'directory'],
+      ['gateway/stripe/Client.cs', 'file'],
+      ['gateway/adyen', 'directory'],
+      ['gateway/adyen/Client.cs', 'file']
+    ]);
+    expect(readme).toBe('# Payments\n');
+    expect(unmatched).toEqual([]);
+    expect(requests.every(req => req.headers.authorization === 'Bearer bitbucket-token')).toBe(true);
+  });
+
+  it('sends no token to a self-hosted instance without one of its own', async () => {
+    recording = recordings.gitlab;
+    process.env.GITLAB_HOSTS = `${recording.host}=${stubURL}/api/v4`;
+
+    const source = await createRepositorySource(recording.repositoryUrl);
+    await source.getRepository();
+
+    expect(requests.length).toBeGreaterThan(0);
+    expect(requests.every(req => req.headers['private-token'] === undefined)).toBe(true);
+  });
+
+  it('uses a per-analysis token instead of the environment token', async () => {
+    recording = recordings.githubEnterprise;
+    process.env.GITHUB_ENTERPRISE_HOSTS = `${recording.host}=${stubURL}/api/v3`;
+    process.env.GITHUB_ENTERPRISE_TOKEN = 'ghe-token';
+
+    const source = await createRepositorySource(recording.repositoryUrl, { token: 'per-analysis-token' });
+    await source.getRepository();
+
+    expect(requests.every(req => req.headers.authorization === 'token per-analysis-token')).toBe(true);
+  });
+
+  it('routes public hosts and refuses hosts nobody configured', () => {
+    expect(resolveRepositoryProvider('https://github.com/acme/widgets').provider.name).toBe('github');
+    expect(resolveRepositoryProvider('git@gitlab.com:acme/widgets.git').provider.name).toBe('gitlab');
+
+    for (const url of ['https://github.evil.example/acme/widgets', 'https://gitlab.internal/acme/widgets', 'https://bitbucket.corp/projects/A/repos/b']) {
+      expect(() => resolveRepositoryProvider(url)).toThrow(/Unsupported repository host/);
+    }
+  });
+});
+
+describe('resolveLocalRepositoryPath', () => {
+  let directory: string;
+  let root: string;
+  const savedRoots = process.env.LOCAL_REPOSITORY_ROOTS;
+
+  // <directory>/repos is the allowed root; its siblings are outside it
+  beforeEach(async () => {
+    directory = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'local-roots-test-')));
+    root = path.join(directory, 'repos');
+    for (const name of ['repos/widgets/src', 'repos-private/billing', 'secrets']) {
+      await fs.promises.mkdir(path.join(directory, name), { recursive: true });
+    }
+    process.env.LOCAL_REPOSITORY_ROOTS = ` ${path.join(directory, 'elsewhere')} , ${root} `;
+  });
+
+  afterEach(async () => {
+    if (savedRoots === undefined) delete process.env.LOCAL_REPOSITORY_ROOTS;
+    else process.env.LOCAL_REPOSITORY_ROOTS = savedRoots;
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  it('accepts paths under a root, including the root itself and file:// URLs', async () => {
+    await expect(resolveLocalRepositoryPath(path.join(root, 'widgets'))).resolves.toBe(path.join(root, 'widgets'));
+    await expect(resolveLocalRepositoryPath(`file://${root}/widgets/src`)).resolves.toBe(path.join(root, 'widgets', 'src'));
+    await expect(resolveLocalRepositoryPath(`${root}/widgets/src/..`)).resolves.toBe(path.join(root, 'widgets'));
+    await expect(resolveLocalRepositoryPath(root)).resolves.toBe(root);
+  });
+
+  it('refuses paths that climb out of the roots with ..', async () => {
+    for (const location of [`${root}/..`, `${root}/../secrets`, `${root}/widgets/../../secrets`]) {
+      await expect(resolveLocalRepositoryPath(location)).rejects.toThrow('outside LOCAL_REPOSITORY_ROOTS');
+    }
+  });
+
+  it('refuses a sibling directory that only shares the root as a prefix', async () => {
+    await expect(resolveLocalRepositoryPath(path.join(directory, 'repos-private', 'billing')))
+      .rejects.toThrow('outside LOCAL_REPOSITORY_ROOTS');
+  });
+
+  it('refuses symlinks under a root that lead outside it, and follows the ones that stay inside', async () => {
+    await fs.promises.symlink(path.join(directory, 'secrets'), path.join(root, 'escape'));
+    await fs.promises.symlink('../../secrets', path.join(root, 'widgets', 'relative-escape'));
+    await fs.promises.symlink(path.join(root, 'widgets'), path.join(root, 'alias'));
+
+    await expect(resolveLocalRepositoryPath(path.join(root, 'escape'))).rejects.toThrow('outside LOCAL_REPOSITORY_ROOTS');
+    await expect(resolveLocalRepositoryPath(path.join(root, 'widgets', 'relative-escape'))).rejects.toThrow('outside LOCAL_REPOSITORY_ROOTS');
+    await expect(resolveLocalRepositoryPath(path.join(root, 'alias', 'src'))).resolves.toBe(path.join(root, 'widgets', 'src'));
+  });
+
+  it('follows a root that is itself a symlink', async () => {
+    const linkedRoot = path.join(directory, 'linked-repos');
+    await fs.promises.symlink(root, linkedRoot);
+    process.env.LOCAL_REPOSITORY_ROOTS = linkedRoot;
+
+    await expect(resolveLocalRepositoryPath(path.join(linkedRoot, 'widgets'))).resolves.toBe(path.join(root, 'widgets'));
+  });
+
+  it('only reports missing paths under a root, and refuses every path without roots', async () => {
+    await expect(resolveLocalRepositoryPath(path.join(root, 'missing'))).rejects.toThrow('Repository location not found');
+    await expect(resolveLocalRepositoryPath(path.join(directory, 'missing'))).rejects.toThrow('outside LOCAL_REPOSITORY_ROOTS');
+
+    process.env.LOCAL_REPOSITORY_ROOTS = ' , ';
+    await expect(resolveLocalRepositoryPath(path.join(root, 'widgets'))).rejects.toThrow('Local repository paths are disabled');
+  });
+});
@@ -0,0 +1,163 @@
+import fs from 'fs-extra';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { AnalysisResponse, WebhookDelivery, WebhookPayload } from '../../types';
+import { JsonFileAnalysisStore } from '../analysis-store';
+import {
+  WebhookDispatcher,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  verifyWebhookSignature
+} from '../webhooks';
+
+const SECRET = 'receiver-shared-secret';
+
+interface Received {
+  event: string;
+  payload: WebhookPayload;
+  verified: boolean;
+}
+
+function analysis(overrides: Partial<AnalysisResponse> = {}): AnalysisResponse {
+  return {
+    id: 'analysis-1',
+    status: 'completed',
+    progress: 100,
+    currentStep: 'Analysis completed',
+    owner: 'alice',
+    result: {},
+    createdAt: '2026-10-01T10:00:00.000Z',
+    ...overrides
+  } as AnalysisResponse;
+}
+
+describe('WebhookDispatcher', () => {
+  let server: http.Server;
+  let receiverURL: string;
+  let directory: string;
+  let store: JsonFileAnalysisStore;
+  let received: Received[];
+  let responses: number[]; // status codes to answer with, in order; 200 once used up
+
+  // A receiver that checks every signature the way the README tells integrators to
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const body = Buffer.concat(chunks).toString('utf-8');
+        const timestamp = String(req.headers[WEBHOOK_TIMESTAMP_HEADER.toLowerCase()] ?? '');
+        const signature = String(req.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()] ?? '');
+        received.push({
+          event: String(req.headers['x-webhook-event']),
+          payload: JSON.parse(body),
+          verified: verifyWebhookSignature(SECRET, timestamp, body, signature)
+        });
+        res.writeHead(responses.shift() ?? 200);
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    receiverURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'webhooks-test-'));
+    store = new JsonFileAnalysisStore(directory);
+    received = [];
+    responses = [];
+    for (const id of ['analysis-1', 'analysis-404', 'analysis-500']) {
+      await store.save(analysis({ id }));
+    }
+  });
+
+  afterEach(async () => {
+    await fs.remove(directory);
+  });
+
+  async function settledDeliveries(analysisId: string): Promise<WebhookDelivery[]> {
+    for (let i = 0; i < 100; i++) {
+      const deliveries = await store.listWebhookDeliveries(analysisId);
+      if (deliveries.length > 0 && deliveries.every(delivery => delivery.status !== 'pending')) return deliveries;
+      await new Promise(resolve => setTimeout(resolve, 20));
+    }
+    throw new Error('Webhook deliveries did not settle');
+  }
+
+  it('signs payloads with the webhook secret', async () => {
+    await store.saveWebhook({ id: 'hook-1', url: receiverURL, secret: SECRET, createdAt: '2026-10-01T09:00:00.000Z' });
+    const dispatcher = new WebhookDispatcher(store, { maxAttempts: 1 });
+
+    await dispatcher.dispatch(analysis(), 'analysis.completed');
+    const [delivery] = await settledDeliveries('analysis-1');
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ event: 'analysis.completed', verified: true });
+    expect(received[0].payload).toMatchObject({ id: delivery.id, event: 'analysis.completed', analysis: { id: 'analysis-1' } });
+    expect(received[0].payload.analysis).not.toHaveProperty('result');
+    expect(delivery).toMatchObject({ status: 'delivered', webhookId: 'hook-1' });
+  });
+
+  it('retries 5xx responses with the same delivery ID until one succeeds', async () => {
+    await store.saveWebhook({ id: 'hook-1', url: receiverURL, secret: SECRET, createdAt: '2026-10-01T09:00:00.000Z' });
+    responses = [503, 500];
+    const dispatcher = new WebhookDispatcher(store, { maxAttempts: 5, baseDelayMs: 10 });
+
+    await dispatcher.dispatch(analysis(), 'analysis.completed');
+    const [delivery] = await settledDeliveries('analysis-1');
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map(attempt => attempt.statusCode)).toEqual([503, 500, 200]);
+    expect(new Set(received.map(r => r.payload.id))).toEqual(new Set([delivery.id]));
+    expect(received.every(r => r.verified)).toBe(true);
+  });
+
+  it('gives up on client errors and after the last attempt', async () => {
+    await store.saveWebhook({ id: 'hook-1', url: receiverURL, secret: SECRET, createdAt: '2026-10-01T09:00:00.000Z' });
+    const dispatcher = new WebhookDispatcher(store, { maxAttempts: 3, baseDelayMs: 10 });
+
+    responses = [404];
+    await dispatcher.dispatch(analysis({ id: 'analysis-404' }), 'analysis.completed');
+    const [rejected] = await settledDeliveries('analysis-404');
+
+    responses = [500, 500, 500];
+    await dispatcher.dispatch(analysis({ id: 'analysis-500' }), 'analysis.completed');
+    const [exhausted] = await settledDeliveries('analysis-500');
+
+    expect(rejected).toMatchObject({ status: 'failed', attempts: [{ statusCode: 404 }] });
+    expect(exhausted.status).toBe('failed');
+    expect(exhausted.attempts).toHaveLength(3);
+  });
+
+  it('only notifies webhooks of the analysis owner that subscribe to the event', async () => {
+    await store.saveWebhook({ id: 'mine', url: `${receiverURL}?mine`, secret: SECRET, owner: 'alice', createdAt: '2026-10-01T09:00:00.000Z' });
+    await store.saveWebhook({ id: 'theirs', url: `${receiverURL}?theirs`, secret: SECRET, owner: 'bob', createdAt: '2026-10-01T09:00:00.000Z' });
+    await store.saveWebhook({ id: 'failures', url: `${receiverURL}?failures`, secret: SECRET, events: ['analysis.failed'], createdAt: '2026-10-01T09:00:00.000Z' });
+    const dispatcher = new WebhookDispatcher(store, { maxAttempts: 1 });
+
+    await dispatcher.dispatch(analysis(), 'analysis.completed');
+    const deliveries = await settledDeliveries('analysis-1');
+
+    expect(deliveries.map(delivery => delivery.webhookId)).toEqual(['mine']);
+  });
+
+  it('signs callback URL deliveries with the callback secret', async () => {
+    const dispatcher = new WebhookDispatcher(store, { maxAttempts: 1, callbackSecret: SECRET });
+
+    await dispatcher.dispatch(
+      analysis({ request: { repositoryUrl: 'https://github.com/acme/widgets', callbackUrls: [receiverURL] } }),
+      'analysis.started'
+    );
+    const [delivery] = await settledDeliveries('analysis-1');
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.webhookId).toBeUndefined();
+    expect(received).toMatchObject([{ event: 'analysis.started', verified: true }]);
+  });
+});
@@ -5,7 +5,9 @@
 
 import fs from 'fs-extra';
 import path from 'path';
+import { ArchitectureAnalysis, FileInfo, RepositoryAnalysis } from '../types';
 import { enhancedLogger } from './simple-enhanced-logger';
+import { redactSecrets } from './logger';
 
 // ANSI color codes for terminal output
 const colors = {
@@ -26,12 +28,16 @@ interface AgentIOLog {
   agentName: string;
   operation: string;
   timestamp: string;
-  input?: any;
-  output?: any;
+  input?: unknown;
+  output?: unknown;
   error?: string;
   executionTime?: number;
 }
 
+// What the key metrics are read from; agents' inputs and outputs each have some of it
+type AgentData = Partial<Pick<RepositoryAnalysis, 'repository' | 'fileStructure' | 'summary' | 'insights'>> &
+  Partial<Pick<ArchitectureAnalysis, 'architecture' | 'recommendations' | 'migrationComplexity' | 'fileAnalysis'>>;
+
 class AgentIOLogger {
   private logsDir: string = 'logs/agent-io';
   
@@ -43,7 +49,7 @@ class AgentIOLogger {
   /**
    * Log Agent Input - what the agent receives
    */
-  async logInput(agentName: string, operation: string, input: any) {
+  async logInput(agentName: string, operation: string, input: unknown) {
     const timestamp = new Date().toISOString();
     const inputId = this.generateId();
     
@@ -59,7 +65,7 @@ class AgentIOLogger {
     
     // Log key metrics if available
     if (input && typeof input === 'object') {
-      this.logKeyMetrics('INPUT', input);
+      this.logKeyMetrics('INPUT', input as AgentData);
     }
     
     // Save detailed input to file
@@ -90,7 +96,7 @@ class AgentIOLogger {
   /**
    * Log Agent Output - what the agent produces
    */
-  async logOutput(agentName: string, operation: string, output: any, inputId?: string, executionTime?: number) {
+  async logOutput(agentName: string, operation: string, output: unknown, inputId?: string, executionTime?: number) {
     const timestamp = new Date().toISOString();
     const outputId = this.generateId();
     
@@ -112,7 +118,7 @@ class AgentIOLogger {
     
     // Log key metrics if available
     if (output && typeof output === 'object') {
-      this.logKeyMetrics('OUTPUT', output);
+      this.logKeyMetrics('OUTPUT', output as AgentData);
     }
     
     // Save detailed output to file
@@ -146,7 +152,8 @@ class AgentIOLogger {
   /**
    * Log Agent Error - when agent fails
    */
-  async logError(agentName: string, operation: string, error: Error, inputId?: string, executionTime?: number) {
+  async logError(agentName: string, operation: string, failure: Error, inputId?: string, executionTime?: number) {
+    const error = redactSecrets(failure);
     const timestamp = new Date().toISOString();
     const errorId = this.generateId();
     
@@ -206,7 +213,7 @@ class AgentIOLogger {
   /**
    * Log data structure overview
    */
-  private logDataStructure(type: 'INPUT' | 'OUTPUT', data: any) {
+  private logDataStructure(type: 'INPUT' | 'OUTPUT', data: unknown) {
     console.log(`${colors.yellow}📊 ${type} STRUCTURE:${colors.reset}`);
     
     if (data === null || data === undefined) {
@@ -248,7 +255,7 @@ class AgentIOLogger {
   /**
    * Log key metrics from data
    */
-  private logKeyMetrics(type: 'INPUT' | 'OUTPUT', data: any) {
+  private logKeyMetrics(type: 'INPUT' | 'OUTPUT', data: AgentData) {
     console.log(`${colors.magenta}🔢 KEY ${type} METRICS:${colors.reset}`);
     
     if (type === 'INPUT') {
@@ -268,7 +275,7 @@ class AgentIOLogger {
           const categoryCount = Object.keys(data.fileStructure.categories).length;
           console.log(`${colors.magenta}   File Categories: ${categoryCount}${colors.reset}`);
           
-          Object.entries(data.fileStructure.categories).forEach(([category, files]: [string, any]) => {
+          Object.entries(data.fileStructure.categories).forEach(([category, files]: [string, FileInfo[]]) => {
             if (files && files.length > 0) {
               console.log(`${colors.magenta}     ${category}: ${files.length} files${colors.reset}`);
             }
@@ -327,12 +334,12 @@ class AgentIOLogger {
   }
 
   /**
-   * Save data to JSON file
+   * Save data to JSON file, with any registered secrets masked
    */
-  private async saveToFile(filename: string, data: any) {
+  private async saveToFile(filename: string, data: unknown) {
     try {
       const filepath = path.join(this.logsDir, filename);
-      await fs.writeJSON(filepath, data, { spaces: 2 });
+      await fs.writeJSON(filepath, redactSecrets(data), { spaces: 2 });
     } catch (error) {
       console.error(`Failed to save log file ${filename}:`, error);
     }
@@ -348,7 +355,7 @@ class AgentIOLogger {
   /**
    * Create comparison between input and output
    */
-  async logComparison(agentName: string, operation: string, input: any, output: any) {
+  async logComparison(agentName: string, operation: string, input: unknown, output: unknown) {
     console.log(`\n${colors.cyan}🔄 AGENT INPUT/OUTPUT COMPARISON${colors.reset}`);
     console.log(`${colors.bright}Agent: ${agentName}${colors.reset}`);
     console.log(`${colors.bright}Operation: ${operation}${colors.reset}`);
@@ -378,20 +385,20 @@ class AgentIOLogger {
 export const agentIOLogger = new AgentIOLogger();
 
 // Convenience functions for specific agents
-export const logAgent2Input = (input: any) => agentIOLogger.logInput('Architecture Inference Agent', 'analyze', input);
-export const logAgent2Output = (output: any, inputId?: string, executionTime?: number) => 
+export const logAgent2Input = (input: unknown) => agentIOLogger.logInput('Architecture Inference Agent', 'analyze', input);
+export const logAgent2Output = (output: unknown, inputId?: string, executionTime?: number) => 
   agentIOLogger.logOutput('Architecture Inference Agent', 'analyze', output, inputId, executionTime);
 export const logAgent2Error = (error: Error, inputId?: string, executionTime?: number) => 
   agentIOLogger.logError('Architecture Inference Agent', 'analyze', error, inputId, executionTime);
 
-export const logAgent3Input = (input: any) => agentIOLogger.logInput('Code Flow Agent', 'analyze', input);
-export const logAgent3Output = (output: any, inputId?: string, executionTime?: number) => 
+export const logAgent3Input = (input: unknown) => agentIOLogger.logInput('Code Flow Agent', 'analyze', input);
+export const logAgent3Output = (output: unknown, inputId?: string, executionTime?: number) => 
   agentIOLogger.logOutput('Code Flow Agent', 'analyze', output, inputId, executionTime);
 export const logAgent3Error = (error: Error, inputId?: string, executionTime?: number) => 
   agentIOLogger.logError('Code Flow Agent', 'analyze', error, inputId, executionTime);
 
-export const logAgent4Input = (inputId: string, input: any) => agentIOLogger.logInput('Risk Assessment Agent', 'analyze', input);
-export const logAgent4Output = (inputId: string, output: any, executionTime: number) => 
+export const logAgent4Input = (inputId: string, input: unknown) => agentIOLogger.logInput('Risk Assessment Agent', 'analyze', input);
+export const logAgent4Output = (inputId: string, output: unknown, executionTime: number) => 
   agentIOLogger.logOutput('Risk Assessment Agent', 'analyze', output, inputId, executionTime);
 export const logAgent4Error = (inputId: string, error: Error, executionTime: number) => 
   agentIOLogger.logError('Risk Assessment Agent', 'analyze', error, inputId, executionTime);
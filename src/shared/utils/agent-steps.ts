@@ -0,0 +1,10 @@
+import { AgentStep } from '../types';
+
+/** Runs `step` on `state`, throwing `<description> failed: <errors>` when the step recorded errors */
+export async function runAgentStep<S extends { errors: string[] }>(step: AgentStep<S>, state: S): Promise<S> {
+  const next = await step.run(state);
+  if (next.errors.length > 0) {
+    throw new Error(`${step.description} failed: ${next.errors.join(', ')}`);
+  }
+  return next;
+}
@@ -0,0 +1,252 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { AnalysisScope, RepositoryAnalysis } from '../types';
+import { logInfo, logWarn } from './logger';
+
+export type CacheNamespace = 'contents' | 'agents' | 'prompts';
+
+export const CACHE_NAMESPACES: CacheNamespace[] = ['contents', 'agents', 'prompts'];
+
+/** What an agent's output depends on besides its input: its code and its prompts */
+export interface AgentCacheIdentity {
+  agent: string;
+  version: string; // bumped by hand when the agent's logic changes
+  promptHash: string;
+}
+
+export interface AgentCacheKey {
+  commitSha: string;
+  repositoryUrl: string;
+  scope: AnalysisScope;
+  /** The agents whose outputs led up to this one, ending with the agent being cached */
+  agents: AgentCacheIdentity[];
+}
+
+export interface CacheNamespaceStats {
+  entries: number;
+  bytes: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  directory: string;
+  namespaces: Record<CacheNamespace, CacheNamespaceStats>;
+  commits: number; // commits with cached agent outputs
+}
+
+export interface CachePurgeOptions {
+  namespace?: CacheNamespace;
+  commitSha?: string; // only agent outputs for this commit
+}
+
+interface CachedAgentOutput<T> {
+  key: AgentCacheKey;
+  createdAt: string;
+  output: T;
+}
+
+interface CachedPromptResponse {
+  createdAt: string;
+  response: string;
+}
+
+const refreshing = new AsyncLocalStorage<true>();
+
+/**
+ * Runs `fn` and the async work it starts, such as an agent's LLM calls, without reading
+ * cached agent outputs or LLM responses, so everything is computed again. What is
+ * computed still replaces the cached entries.
+ */
+export function withoutCachedResults<T>(fn: () => Promise<T>): Promise<T> {
+  return refreshing.run(true, fn);
+}
+
+export function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hashes the source of an agent's prompt-building methods (any method with "prompt" in
+ * its name), so editing a prompt invalidates cached outputs without a version bump.
+ */
+export function hashPromptBuilders(agent: object): string {
+  const prototype = Object.getPrototypeOf(agent);
+  const sources = Object.getOwnPropertyNames(prototype)
+    .filter(name => /prompt/i.test(name) && typeof prototype[name] === 'function')
+    .sort()
+    .map(name => prototype[name].toString());
+  return hashText(sources.join('\n')).slice(0, 16);
+}
+
+/**
+ * The cache key for an agent working on a repository analysis, or undefined when its
+ * output must not be cached: without a commit SHA the content is not pinned, and a
+ * partial fetch would be replayed even after the rate limit recovers.
+ */
+export function getAgentCacheKey(
+  repositoryAnalysis: Pick<RepositoryAnalysis, 'repository' | 'scope' | 'fetchStats'>,
+  agents: AgentCacheIdentity[]
+): AgentCacheKey | undefined {
+  const { repository, scope, fetchStats } = repositoryAnalysis;
+  if (!repository.commitSha) return undefined;
+  if (fetchStats.requests?.exhausted || fetchStats.contentLoaded < fetchStats.contentRequested) return undefined;
+
+  return { commitSha: repository.commitSha, repositoryUrl: repository.url, scope, agents };
+}
+
+/**
+ * Content-addressed on-disk cache. File contents are stored by git blob SHA, so they
+ * are shared between commits and repositories; agent outputs are stored per commit,
+ * under a hash of everything that went into them; LLM responses are stored under a
+ * hash of the prompt, so an unchanged prompt is never sent twice.
+ */
+export class AnalysisCache {
+  constructor(
+    readonly directory: string = process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), 'data', 'cache'),
+    readonly enabled: boolean = process.env.ANALYSIS_CACHE_ENABLED !== 'false'
+  ) {}
+
+  private contentPath(sha: string): string {
+    return path.join(this.directory, 'contents', sha.slice(0, 2), sha);
+  }
+
+  private agentOutputPath(key: AgentCacheKey): string {
+    const agent = key.agents[key.agents.length - 1].agent;
+    return path.join(this.directory, 'agents', key.commitSha, `${agent}-${hashText(JSON.stringify(key)).slice(0, 32)}.json`);
+  }
+
+  private promptResponsePath(promptHash: string): string {
+    return path.join(this.directory, 'prompts', promptHash.slice(0, 2), `${promptHash}.json`);
+  }
+
+  async getContent(sha: string): Promise<string | undefined> {
+    if (!this.enabled) return undefined;
+    try {
+      return await fs.readFile(this.contentPath(sha), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setContent(sha: string, content: string): Promise<void> {
+    if (!this.enabled) return;
+    await this.write(this.contentPath(sha), content);
+  }
+
+  async getAgentOutput<T>(key: AgentCacheKey): Promise<T | undefined> {
+    if (!this.enabled || refreshing.getStore()) return undefined;
+    try {
+      const cached: CachedAgentOutput<T> = await fs.readJson(this.agentOutputPath(key));
+      return cached.output;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setAgentOutput<T>(key: AgentCacheKey, output: T): Promise<void> {
+    if (!this.enabled) return;
+    const entry: CachedAgentOutput<T> = { key, createdAt: new Date().toISOString(), output };
+    await this.write(this.agentOutputPath(key), JSON.stringify(entry));
+  }
+
+  async getPromptResponse(promptHash: string): Promise<string | undefined> {
+    if (!this.enabled || refreshing.getStore()) return undefined;
+    try {
+      const cached: CachedPromptResponse = await fs.readJson(this.promptResponsePath(promptHash));
+      return cached.response;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async setPromptResponse(promptHash: string, response: string): Promise<void> {
+    if (!this.enabled) return;
+    const entry: CachedPromptResponse = { createdAt: new Date().toISOString(), response };
+    await this.write(this.promptResponsePath(promptHash), JSON.stringify(entry));
+  }
+
+  /**
+   * Returns the cached output for `key`, or runs `compute` and caches its result.
+   * Without a key the output is computed and not cached.
+   */
+  async remember<T>(key: AgentCacheKey | undefined, compute: () => Promise<T>): Promise<T> {
+    if (!key) return compute();
+
+    const agent = key.agents[key.agents.length - 1].agent;
+    const cached = await this.getAgentOutput<T>(key);
+    if (cached !== undefined) {
+      logInfo(`Using cached ${agent} output`, { commitSha: key.commitSha });
+      return cached;
+    }
+
+    const output = await compute();
+    await this.setAgentOutput(key, output);
+    return output;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const namespaces = {} as Record<CacheNamespace, CacheNamespaceStats>;
+    for (const namespace of CACHE_NAMESPACES) {
+      namespaces[namespace] = await this.measure(path.join(this.directory, namespace));
+    }
+
+    const agentsDirectory = path.join(this.directory, 'agents');
+    const commits = (await fs.pathExists(agentsDirectory)) ? (await fs.readdir(agentsDirectory)).length : 0;
+
+    return { enabled: this.enabled, directory: this.directory, namespaces, commits };
+  }
+
+  /** Deletes cached entries and returns how many were removed */
+  async purge(options: CachePurgeOptions = {}): Promise<number> {
+    const targets = options.commitSha
+      ? [path.join(this.directory, 'agents', path.basename(options.commitSha))]
+      : (options.namespace ? [options.namespace] : CACHE_NAMESPACES).map(namespace => path.join(this.directory, namespace));
+
+    let removed = 0;
+    for (const target of targets) {
+      removed += (await this.measure(target)).entries;
+      await fs.remove(target);
+    }
+
+    logInfo('Purged analysis cache', { ...options, removed });
+    return removed;
+  }
+
+  private async measure(directory: string): Promise<CacheNamespaceStats> {
+    const stats: CacheNamespaceStats = { entries: 0, bytes: 0 };
+    if (!(await fs.pathExists(directory))) return stats;
+
+    for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        const nested = await this.measure(entryPath);
+        stats.entries += nested.entries;
+        stats.bytes += nested.bytes;
+      } else {
+        stats.entries++;
+        stats.bytes += (await fs.stat(entryPath)).size;
+      }
+    }
+
+    return stats;
+  }
+
+  // Writes through a temporary file so concurrent readers never see a partial entry; the
+  // name is unique, so concurrent writes of one entry never share a temporary file
+  private async write(filePath: string, data: string): Promise<void> {
+    const temporary = `${filePath}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(temporary, data);
+      await fs.rename(temporary, filePath);
+    } catch (error) {
+      await fs.remove(temporary).catch(() => undefined);
+      // A cache that can't be written only costs speed
+      logWarn(`Failed to write cache entry ${filePath}: ${(error as Error).message}`);
+    }
+  }
+}
+
+export const analysisCache = new AnalysisCache();
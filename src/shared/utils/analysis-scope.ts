@@ -0,0 +1,53 @@
+import { AnalysisOptions, AnalysisScope } from '../types';
+
+export const DEFAULT_ANALYSIS_SCOPE: AnalysisScope = {
+  includeTests: true,
+  maxFiles: 1000,
+  includeContent: true,
+  include: [],
+  exclude: [],
+  maxFileSize: 1024 * 1024,
+  subpath: ''
+};
+
+export function resolveAnalysisScope(options: AnalysisOptions = {}): AnalysisScope {
+  return {
+    includeTests: options.includeTests ?? DEFAULT_ANALYSIS_SCOPE.includeTests,
+    maxFiles: options.maxFiles ?? DEFAULT_ANALYSIS_SCOPE.maxFiles,
+    includeContent: options.includeContent ?? DEFAULT_ANALYSIS_SCOPE.includeContent,
+    include: options.include ?? DEFAULT_ANALYSIS_SCOPE.include,
+    exclude: options.exclude ?? DEFAULT_ANALYSIS_SCOPE.exclude,
+    maxFileSize: options.maxFileSize ?? DEFAULT_ANALYSIS_SCOPE.maxFileSize,
+    subpath: normalizeSubpath(options.subpath ?? DEFAULT_ANALYSIS_SCOPE.subpath)
+  };
+}
+
+/**
+ * Turns `./apps/web/` or `/apps/web` into `apps/web`. Parent-directory segments are
+ * rejected so a subpath can never leave the repository.
+ */
+export function normalizeSubpath(subpath: string): string {
+  const segments = subpath.replace(/\\/g, '/').split('/').filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) {
+    throw new Error(`Subpath must stay inside the repository: ${subpath}`);
+  }
+  return segments.join('/');
+}
+
+/**
+ * Summarises the parts of the scope that differ from a full analysis, for agent prompts.
+ * Returns an empty string for the default scope.
+ */
+export function describeAnalysisScope(scope: AnalysisScope): string {
+  const notes: string[] = [];
+
+  if (scope.subpath) notes.push(`- Only the sub-project at ${scope.subpath}/ was analyzed`);
+  if (!scope.includeTests) notes.push('- Test files were excluded from the analysis');
+  if (!scope.includeContent) notes.push('- File contents were not loaded; only names and structure are available');
+  if (scope.include.length > 0) notes.push(`- Only paths matching ${scope.include.join(', ')} were analyzed`);
+  if (scope.exclude.length > 0) notes.push(`- Paths matching ${scope.exclude.join(', ')} were excluded`);
+  if (scope.maxFileSize !== DEFAULT_ANALYSIS_SCOPE.maxFileSize) notes.push(`- Files larger than ${scope.maxFileSize} bytes were skipped`);
+  if (scope.maxFiles !== DEFAULT_ANALYSIS_SCOPE.maxFiles) notes.push(`- The listing was limited to ${scope.maxFiles} entries`);
+
+  return notes.length > 0 ? `\nAnalysis Scope:\n${notes.join('\n')}\n` : '';
+}
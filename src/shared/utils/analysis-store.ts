@@ -0,0 +1,639 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AnalysisResponse, ApiKey, RepositoryCredential, Webhook, WebhookDelivery } from '../types';
+import { logInfo, logWarn } from './logger';
+
+export type AnalysisStoreKind = 'sqlite' | 'json';
+
+type AgentResults = NonNullable<AnalysisResponse['result']>;
+export type AgentResultKey = keyof AgentResults;
+
+const AGENT_RESULT_KEYS: AgentResultKey[] = ['repositoryAnalysis', 'architectureAnalysis', 'codeFlowAnalysis', 'riskAssessment'];
+
+export const DEFAULT_DATABASE_URL = 'sqlite:./data/app.db';
+
+export interface AnalysisListOptions {
+  status?: AnalysisResponse['status'][];
+  owner?: string; // only this owner's analyses
+  results?: boolean; // false leaves the agent results out, as listings don't show them
+}
+
+/**
+ * Where analyses live between requests and across restarts. Each agent's result is
+ * stored on its own, so saving progress does not rewrite results that are already stored.
+ */
+export interface AnalysisStore {
+  readonly kind: AnalysisStoreKind;
+  get(id: string): Promise<AnalysisResponse | undefined>;
+  /** Oldest first */
+  list(options?: AnalysisListOptions): Promise<AnalysisResponse[]>;
+  save(analysis: AnalysisResponse): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  /** Deletes finished analyses completed before `before` and returns how many were removed */
+  deleteCompletedBefore(before: Date): Promise<number>;
+  /** Keeps an earlier version of an agent result, such as one a re-run is about to replace */
+  saveAgentVersion(id: string, agent: AgentResultKey, version: number, result: object): Promise<void>;
+  getAgentVersion(id: string, agent: AgentResultKey, version: number): Promise<object | undefined>;
+  saveWebhook(webhook: Webhook): Promise<void>;
+  /** Oldest first */
+  listWebhooks(): Promise<Webhook[]>;
+  deleteWebhook(id: string): Promise<boolean>;
+  /** Records a delivery and its attempts so far; deliveries are deleted with their analysis */
+  saveWebhookDelivery(delivery: WebhookDelivery): Promise<void>;
+  /** Oldest first */
+  listWebhookDeliveries(analysisId: string): Promise<WebhookDelivery[]>;
+  saveApiKey(apiKey: ApiKey): Promise<void>;
+  getApiKey(id: string): Promise<ApiKey | undefined>;
+  findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  /** Oldest first, revoked keys included */
+  listApiKeys(): Promise<ApiKey[]>;
+  saveCredential(credential: RepositoryCredential): Promise<void>;
+  getCredential(id: string): Promise<RepositoryCredential | undefined>;
+  /** Oldest first */
+  listCredentials(): Promise<RepositoryCredential[]>;
+  deleteCredential(id: string): Promise<boolean>;
+  close(): Promise<void>;
+}
+
+// The analysis record without agent results, which are stored separately
+function splitAnalysis(analysis: AnalysisResponse): { record: AnalysisResponse; results: Partial<AgentResults> } {
+  const { result, ...record } = analysis;
+  return { record, results: result || {} };
+}
+
+export const FINISHED_STATUSES: AnalysisResponse['status'][] = ['completed', 'partial', 'failed', 'cancelled'];
+
+export function isAnalysisFinished(analysis: Pick<AnalysisResponse, 'status'>): boolean {
+  return FINISHED_STATUSES.includes(analysis.status);
+}
+
+/**
+ * Agent results don't change once an agent has finished, so each result is written once
+ * per analysis; later saves of the same analysis only rewrite its status. Incremental
+ * runs share result objects with the analysis they reuse them from.
+ */
+class WrittenResults {
+  private readonly written = new WeakMap<object, Set<string>>();
+
+  pending(id: string, results: Partial<AgentResults>): Array<[AgentResultKey, object]> {
+    return AGENT_RESULT_KEYS
+      .filter(key => results[key] !== undefined && !this.written.get(results[key]!)?.has(id))
+      .map(key => [key, results[key]!]);
+  }
+
+  markWritten(id: string, results: Array<[AgentResultKey, object]>): void {
+    for (const [, result] of results) {
+      const ids = this.written.get(result) || new Set<string>();
+      this.written.set(result, ids.add(id));
+    }
+  }
+}
+
+export class SqliteAnalysisStore implements AnalysisStore {
+  readonly kind = 'sqlite' as const;
+  private readonly db: Database.Database;
+  private readonly writtenResults = new WrittenResults();
+
+  constructor(readonly filename: string) {
+    if (filename !== ':memory:') fs.ensureDirSync(path.dirname(filename));
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS analyses (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        repository_url TEXT,
+        parent_id TEXT,
+        owner TEXT,
+        error TEXT,
+        record TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        completed_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS analyses_status ON analyses (status);
+      CREATE INDEX IF NOT EXISTS analyses_completed_at ON analyses (completed_at);
+      CREATE TABLE IF NOT EXISTS agent_results (
+        analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+        agent TEXT NOT NULL,
+        result TEXT NOT NULL,
+        PRIMARY KEY (analysis_id, agent)
+      );
+      CREATE TABLE IF NOT EXISTS agent_result_versions (
+        analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+        agent TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        PRIMARY KEY (analysis_id, agent, version)
+      );
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        record TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+        record TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS webhook_deliveries_analysis_id ON webhook_deliveries (analysis_id);
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT NOT NULL UNIQUE,
+        record TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS credentials (
+        id TEXT PRIMARY KEY,
+        record TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+    `);
+
+    // Stores created before analyses had an owner column get one, filled in from the records
+    const columns = this.db.prepare('PRAGMA table_info(analyses)').all() as Array<{ name: string }>;
+    if (!columns.some(column => column.name === 'owner')) {
+      this.db.exec(`
+        ALTER TABLE analyses ADD COLUMN owner TEXT;
+        UPDATE analyses SET owner = json_extract(record, '$.owner');
+      `);
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS analyses_owner ON analyses (owner)');
+  }
+
+  async get(id: string): Promise<AnalysisResponse | undefined> {
+    const row = this.db.prepare('SELECT record FROM analyses WHERE id = ?').get(id) as { record: string } | undefined;
+    return row ? this.load(id, row.record) : undefined;
+  }
+
+  async list(options: AnalysisListOptions = {}): Promise<AnalysisResponse[]> {
+    const statuses = options.status || [];
+    const conditions: string[] = [];
+    const parameters: string[] = [];
+    if (statuses.length > 0) {
+      conditions.push(`status IN (${statuses.map(() => '?').join(', ')})`);
+      parameters.push(...statuses);
+    }
+    if (options.owner !== undefined) {
+      conditions.push('owner = ?');
+      parameters.push(options.owner);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT id, record FROM analyses ${where} ORDER BY created_at`)
+      .all(...parameters) as Array<{ id: string; record: string }>;
+    return rows.map(row => (options.results === false ? JSON.parse(row.record) : this.load(row.id, row.record)));
+  }
+
+  async save(analysis: AnalysisResponse): Promise<void> {
+    const { record, results } = splitAnalysis(analysis);
+    const pending = this.writtenResults.pending(record.id, results);
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO analyses (id, status, repository_url, parent_id, owner, error, record, created_at, completed_at)
+        VALUES (@id, @status, @repositoryUrl, @parentId, @owner, @error, @record, @createdAt, @completedAt)
+        ON CONFLICT (id) DO UPDATE SET
+          status = excluded.status, owner = excluded.owner, error = excluded.error, record = excluded.record,
+          completed_at = excluded.completed_at
+      `).run({
+        id: record.id,
+        status: record.status,
+        repositoryUrl: record.request?.repositoryUrl ?? null,
+        parentId: record.parentId ?? null,
+        owner: record.owner ?? null,
+        error: record.error ?? null,
+        record: JSON.stringify(record),
+        createdAt: record.createdAt,
+        completedAt: record.completedAt ?? null
+      });
+
+      const upsertResult = this.db.prepare(`
+        INSERT INTO agent_results (analysis_id, agent, result) VALUES (?, ?, ?)
+        ON CONFLICT (analysis_id, agent) DO UPDATE SET result = excluded.result
+      `);
+      for (const [agent, result] of pending) {
+        upsertResult.run(record.id, agent, JSON.stringify(result));
+      }
+
+      // A result dropped from the analysis, like one being re-run, is dropped from the store too
+      const removed = AGENT_RESULT_KEYS.filter(key => results[key] === undefined);
+      if (removed.length > 0) {
+        this.db
+          .prepare(`DELETE FROM agent_results WHERE analysis_id = ? AND agent IN (${removed.map(() => '?').join(', ')})`)
+          .run(record.id, ...removed);
+      }
+    })();
+
+    this.writtenResults.markWritten(record.id, pending);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM analyses WHERE id = ?').run(id).changes > 0;
+  }
+
+  async deleteCompletedBefore(before: Date): Promise<number> {
+    return this.db
+      .prepare(`DELETE FROM analyses WHERE status IN (${FINISHED_STATUSES.map(() => '?').join(', ')}) AND completed_at < ?`)
+      .run(...FINISHED_STATUSES, before.toISOString()).changes;
+  }
+
+  async saveAgentVersion(id: string, agent: AgentResultKey, version: number, result: object): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO agent_result_versions (analysis_id, agent, version, result) VALUES (?, ?, ?, ?)
+        ON CONFLICT (analysis_id, agent, version) DO UPDATE SET result = excluded.result
+      `)
+      .run(id, agent, version, JSON.stringify(result));
+  }
+
+  async getAgentVersion(id: string, agent: AgentResultKey, version: number): Promise<object | undefined> {
+    const row = this.db
+      .prepare('SELECT result FROM agent_result_versions WHERE analysis_id = ? AND agent = ? AND version = ?')
+      .get(id, agent, version) as { result: string } | undefined;
+    return row ? JSON.parse(row.result) : undefined;
+  }
+
+  async saveWebhook(webhook: Webhook): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO webhooks (id, record, created_at) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET record = excluded.record
+      `)
+      .run(webhook.id, JSON.stringify(webhook), webhook.createdAt);
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    const rows = this.db.prepare('SELECT record FROM webhooks ORDER BY created_at').all() as Array<{ record: string }>;
+    return rows.map(row => JSON.parse(row.record));
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+  }
+
+  async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO webhook_deliveries (id, analysis_id, record, created_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET record = excluded.record
+      `)
+      .run(delivery.id, delivery.analysisId, JSON.stringify(delivery), delivery.createdAt);
+  }
+
+  async listWebhookDeliveries(analysisId: string): Promise<WebhookDelivery[]> {
+    const rows = this.db
+      .prepare('SELECT record FROM webhook_deliveries WHERE analysis_id = ? ORDER BY created_at')
+      .all(analysisId) as Array<{ record: string }>;
+    return rows.map(row => JSON.parse(row.record));
+  }
+
+  async saveApiKey(apiKey: ApiKey): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO api_keys (id, key_hash, record, created_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET record = excluded.record
+      `)
+      .run(apiKey.id, apiKey.keyHash, JSON.stringify(apiKey), apiKey.createdAt);
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    const row = this.db.prepare('SELECT record FROM api_keys WHERE id = ?').get(id) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const row = this.db.prepare('SELECT record FROM api_keys WHERE key_hash = ?').get(keyHash) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const rows = this.db.prepare('SELECT record FROM api_keys ORDER BY created_at').all() as Array<{ record: string }>;
+    return rows.map(row => JSON.parse(row.record));
+  }
+
+  async saveCredential(credential: RepositoryCredential): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO credentials (id, record, created_at) VALUES (?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET record = excluded.record
+      `)
+      .run(credential.id, JSON.stringify(credential), credential.createdAt);
+  }
+
+  async getCredential(id: string): Promise<RepositoryCredential | undefined> {
+    const row = this.db.prepare('SELECT record FROM credentials WHERE id = ?').get(id) as { record: string } | undefined;
+    return row ? JSON.parse(row.record) : undefined;
+  }
+
+  async listCredentials(): Promise<RepositoryCredential[]> {
+    const rows = this.db.prepare('SELECT record FROM credentials ORDER BY created_at').all() as Array<{ record: string }>;
+    return rows.map(row => JSON.parse(row.record));
+  }
+
+  async deleteCredential(id: string): Promise<boolean> {
+    return this.db.prepare('DELETE FROM credentials WHERE id = ?').run(id).changes > 0;
+  }
+
+  async close(): Promise<void> {
+    this.db.close();
+  }
+
+  private load(id: string, record: string): AnalysisResponse {
+    const analysis: AnalysisResponse = JSON.parse(record);
+    const rows = this.db
+      .prepare('SELECT agent, result FROM agent_results WHERE analysis_id = ?')
+      .all(id) as Array<{ agent: AgentResultKey; result: string }>;
+
+    if (rows.length > 0) {
+      analysis.result = Object.fromEntries(rows.map(row => [row.agent, JSON.parse(row.result)]));
+    }
+    return analysis;
+  }
+}
+
+/**
+ * One directory per analysis: `analysis.json` holds the record and each agent's result
+ * sits next to it as `<agent>.json`, with webhook deliveries under `deliveries/`.
+ * Registered webhooks, API keys and repository credentials sit at the top in
+ * `webhooks.json`, `api-keys.json` and `credentials.json`.
+ * Suited to development and small deployments.
+ */
+export class JsonFileAnalysisStore implements AnalysisStore {
+  readonly kind = 'json' as const;
+  private readonly writtenResults = new WrittenResults();
+  // Last queued update of each shared list file, which later updates wait for
+  private readonly listUpdates = new Map<string, Promise<unknown>>();
+
+  constructor(readonly directory: string) {}
+
+  private analysisDirectory(id: string): string {
+    // IDs come from URLs, so keep them from escaping the store directory
+    return path.join(this.directory, path.basename(id));
+  }
+
+  private get webhooksPath(): string {
+    return path.join(this.directory, 'webhooks.json');
+  }
+
+  private get apiKeysPath(): string {
+    return path.join(this.directory, 'api-keys.json');
+  }
+
+  private get credentialsPath(): string {
+    return path.join(this.directory, 'credentials.json');
+  }
+
+  private async analysisIds(): Promise<string[]> {
+    if (!(await fs.pathExists(this.directory))) return [];
+    const entries = await fs.readdir(this.directory, { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory()).map(entry => entry.name);
+  }
+
+  async get(id: string): Promise<AnalysisResponse | undefined> {
+    const analysis = await this.getRecord(id);
+    return analysis && this.withResults(analysis);
+  }
+
+  // The analysis.json record, which carries the owner and status that listings filter on
+  private async getRecord(id: string): Promise<AnalysisResponse | undefined> {
+    try {
+      return await fs.readJson(path.join(this.analysisDirectory(id), 'analysis.json'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async withResults(analysis: AnalysisResponse): Promise<AnalysisResponse> {
+    const directory = this.analysisDirectory(analysis.id);
+    const result: Partial<AgentResults> = {};
+    for (const key of AGENT_RESULT_KEYS) {
+      const resultPath = path.join(directory, `${key}.json`);
+      if (await fs.pathExists(resultPath)) {
+        result[key] = await fs.readJson(resultPath);
+      }
+    }
+    if (Object.keys(result).length > 0) analysis.result = result;
+
+    return analysis;
+  }
+
+  async list(options: AnalysisListOptions = {}): Promise<AnalysisResponse[]> {
+    const analyses: AnalysisResponse[] = [];
+    for (const id of await this.analysisIds()) {
+      const analysis = await this.getRecord(id);
+      if (!analysis) continue;
+      if (options.status && !options.status.includes(analysis.status)) continue;
+      if (options.owner !== undefined && analysis.owner !== options.owner) continue;
+      analyses.push(options.results === false ? analysis : await this.withResults(analysis));
+    }
+    return analyses.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async save(analysis: AnalysisResponse): Promise<void> {
+    const { record, results } = splitAnalysis(analysis);
+    const pending = this.writtenResults.pending(record.id, results);
+    const directory = this.analysisDirectory(record.id);
+
+    await fs.ensureDir(directory);
+    for (const [agent, result] of pending) {
+      await this.write(path.join(directory, `${agent}.json`), result);
+    }
+    for (const key of AGENT_RESULT_KEYS.filter(key => results[key] === undefined)) {
+      await fs.remove(path.join(directory, `${key}.json`));
+    }
+    // The record goes last, so a record never points at results that aren't written yet
+    await this.write(path.join(directory, 'analysis.json'), record);
+
+    this.writtenResults.markWritten(record.id, pending);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const directory = this.analysisDirectory(id);
+    if (!(await fs.pathExists(directory))) return false;
+    await fs.remove(directory);
+    return true;
+  }
+
+  async deleteCompletedBefore(before: Date): Promise<number> {
+    let removed = 0;
+    for (const id of await this.analysisIds()) {
+      try {
+        const record: AnalysisResponse = await fs.readJson(path.join(this.analysisDirectory(id), 'analysis.json'));
+        if (isAnalysisFinished(record) && record.completedAt && new Date(record.completedAt) < before) {
+          await fs.remove(this.analysisDirectory(id));
+          removed++;
+        }
+      } catch (error) {
+        logWarn(`Skipping unreadable stored analysis ${id}: ${(error as Error).message}`);
+      }
+    }
+    return removed;
+  }
+
+  async saveAgentVersion(id: string, agent: AgentResultKey, version: number, result: object): Promise<void> {
+    const directory = this.analysisDirectory(id);
+    await fs.ensureDir(directory);
+    await this.write(path.join(directory, `${agent}.v${version}.json`), result);
+  }
+
+  async getAgentVersion(id: string, agent: AgentResultKey, version: number): Promise<object | undefined> {
+    try {
+      return await fs.readJson(path.join(this.analysisDirectory(id), `${agent}.v${version}.json`));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async saveWebhook(webhook: Webhook): Promise<void> {
+    await this.updateList(this.webhooksPath, async () => {
+      const webhooks = (await this.listWebhooks()).filter(existing => existing.id !== webhook.id);
+      await fs.ensureDir(this.directory);
+      await this.write(this.webhooksPath, [...webhooks, webhook]);
+    });
+  }
+
+  async listWebhooks(): Promise<Webhook[]> {
+    try {
+      return await fs.readJson(this.webhooksPath);
+    } catch {
+      return [];
+    }
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    return this.updateList(this.webhooksPath, async () => {
+      const webhooks = await this.listWebhooks();
+      const remaining = webhooks.filter(webhook => webhook.id !== id);
+      if (remaining.length === webhooks.length) return false;
+      await this.write(this.webhooksPath, remaining);
+      return true;
+    });
+  }
+
+  async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> {
+    const directory = this.analysisDirectory(delivery.analysisId);
+    // Like the SQLite foreign key: a deleted analysis doesn't come back as a directory of deliveries
+    if (!(await fs.pathExists(path.join(directory, 'analysis.json')))) {
+      throw new Error(`Analysis ${delivery.analysisId} does not exist`);
+    }
+    await fs.ensureDir(path.join(directory, 'deliveries'));
+    await this.write(path.join(directory, 'deliveries', `${path.basename(delivery.id)}.json`), delivery);
+  }
+
+  async listWebhookDeliveries(analysisId: string): Promise<WebhookDelivery[]> {
+    const directory = path.join(this.analysisDirectory(analysisId), 'deliveries');
+    if (!(await fs.pathExists(directory))) return [];
+
+    const deliveries: WebhookDelivery[] = [];
+    for (const file of await fs.readdir(directory)) {
+      if (file.endsWith('.json')) deliveries.push(await fs.readJson(path.join(directory, file)));
+    }
+    return deliveries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async saveApiKey(apiKey: ApiKey): Promise<void> {
+    await this.updateList(this.apiKeysPath, async () => {
+      const apiKeys = (await this.listApiKeys()).filter(existing => existing.id !== apiKey.id);
+      await fs.ensureDir(this.directory);
+      await this.write(this.apiKeysPath, [...apiKeys, apiKey]);
+    });
+  }
+
+  async getApiKey(id: string): Promise<ApiKey | undefined> {
+    return (await this.listApiKeys()).find(apiKey => apiKey.id === id);
+  }
+
+  async findApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return (await this.listApiKeys()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    try {
+      return await fs.readJson(this.apiKeysPath);
+    } catch {
+      return [];
+    }
+  }
+
+  async saveCredential(credential: RepositoryCredential): Promise<void> {
+    await this.updateList(this.credentialsPath, async () => {
+      const credentials = (await this.listCredentials()).filter(existing => existing.id !== credential.id);
+      await fs.ensureDir(this.directory);
+      await this.write(this.credentialsPath, [...credentials, credential]);
+    });
+  }
+
+  async getCredential(id: string): Promise<RepositoryCredential | undefined> {
+    return (await this.listCredentials()).find(credential => credential.id === id);
+  }
+
+  async listCredentials(): Promise<RepositoryCredential[]> {
+    try {
+      return await fs.readJson(this.credentialsPath);
+    } catch {
+      return [];
+    }
+  }
+
+  async deleteCredential(id: string): Promise<boolean> {
+    return this.updateList(this.credentialsPath, async () => {
+      const credentials = await this.listCredentials();
+      const remaining = credentials.filter(credential => credential.id !== id);
+      if (remaining.length === credentials.length) return false;
+      await this.write(this.credentialsPath, remaining);
+      return true;
+    });
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Runs a read-modify-write of a file holding a whole list, such as webhooks.json, after
+   * the updates of that file queued before it, so concurrent saves don't drop each other's entries
+   */
+  private updateList<T>(filePath: string, update: () => Promise<T>): Promise<T> {
+    const result = (this.listUpdates.get(filePath) ?? Promise.resolve()).then(update);
+    const settled = result.catch(() => undefined);
+    this.listUpdates.set(filePath, settled);
+    void settled.then(() => {
+      if (this.listUpdates.get(filePath) === settled) this.listUpdates.delete(filePath);
+    });
+    return result;
+  }
+
+  // Writes through a temporary file so a crash never leaves a half-written record; the name
+  // is unique, so concurrent writes of one file never share a temporary file
+  private async write(filePath: string, data: unknown): Promise<void> {
+    const temporary = `${filePath}.${process.pid}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    try {
+      await fs.writeFile(temporary, JSON.stringify(data));
+      await fs.rename(temporary, filePath);
+    } catch (error) {
+      await fs.remove(temporary);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Opens the store named by a database URL: `sqlite:<file>` (or `sqlite::memory:`) for
+ * SQLite, `json:<directory>` for one JSON file per analysis and agent result.
+ */
+export function createAnalysisStore(databaseUrl: string = process.env.DATABASE_URL || DEFAULT_DATABASE_URL): AnalysisStore {
+  const match = databaseUrl.match(/^(sqlite|json):(?:\/\/)?(.+)$/);
+  if (!match) {
+    throw new Error(`Unsupported DATABASE_URL "${databaseUrl}": expected sqlite:<file> or json:<directory>`);
+  }
+
+  const [, scheme, location] = match;
+  const store = scheme === 'sqlite'
+    ? new SqliteAnalysisStore(location === ':memory:' ? location : path.resolve(location))
+    : new JsonFileAnalysisStore(path.resolve(location));
+
+  logInfo('Opened analysis store', { kind: store.kind, location });
+  return store;
+}
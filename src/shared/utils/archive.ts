@@ -0,0 +1,173 @@
+import zlib from 'zlib';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+const BLOCK_SIZE = 512;
+
+export interface ArchiveExtractOptions {
+  /** Decides from the entry path (relative to the archive root) and size whether to keep its content */
+  accept: (path: string, size: number) => boolean;
+  /** Called after each accepted entry has been read */
+  onEntry?: (path: string) => void;
+  /** Drop the first path segment, e.g. the `owner-repo-sha/` folder GitHub wraps tarballs in */
+  stripRootDirectory?: boolean;
+}
+
+interface PendingEntry {
+  path: string;
+  size: number;
+  remaining: number;
+  padding: number;
+  keep: boolean;
+  meta: boolean;
+  typeflag: string;
+  chunks: Buffer[];
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString('utf-8');
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const value = readString(block, offset, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+  // Records look like "<length> <key>=<value>\n"
+  for (const record of data.toString('utf-8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/);
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+/**
+ * Streaming ustar reader that keeps only accepted entries in memory. Understands the
+ * pax (`x`) and GNU long-name (`L`) headers that GitHub and git-archive produce.
+ */
+class TarExtractor extends Writable {
+  readonly entries = new Map<string, Buffer>();
+  private buffered: Buffer = Buffer.alloc(0);
+  private current?: PendingEntry;
+  private overridePath?: string;
+  private finished = false;
+
+  constructor(private readonly options: ArchiveExtractOptions) {
+    super();
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+    try {
+      this.buffered = this.buffered.length ? Buffer.concat([this.buffered, chunk]) : chunk;
+      this.drain();
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private drain() {
+    while (!this.finished) {
+      if (this.current) {
+        if (!this.consumeData(this.current)) return;
+        continue;
+      }
+
+      if (this.buffered.length < BLOCK_SIZE) return;
+
+      const header = this.buffered.subarray(0, BLOCK_SIZE);
+      this.buffered = this.buffered.subarray(BLOCK_SIZE);
+
+      if (header.every(byte => byte === 0)) {
+        this.finished = true;
+        return;
+      }
+
+      this.current = this.parseHeader(header);
+    }
+  }
+
+  private parseHeader(header: Buffer): PendingEntry {
+    const name = readString(header, 0, 100);
+    const prefix = readString(header, 345, 155);
+    const size = readOctal(header, 124, 12);
+    const typeflag = String.fromCharCode(header[156] || 48);
+    const meta = typeflag === 'x' || typeflag === 'L' || typeflag === 'g';
+
+    let path = this.overridePath || (prefix ? `${prefix}/${name}` : name);
+    if (!meta) {
+      this.overridePath = undefined;
+    }
+
+    if (this.options.stripRootDirectory) {
+      path = path.split('/').slice(1).join('/');
+    }
+
+    const isFile = typeflag === '0' || typeflag === '\0' || typeflag === '7';
+    const keep = meta || (isFile && path.length > 0 && this.options.accept(path, size));
+
+    return {
+      path,
+      size,
+      remaining: size,
+      padding: (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE,
+      keep,
+      meta,
+      typeflag,
+      chunks: []
+    };
+  }
+
+  /** Returns false when more input is needed to finish the current entry */
+  private consumeData(entry: PendingEntry): boolean {
+    if (entry.remaining > 0) {
+      if (this.buffered.length === 0) return false;
+
+      const take = Math.min(entry.remaining, this.buffered.length);
+      if (entry.keep) {
+        entry.chunks.push(this.buffered.subarray(0, take));
+      }
+      this.buffered = this.buffered.subarray(take);
+      entry.remaining -= take;
+
+      if (entry.remaining > 0) return false;
+    }
+
+    if (this.buffered.length < entry.padding) return false;
+    this.buffered = this.buffered.subarray(entry.padding);
+
+    if (entry.keep) {
+      const data = Buffer.concat(entry.chunks);
+      if (entry.typeflag === 'x') {
+        this.overridePath = parsePaxPath(data);
+      } else if (entry.typeflag === 'L') {
+        this.overridePath = data.toString('utf-8').replace(/\0+$/, '');
+      } else if (!entry.meta) {
+        this.entries.set(entry.path, data);
+        this.options.onEntry?.(entry.path);
+      }
+    }
+
+    this.current = undefined;
+    return true;
+  }
+}
+
+/**
+ * Extracts the accepted entries of a gzipped tarball stream into memory.
+ */
+export async function extractTarGz(input: Readable, options: ArchiveExtractOptions): Promise<Map<string, Buffer>> {
+  const extractor = new TarExtractor(options);
+  await pipeline(input, zlib.createGunzip(), extractor);
+  return extractor.entries;
+}
+
+/**
+ * Treats content with NUL bytes near the start as binary, like git does.
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import { AnalysisResponse, ApiKey, Principal, UserRole } from '../types';
+import { AnalysisStore } from './analysis-store';
+import { logWarn } from './logger';
+
+export const USER_ROLES: UserRole[] = ['viewer', 'analyst', 'admin'];
+
+export const API_KEY_PREFIX = 'alm_';
+
+// The key set through ADMIN_API_KEY acts as this admin
+const ENV_ADMIN_KEY_ID = 'env-admin';
+
+export interface AuthServiceOptions {
+  adminKey?: string; // accepted as an admin key without being stored
+  tokenSecret?: string; // signs session tokens; a random one makes them last until the next restart
+  tokenTtlMs?: number;
+}
+
+export interface SessionToken {
+  token: string;
+  expiresAt: string;
+}
+
+export function hasRole(principal: Principal, role: UserRole): boolean {
+  return USER_ROLES.indexOf(principal.role) >= USER_ROLES.indexOf(role);
+}
+
+/** Admins see every analysis; everyone else only their own */
+export function canAccessAnalysis(principal: Principal, analysis: Pick<AnalysisResponse, 'owner'>): boolean {
+  return principal.role === 'admin' || analysis.owner === principal.owner;
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Checks API keys and the session tokens exchanged for them. Keys are stored as hashes
+ * only. A session token names its key and is signed with HMAC-SHA256; it acts with the
+ * key's current owner and role, and stops working as soon as the key is revoked.
+ */
+export class AuthService {
+  private readonly adminKeyHash?: string;
+  private readonly tokenSecret: string;
+  private readonly tokenTtlMs: number;
+
+  constructor(private readonly store: AnalysisStore, options: AuthServiceOptions = {}) {
+    const adminKey = options.adminKey ?? (process.env.ADMIN_API_KEY || undefined);
+    this.adminKeyHash = adminKey ? hashApiKey(adminKey) : undefined;
+    this.tokenSecret = options.tokenSecret ?? (process.env.AUTH_TOKEN_SECRET || crypto.randomBytes(32).toString('hex'));
+    this.tokenTtlMs = options.tokenTtlMs ?? (Number(process.env.AUTH_TOKEN_TTL_HOURS) || 12) * 60 * 60 * 1000;
+  }
+
+  /** Creates a key; the returned `key` is not stored and can't be shown again */
+  async createApiKey(name: string, owner: string, role: UserRole): Promise<{ key: string; apiKey: ApiKey }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const apiKey: ApiKey = {
+      id: crypto.randomUUID(),
+      name,
+      owner,
+      role,
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      createdAt: new Date().toISOString()
+    };
+    await this.store.saveApiKey(apiKey);
+    return { key, apiKey };
+  }
+
+  /** The principal behind an API key or session token, or undefined if it isn't valid */
+  async authenticate(credential: string): Promise<Principal | undefined> {
+    const keyHash = hashApiKey(credential);
+    if (this.adminKeyHash && crypto.timingSafeEqual(Buffer.from(keyHash), Buffer.from(this.adminKeyHash))) {
+      return { owner: 'admin', role: 'admin', keyId: ENV_ADMIN_KEY_ID };
+    }
+    // Generated keys are base64url, so only session tokens have a dot
+    if (!credential.includes('.')) {
+      return this.principalOf(await this.store.findApiKeyByHash(keyHash));
+    }
+
+    const keyId = this.verifyToken(credential);
+    if (!keyId) return undefined;
+    if (keyId === ENV_ADMIN_KEY_ID) {
+      return this.adminKeyHash ? { owner: 'admin', role: 'admin', keyId } : undefined;
+    }
+    return this.principalOf(await this.store.getApiKey(keyId));
+  }
+
+  issueToken(principal: Principal): SessionToken {
+    const expiresAt = new Date(Date.now() + this.tokenTtlMs);
+    const payload = base64url(JSON.stringify({ keyId: principal.keyId, exp: expiresAt.getTime() }));
+    return { token: `${payload}.${this.sign(payload)}`, expiresAt: expiresAt.toISOString() };
+  }
+
+  /** Warns when nobody could sign in to create the first keys */
+  async warnIfNoAdmin(): Promise<void> {
+    if (this.adminKeyHash) return;
+    const apiKeys = await this.store.listApiKeys();
+    if (!apiKeys.some(apiKey => apiKey.role === 'admin' && !apiKey.revokedAt)) {
+      logWarn('No admin API key exists; set ADMIN_API_KEY to create keys through /api/admin/keys');
+    }
+  }
+
+  private principalOf(apiKey: ApiKey | undefined): Principal | undefined {
+    if (!apiKey || apiKey.revokedAt) return undefined;
+    return { owner: apiKey.owner, role: apiKey.role, keyId: apiKey.id };
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', this.tokenSecret).update(payload).digest('base64url');
+  }
+
+  // The key ID of a well-signed, unexpired token
+  private verifyToken(token: string): string | undefined {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) return undefined;
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined;
+
+    try {
+      const { keyId, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      return typeof keyId === 'string' && typeof exp === 'number' && exp > Date.now() ? keyId : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
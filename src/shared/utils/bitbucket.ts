@@ -0,0 +1,250 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { Repository, FileInfo, FileListing, RequestBudgetUsage } from '../types';
+import { logInfo, logError, logWarn } from './logger';
+import { extractTarGz } from './archive';
+import { RateLimiter } from './rate-limiter';
+
+interface BitbucketPage<T> {
+  values: T[];
+  isLastPage: boolean;
+  nextPageStart?: number;
+}
+
+interface BitbucketRepository {
+  slug: string;
+  description?: string;
+  project?: { key: string };
+  links?: { self?: { href: string }[] };
+}
+
+export interface BitbucketRepositoryRef {
+  projectKey: string;
+  slug: string;
+}
+
+const FILES_PAGE_SIZE = 1000;
+
+/**
+ * Client for the Bitbucket Server / Data Center REST API (1.0). `baseURL` is the
+ * instance root including any context path, e.g. `https://bitbucket.example.com/bitbucket`.
+ */
+export class BitbucketServerClient {
+  private readonly baseURL: string;
+  private readonly token?: string;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(baseURL: string, token?: string, rateLimiter: RateLimiter = new RateLimiter()) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    this.token = token;
+    this.rateLimiter = rateLimiter;
+  }
+
+  private get<T = unknown>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.rateLimiter.execute(signal => axios.get<T>(url, { ...config, signal, headers: this.getHeaders() }));
+  }
+
+  getRequestUsage(): RequestBudgetUsage {
+    return this.rateLimiter.getUsage();
+  }
+
+  private getHeaders() {
+    return {
+      'Accept': 'application/json',
+      'User-Agent': 'ai-legacy-migration-suite',
+      ...(this.token && { 'Authorization': `Bearer ${this.token}` })
+    };
+  }
+
+  private repositoryUrl({ projectKey, slug }: BitbucketRepositoryRef): string {
+    return `${this.baseURL}/rest/api/1.0/projects/${encodeURIComponent(projectKey)}/repos/${encodeURIComponent(slug)}`;
+  }
+
+  async getRepositoryInfo(ref: BitbucketRepositoryRef): Promise<Repository> {
+    const label = `${ref.projectKey}/${ref.slug}`;
+
+    try {
+      logInfo(`Fetching repository info for ${label}`);
+
+      const response = await this.get<BitbucketRepository>(this.repositoryUrl(ref));
+      const data = response.data;
+
+      return {
+        url: data.links?.self?.[0]?.href ?? `${this.baseURL}/projects/${ref.projectKey}/repos/${ref.slug}`,
+        name: data.slug,
+        owner: data.project?.key ?? ref.projectKey,
+        description: data.description,
+        branch: await this.getDefaultBranch(ref)
+      };
+    } catch (error) {
+      logError(`Failed to fetch repository info for ${label}`, error as Error);
+      throw new Error(`Failed to fetch repository info: ${(error as Error).message}`);
+    }
+  }
+
+  /** Resolves a branch, tag or (abbreviated) commit SHA to the full commit SHA */
+  async resolveCommitSha(ref: BitbucketRepositoryRef, at: string): Promise<string> {
+    try {
+      logInfo(`Resolving ref ${at} for ${ref.projectKey}/${ref.slug}`);
+
+      const response = await this.get<{ id: string }>(`${this.repositoryUrl(ref)}/commits/${encodeURIComponent(at)}`);
+      return response.data.id;
+    } catch (error) {
+      logError(`Failed to resolve ref ${at} for ${ref.projectKey}/${ref.slug}`, error as Error);
+      throw new Error(`Failed to resolve ref ${at}: ${(error as Error).message}`);
+    }
+  }
+
+  private async getDefaultBranch(ref: BitbucketRepositoryRef): Promise<string> {
+    try {
+      const response = await this.get<{ displayId: string }>(`${this.repositoryUrl(ref)}/branches/default`);
+      return response.data.displayId;
+    } catch (error) {
+      // Empty repositories have no default branch yet
+      logWarn(`Failed to fetch default branch for ${ref.projectKey}/${ref.slug}: ${(error as Error).message}`);
+      return 'HEAD';
+    }
+  }
+
+  async getFileContent(ref: BitbucketRepositoryRef, path: string, at?: string): Promise<string> {
+    try {
+      logInfo(`Fetching file content for ${ref.projectKey}/${ref.slug}/${path}`);
+
+      const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+      const response = await this.get<string>(
+        `${this.repositoryUrl(ref)}/raw/${encodedPath}`,
+        { params: at ? { at } : {}, responseType: 'text', transformResponse: data => data }
+      );
+
+      return response.data;
+    } catch (error) {
+      logError(`Failed to fetch file content for ${ref.projectKey}/${ref.slug}/${path}`, error as Error);
+      throw new Error(`Failed to fetch file content: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lists every file path at a ref through the paged `/files` endpoint. Directories are
+   * derived from the file paths; Bitbucket does not report sizes here, so files carry no `size`.
+   */
+  async getAllFiles(ref: BitbucketRepositoryRef, at?: string, maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    const label = `${ref.projectKey}/${ref.slug}`;
+    const files: FileInfo[] = [];
+    const directories = new Set<string>();
+    let complete = true;
+    let start: number | undefined = 0;
+
+    const prefix = subpath ? `${subpath}/` : '';
+
+    // Paths under a subpath come back relative to it
+    const add = (relativePath: string) => {
+      const filePath = `${prefix}${relativePath}`;
+      const segments = filePath.split('/');
+      const firstLevel = prefix ? subpath.split('/').length + 1 : 1;
+      for (let i = firstLevel; i < segments.length; i++) {
+        const directory = segments.slice(0, i).join('/');
+        if (directories.has(directory)) continue;
+        directories.add(directory);
+        files.push({ path: directory, name: segments[i - 1], type: 'directory' });
+      }
+
+      const name = segments[segments.length - 1];
+      files.push({
+        path: filePath,
+        name,
+        type: 'file',
+        extension: name.includes('.') ? name.split('.').pop() : undefined
+      });
+    };
+
+    try {
+      while (start !== undefined) {
+        logInfo(`Fetching file list for ${label} from ${start}`);
+
+        const response: AxiosResponse<BitbucketPage<string>> = await this.get<BitbucketPage<string>>(
+          `${this.repositoryUrl(ref)}/files${subpath ? `/${subpath.split('/').map(encodeURIComponent).join('/')}` : ''}`,
+          { params: { start, limit: FILES_PAGE_SIZE, ...(at && { at }) } }
+        );
+
+        for (const relativePath of response.data.values) {
+          if (files.length >= maxFiles) {
+            complete = false;
+            break;
+          }
+          add(relativePath);
+        }
+
+        start = complete && !response.data.isLastPage ? response.data.nextPageStart : undefined;
+      }
+    } catch (error) {
+      if (this.rateLimiter.isExhausted() || files.length === 0) {
+        logError(`Failed to list files for ${label}`, error as Error);
+        throw new Error(`Failed to fetch repository files: ${(error as Error).message}`);
+      }
+      complete = false;
+      logWarn(`File listing for ${label} stopped early: ${(error as Error).message}`);
+    }
+
+    if (!complete) {
+      logWarn(`File listing for ${label} is incomplete`, { listed: files.length, maxFiles });
+    }
+
+    return { files, complete, method: 'bitbucket-files' };
+  }
+
+  /**
+   * Downloads a tar.gz archive of a ref and returns the accepted files. Bitbucket
+   * archives have no wrapping root folder unless a prefix is requested.
+   */
+  async getArchiveContents(
+    ref: BitbucketRepositoryRef,
+    at: string,
+    accept: (path: string, size: number) => boolean,
+    onEntry?: (path: string) => void
+  ): Promise<Map<string, Buffer>> {
+    const label = `${ref.projectKey}/${ref.slug}`;
+
+    try {
+      logInfo(`Downloading archive for ${label}@${at}`);
+
+      const response = await this.get<Readable>(
+        `${this.repositoryUrl(ref)}/archive`,
+        { params: { at, format: 'tgz' }, responseType: 'stream' }
+      );
+
+      const entries = await extractTarGz(response.data, { accept, onEntry });
+      logInfo(`Extracted ${entries.size} files from archive for ${label}`);
+
+      return entries;
+    } catch (error) {
+      logError(`Failed to download archive for ${label}@${at}`, error as Error);
+      throw new Error(`Failed to download repository archive: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Understands browse URLs (`/projects/KEY/repos/slug`), personal repositories
+   * (`/users/name/repos/slug`), HTTP clone URLs (`/scm/key/slug.git`) and SSH clone URLs.
+   */
+  static parseRepositoryUrl(url: string): BitbucketRepositoryRef & { contextPath: string } {
+    const browse = url.match(/^https?:\/\/[^/]+(\/.*?)?\/(projects|users)\/([^/]+)\/repos\/([^/?#]+)/);
+    if (browse) {
+      return {
+        contextPath: browse[1] || '',
+        projectKey: browse[2] === 'users' ? `~${browse[3]}` : browse[3],
+        slug: browse[4]
+      };
+    }
+
+    const clone = url.match(/^(?:https?:\/\/[^/]+(\/.*?)?\/scm|ssh:\/\/[^/]+)\/([^/]+)\/([^/?#]+?)(?:\.git)?\/?$/);
+    if (clone) {
+      return {
+        contextPath: clone[1] || '',
+        projectKey: clone[2],
+        slug: clone[3]
+      };
+    }
+
+    throw new Error('Invalid Bitbucket Server repository URL');
+  }
+}
@@ -0,0 +1,49 @@
+import fs from 'fs-extra';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { SqliteSaver } from '@langchain/langgraph-checkpoint-sqlite';
+import { DEFAULT_DATABASE_URL } from './analysis-store';
+import { logInfo } from './logger';
+
+function openDatabase(filename: string): Database.Database {
+  if (filename !== ':memory:') fs.ensureDirSync(path.dirname(filename));
+  return new Database(filename);
+}
+
+/**
+ * LangGraph checkpoints in SQLite, so a pipeline run cut off by a restart can resume
+ * from its last finished step. Threads are dropped once their run is over.
+ */
+export class SqliteCheckpointer extends SqliteSaver {
+  constructor(readonly filename: string) {
+    super(openDatabase(filename));
+  }
+
+  /** Deletes every checkpoint and pending write of a thread */
+  async deleteThread(threadId: string): Promise<void> {
+    this.setup();
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM writes WHERE thread_id = ?').run(threadId);
+      this.db.prepare('DELETE FROM checkpoints WHERE thread_id = ?').run(threadId);
+    })();
+  }
+}
+
+/**
+ * Opens the checkpointer that goes with the store named by a database URL: the same
+ * SQLite file, or `checkpoints.db` in the directory of a JSON store.
+ */
+export function createCheckpointer(databaseUrl: string = process.env.DATABASE_URL || DEFAULT_DATABASE_URL): SqliteCheckpointer {
+  const match = databaseUrl.match(/^(sqlite|json):(?:\/\/)?(.+)$/);
+  if (!match) {
+    throw new Error(`Unsupported DATABASE_URL "${databaseUrl}": expected sqlite:<file> or json:<directory>`);
+  }
+
+  const [, scheme, location] = match;
+  const filename = scheme === 'sqlite'
+    ? (location === ':memory:' ? location : path.resolve(location))
+    : path.join(path.resolve(location), 'checkpoints.db');
+
+  logInfo('Opened pipeline checkpoints', { location: filename });
+  return new SqliteCheckpointer(filename);
+}
@@ -0,0 +1,28 @@
+/**
+ * Maps items through an async worker with at most `limit` calls in flight.
+ * Results keep the input order; `onItemDone` fires as each item settles.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>,
+  onItemDone?: (completed: number, total: number, item: T) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+      completed++;
+      onItemDone?.(completed, items.length, items[index]);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, runWorker));
+
+  return results;
+}
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { RepositoryCredential } from '../types';
+import { AnalysisStore } from './analysis-store';
+import { getRepositoryHost } from './repository-providers';
+
+export interface CredentialVaultOptions {
+  encryptionKey?: string; // any string; credentials can't be stored or used without it
+}
+
+/**
+ * Stores repository access tokens encrypted with AES-256-GCM under a key derived from
+ * CREDENTIALS_ENCRYPTION_KEY, so the store alone never reveals them. Tokens are only
+ * decrypted for their owner's analyses of repositories on the credential's host.
+ */
+export class CredentialVault {
+  private readonly key?: Buffer;
+
+  constructor(private readonly store: AnalysisStore, options: CredentialVaultOptions = {}) {
+    const encryptionKey = options.encryptionKey ?? (process.env.CREDENTIALS_ENCRYPTION_KEY || undefined);
+    this.key = encryptionKey ? crypto.createHash('sha256').update(encryptionKey).digest() : undefined;
+  }
+
+  get isConfigured(): boolean {
+    return this.key !== undefined;
+  }
+
+  async create(name: string, owner: string, host: string, token: string): Promise<RepositoryCredential> {
+    const credential: RepositoryCredential = {
+      id: crypto.randomUUID(),
+      name,
+      owner,
+      host: host.toLowerCase(),
+      encryptedToken: this.encrypt(token),
+      createdAt: new Date().toISOString()
+    };
+    await this.store.saveCredential(credential);
+    return credential;
+  }
+
+  /**
+   * The owner's credential that may be sent to `repositoryUrl`'s host; throws a message fit
+   * for the caller when there is none
+   */
+  async find(id: string, owner: string | undefined, repositoryUrl: string): Promise<RepositoryCredential> {
+    const credential = await this.store.getCredential(id);
+    if (!credential || credential.owner !== owner || credential.analysisId) {
+      throw new Error(`Credential ${id} not found`);
+    }
+    if (getRepositoryHost(repositoryUrl) !== credential.host) {
+      throw new Error(`Credential ${id} is for ${credential.host} and can't be used for ${repositoryUrl}`);
+    }
+    return credential;
+  }
+
+  /** The token of `find()`'s credential */
+  async resolve(id: string, owner: string | undefined, repositoryUrl: string): Promise<string> {
+    return this.decrypt((await this.find(id, owner, repositoryUrl)).encryptedToken);
+  }
+
+  /**
+   * Keeps the access token sent with an analysis until `forgetAnalysisToken()`, so the
+   * analysis can read its repository again when it resumes after a restart
+   */
+  async storeAnalysisToken(analysisId: string, owner: string | undefined, repositoryUrl: string, token: string): Promise<void> {
+    const credential: RepositoryCredential = {
+      id: crypto.randomUUID(),
+      name: `Access token of analysis ${analysisId}`,
+      owner: owner ?? '',
+      host: getRepositoryHost(repositoryUrl) ?? '',
+      encryptedToken: this.encrypt(token),
+      analysisId,
+      createdAt: new Date().toISOString()
+    };
+    await this.store.saveCredential(credential);
+  }
+
+  /** The token stored for an analysis, or undefined if it has none */
+  async resolveAnalysisToken(analysisId: string): Promise<string | undefined> {
+    const credential = (await this.store.listCredentials()).find(stored => stored.analysisId === analysisId);
+    return credential && this.decrypt(credential.encryptedToken);
+  }
+
+  async forgetAnalysisToken(analysisId: string): Promise<void> {
+    for (const credential of await this.store.listCredentials()) {
+      if (credential.analysisId === analysisId) await this.store.deleteCredential(credential.id);
+    }
+  }
+
+  // `<iv>.<auth tag>.<ciphertext>`, each base64url
+  private encrypt(token: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.requireKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+    return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+  }
+
+  private decrypt(encryptedToken: string): string {
+    const key = this.requireKey();
+    const [iv, tag, ciphertext] = encryptedToken.split('.').map(part => Buffer.from(part, 'base64url'));
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+      decipher.setAuthTag(tag);
+      return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+    } catch {
+      throw new Error('Stored credential could not be decrypted; was CREDENTIALS_ENCRYPTION_KEY changed?');
+    }
+  }
+
+  private requireKey(): Buffer {
+    if (!this.key) throw new Error('Stored credentials are disabled; set CREDENTIALS_ENCRYPTION_KEY');
+    return this.key;
+  }
+}
@@ -1,4 +1,6 @@
 import winston from 'winston';
+import { ArchitectureInfo, FileInfo, FileStructure, Repository } from '../types';
+import { redactFormat } from './logger';
 import chalk from 'chalk';
 
 // Enhanced console formatter for better terminal output
@@ -50,6 +52,7 @@ const enhancedConsoleFormat = winston.format.printf(({ level, message, timestamp
 export const enhancedLogger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    redactFormat(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -93,7 +96,7 @@ class ProgressTracker {
     console.log(chalk.gray('━'.repeat(80)));
   }
   
-  step(stepName: string, details?: any) {
+  step(stepName: string, details?: string | Record<string, unknown>) {
     this.currentStep++;
     const elapsed = ((Date.now() - this.startTime) / 1000).toFixed(1);
     
@@ -124,7 +127,7 @@ class ProgressTracker {
     }
   }
   
-  success(message: string, results?: any) {
+  success(message: string, results?: Record<string, unknown>) {
     const totalTime = ((Date.now() - this.startTime) / 1000).toFixed(1);
     
     console.log(chalk.gray('━'.repeat(80)));
@@ -174,7 +177,7 @@ class ProgressTracker {
 export const progress = new ProgressTracker();
 
 // Enhanced logging functions with better terminal output
-export const logAnalysisStart = (operation: string, details?: any) => {
+export const logAnalysisStart = (operation: string, details?: Record<string, unknown>) => {
   const steps = [
     'Repository Fetch',
     'File Analysis', 
@@ -187,22 +190,22 @@ export const logAnalysisStart = (operation: string, details?: any) => {
   enhancedLogger.info(`Analysis started: ${operation}`, details);
 };
 
-export const logStep = (stepName: string, details?: any) => {
+export const logStep = (stepName: string, details?: Record<string, unknown>) => {
   progress.step(stepName, details);
   enhancedLogger.info(`Step: ${stepName}`, details);
 };
 
-export const logProgress = (message: string, current?: number, total?: number, meta?: any) => {
+export const logProgress = (message: string, current?: number, total?: number, meta?: Record<string, unknown>) => {
   progress.progress(message, current, total);
   enhancedLogger.info(message, { current, total, ...meta });
 };
 
-export const logSuccess = (message: string, results?: any) => {
+export const logSuccess = (message: string, results?: Record<string, unknown>) => {
   progress.success(message, results);
   enhancedLogger.info(`Success: ${message}`, results);
 };
 
-export const logAnalysisError = (message: string, error?: Error, meta?: any) => {
+export const logAnalysisError = (message: string, error?: Error, meta?: Record<string, unknown>) => {
   progress.error(message, error);
   enhancedLogger.error(`Analysis error: ${message}`, { 
     error: error?.message, 
@@ -212,7 +215,7 @@ export const logAnalysisError = (message: string, error?: Error, meta?: any) =>
 };
 
 // Enhanced info logging with better formatting
-export const logEnhancedInfo = (message: string, meta?: any) => {
+export const logEnhancedInfo = (message: string, meta?: Record<string, unknown>) => {
   console.log(`   ${chalk.blue('◦')} ${message}`);
   if (meta) {
     console.log(chalk.cyan(`      ${JSON.stringify(meta, null, 2)}`));
@@ -221,7 +224,7 @@ export const logEnhancedInfo = (message: string, meta?: any) => {
 };
 
 // AI interaction logging
-export const logAICall = (operation: string, prompt?: string, response?: any) => {
+export const logAICall = (operation: string, prompt?: string, response?: unknown) => {
   console.log(`   ${chalk.magenta('🤖')} AI Call: ${operation}`);
   if (prompt) {
     const truncatedPrompt = prompt.length > 100 ? prompt.substring(0, 100) + '...' : prompt;
@@ -239,7 +242,7 @@ export const logAICall = (operation: string, prompt?: string, response?: any) =>
 };
 
 // Repository analysis specific logging
-export const logRepoInfo = (repo: any) => {
+export const logRepoInfo = (repo: Repository) => {
   console.log(`   ${chalk.green('📊')} Repository Info:`);
   console.log(chalk.green(`      Name: ${repo.name}`));
   console.log(chalk.green(`      Owner: ${repo.owner}`));
@@ -251,13 +254,13 @@ export const logRepoInfo = (repo: any) => {
 };
 
 // File analysis logging
-export const logFileAnalysis = (fileStructure: any) => {
+export const logFileAnalysis = (fileStructure: Pick<FileStructure, 'totalFiles' | 'totalDirectories' | 'categories'>) => {
   console.log(`   ${chalk.cyan('📁')} File Analysis:`);
   console.log(chalk.cyan(`      Total Files: ${fileStructure.totalFiles}`));
   console.log(chalk.cyan(`      Directories: ${fileStructure.totalDirectories}`));
   
   // Show category breakdown
-  Object.entries(fileStructure.categories || {}).forEach(([category, files]: [string, any]) => {
+  Object.entries(fileStructure.categories || {}).forEach(([category, files]: [string, FileInfo[]]) => {
     if (files && files.length > 0) {
       console.log(chalk.cyan(`      ${category}: ${files.length} files`));
     }
@@ -271,7 +274,7 @@ export const logFileAnalysis = (fileStructure: any) => {
 };
 
 // Architecture analysis logging
-export const logArchitectureDetection = (patterns: string[], architecture?: any) => {
+export const logArchitectureDetection = (patterns: string[], architecture?: Pick<ArchitectureInfo, 'type' | 'complexity'>) => {
   console.log(`   ${chalk.yellow('🏗️')} Architecture Detection:`);
   
   if (patterns.length > 0) {
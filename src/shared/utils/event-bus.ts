@@ -0,0 +1,102 @@
+import { AnalysisEvent, PublishedAnalysisEvent } from '../types';
+
+export type AnalysisEventListener = (event: PublishedAnalysisEvent) => void;
+
+export interface AnalysisEventBusOptions {
+  bufferSize?: number; // events kept per analysis for Last-Event-ID replays
+  retentionMs?: number; // how long a closed analysis's events stay replayable
+}
+
+interface Channel {
+  events: PublishedAnalysisEvent[];
+  evictedSequence: number; // sequence of the newest event dropped from the buffer
+  listeners: Set<AnalysisEventListener>;
+  expiry?: NodeJS.Timeout;
+}
+
+/**
+ * In-process publish/subscribe of analysis events, keyed by analysis ID. Every analysis
+ * keeps its latest events so a stream that reconnects with Last-Event-ID gets the ones it
+ * missed. Event IDs are `<boot>.<sequence>`: the boot part changes with every process, so
+ * an ID from before a restart is never mistaken for a newer event.
+ */
+export class AnalysisEventBus {
+  private readonly bufferSize: number;
+  private readonly retentionMs: number;
+  private readonly boot = Date.now().toString(36);
+  private readonly channels = new Map<string, Channel>();
+  private sequence = 0;
+
+  constructor(options: AnalysisEventBusOptions = {}) {
+    this.bufferSize = options.bufferSize ?? 500;
+    this.retentionMs = options.retentionMs ?? 5 * 60 * 1000;
+  }
+
+  publish(analysisId: string, event: AnalysisEvent): PublishedAnalysisEvent {
+    const channel = this.channel(analysisId);
+    if (channel.expiry) {
+      clearTimeout(channel.expiry);
+      channel.expiry = undefined;
+    }
+
+    const published: PublishedAnalysisEvent = { ...event, id: `${this.boot}.${++this.sequence}`, timestamp: new Date().toISOString() };
+    channel.events.push(published);
+    if (channel.events.length > this.bufferSize) {
+      channel.evictedSequence = this.parseSequence(channel.events.shift()!.id)!;
+    }
+    for (const listener of channel.listeners) listener(published);
+    return published;
+  }
+
+  /** Listens for the analysis's events from now on; returns the function that stops listening */
+  subscribe(analysisId: string, listener: AnalysisEventListener): () => void {
+    const channel = this.channel(analysisId);
+    channel.listeners.add(listener);
+    return () => {
+      channel.listeners.delete(listener);
+      if (channel.listeners.size === 0 && channel.events.length === 0 && !channel.expiry) {
+        this.channels.delete(analysisId);
+      }
+    };
+  }
+
+  /**
+   * The events published after `lastEventId`, or undefined when some of them are no longer
+   * buffered or the ID is from another process
+   */
+  replay(analysisId: string, lastEventId: string): PublishedAnalysisEvent[] | undefined {
+    const channel = this.channels.get(analysisId);
+    const after = this.parseSequence(lastEventId);
+    if (!channel || after === undefined || after < channel.evictedSequence) return undefined;
+    return channel.events.filter(event => this.parseSequence(event.id)! > after);
+  }
+
+  /** ID of the analysis's latest event, if any is buffered */
+  lastEventId(analysisId: string): string | undefined {
+    const events = this.channels.get(analysisId)?.events;
+    return events?.[events.length - 1]?.id;
+  }
+
+  /** Called once an analysis has finished: its events stay replayable for a while, then go */
+  close(analysisId: string): void {
+    const channel = this.channels.get(analysisId);
+    if (!channel || channel.expiry) return;
+    channel.expiry = setTimeout(() => {
+      this.channels.delete(analysisId);
+    }, this.retentionMs).unref();
+  }
+
+  private channel(analysisId: string): Channel {
+    let channel = this.channels.get(analysisId);
+    if (!channel) {
+      channel = { events: [], evictedSequence: 0, listeners: new Set() };
+      this.channels.set(analysisId, channel);
+    }
+    return channel;
+  }
+
+  private parseSequence(id: string): number | undefined {
+    const [boot, sequence] = id.split('.');
+    return boot === this.boot && /^\d+$/.test(sequence ?? '') ? Number(sequence) : undefined;
+  }
+}
@@ -1,4 +1,7 @@
-import { FileInfo, FileCategory } from '../types';
+import { FileInfo, FileCategory, FileClassification, ExclusionReason } from '../types';
+import { matchesGlob } from './glob';
+import { IgnoreRules } from './ignore-rules';
+import { detectLanguage } from './languages';
 
 // File extension mappings
 const FILE_CATEGORY_MAPPINGS: Record<string, FileCategory> = {
@@ -24,6 +27,34 @@ const FILE_CATEGORY_MAPPINGS: Record<string, FileCategory> = {
   'jsp': 'source',
   'ejb': 'source',
   
+  // Legacy source files
+  'cbl': 'source',
+  'cob': 'source',
+  'cobol': 'source',
+  'cpy': 'source',
+  'jcl': 'source',
+  'pks': 'source',
+  'pkb': 'source',
+  'pls': 'source',
+  'plb': 'source',
+  'prc': 'source',
+  'fnc': 'source',
+  'trg': 'source',
+  'sql': 'source',
+  'bas': 'source',
+  'frm': 'source',
+  'cls': 'source',
+  'ctl': 'source',
+  'pas': 'source',
+  'dpr': 'source',
+  'dpk': 'source',
+  'dfm': 'source',
+  'pl': 'source',
+  'pm': 'source',
+  'cgi': 'source',
+  'asp': 'source',
+  'asa': 'source',
+  
   // Configuration files
   'json': 'config',
   'yaml': 'config',
@@ -51,6 +82,8 @@ const FILE_CATEGORY_MAPPINGS: Record<string, FileCategory> = {
   'makefile': 'build',
   'gradle': 'build',
   'cmake': 'build',
+  'vbp': 'build',
+  'dproj': 'build',
   
   // Assets
   'png': 'asset',
@@ -102,6 +135,9 @@ const SPECIAL_FILES: Record<string, FileCategory> = {
   'build.gradle': 'build',
   'build.xml': 'build',
   'CMakeLists.txt': 'build',
+  'Jenkinsfile': 'build',
+  'Rakefile': 'build',
+  'Vagrantfile': 'build',
   
   '.gitignore': 'config',
   '.eslintrc.js': 'config',
@@ -113,29 +149,71 @@ const SPECIAL_FILES: Record<string, FileCategory> = {
   'jest.config.js': 'config',
 };
 
-export function categorizeFile(file: FileInfo): FileCategory {
-  const fileName = file.name.toLowerCase();
-  
-  // Check special files first
-  if (SPECIAL_FILES[fileName]) {
-    return SPECIAL_FILES[fileName];
+// Manifests that mark the root of a buildable project: the dependency manifests
+// above (without lock files) plus build scripts that define a project on their own
+export const PROJECT_MANIFESTS: string[] = [
+  ...Object.keys(SPECIAL_FILES).filter(name =>
+    SPECIAL_FILES[name] === 'dependency' && !/(\.lock|-lock\.json|\.sum)$/.test(name)
+  ),
+  'build.gradle',
+  'build.xml',
+  'CMakeLists.txt'
+];
+
+// SPECIAL_FILES by lower-case name, as README and Makefile come in several casings
+const SPECIAL_FILES_BY_NAME: Record<string, FileCategory> = Object.fromEntries(
+  Object.entries(SPECIAL_FILES).map(([name, category]) => [name.toLowerCase(), category])
+);
+
+// Test frameworks a file imports or uses, for tests that don't follow a naming convention
+const TEST_CONTENT_PATTERNS = [
+  /(?:from\s+|require\(\s*)['"](?:jest|mocha|chai|vitest|supertest|@testing-library\/[^'"]+)['"]/,
+  /^\s*import\s+(?:static\s+)?org\.(?:junit|testng)\./m,
+  /^\s*(?:import|from)\s+(?:pytest|unittest)\b/m,
+  /\bRSpec\.describe\b|^\s*require\s+['"](?:rspec|minitest\/autorun)['"]/m,
+  /^func\s+Test\w*\(\s*\w+\s+\*testing\.T\)/m,
+  /^\s*\[(?:TestMethod|TestFixture|Fact|Theory)\]/m,
+  /\bextends\s+(?:\\?PHPUnit\\Framework\\)?TestCase\b/
+];
+
+/**
+ * Classifies a file from its name, path and, when loaded, its content. Source files
+ * are tests when their path follows a test convention (`src/test/java`, `__tests__`,
+ * `*.spec.ts`) or, with less confidence, when they use a test framework.
+ */
+export function classifyFile(file: FileInfo): FileClassification {
+  const match = detectLanguage(file);
+  const language = match?.language;
+
+  const special = SPECIAL_FILES_BY_NAME[file.name.toLowerCase()];
+  if (special) {
+    return { category: special, language, confidence: 1 };
   }
-  
-  // Check if it's a test file
-  if (fileName.includes('.test.') || fileName.includes('.spec.') || 
-      fileName.includes('test') || fileName.includes('spec')) {
-    return 'test';
+
+  // Some extensions are shared by text and binary formats, like VB6 forms and MySQL table
+  // definitions (.frm), so loaded content overrules the extension
+  if (file.binary || file.content?.includes('\0')) {
+    return { category: 'other', confidence: 0.9 };
   }
-  
-  // Check by extension
-  if (file.extension) {
-    const ext = file.extension.toLowerCase();
-    if (FILE_CATEGORY_MAPPINGS[ext]) {
-      return FILE_CATEGORY_MAPPINGS[ext];
+
+  const extensionCategory = file.extension ? FILE_CATEGORY_MAPPINGS[file.extension.toLowerCase()] : undefined;
+  const category = extensionCategory ?? (match ? 'source' : 'other');
+  const confidence = match?.confidence ?? (extensionCategory ? 0.9 : 0);
+
+  if (category === 'source' || category === 'test') {
+    if (isTestFile(file)) {
+      return { category: 'test', language, confidence };
+    }
+    if (file.content && TEST_CONTENT_PATTERNS.some(pattern => pattern.test(file.content!))) {
+      return { category: 'test', language, confidence: Math.min(confidence, 0.6) };
     }
   }
-  
-  return 'other';
+
+  return { category, language, confidence };
+}
+
+export function categorizeFile(file: FileInfo): FileCategory {
+  return classifyFile(file).category;
 }
 
 export function categorizeFiles(files: FileInfo[]): Record<FileCategory, FileInfo[]> {
@@ -152,8 +230,10 @@ export function categorizeFiles(files: FileInfo[]): Record<FileCategory, FileInf
   
   files.forEach(file => {
     if (file.type === 'file') {
-      const category = categorizeFile(file);
+      const { category, language, confidence } = classifyFile(file);
       file.category = category;
+      file.language = language;
+      file.confidence = confidence;
       categories[category].push(file);
     }
   });
@@ -191,6 +271,12 @@ export function identifyMainFiles(files: FileInfo[]): FileInfo[] {
     /Makefile$/,
     /README\.md$/,
     /README$/,
+    // Legacy programs: Delphi and VB6 projects, mainframe jobs, classic ASP applications
+    /\.dpr$/,
+    /\.vbp$/,
+    /\.jcl$/,
+    /global\.asa$/,
+    /(^|\/)default\.asp$/,
   ];
   
   files.forEach(file => {
@@ -216,58 +302,120 @@ export function getFileExtension(filename: string): string | undefined {
   return filename.substring(lastDotIndex + 1);
 }
 
+/**
+ * Whether a file is worth reading as text, judged by its name. Files without an extension
+ * count as text: in source trees they are scripts, Makefiles, Dockerfiles and licenses.
+ * The content loaders still drop whatever turns out to be binary.
+ */
 export function isTextFile(filename: string): boolean {
   const textExtensions = [
-    'js', 'ts', 'jsx', 'tsx', 'py', 'java', 'cpp', 'c', 'cs', 'go', 'rs', 'php', 'rb',
+    'js', 'mjs', 'cjs', 'ts', 'jsx', 'tsx', 'py', 'java', 'kts', 'cpp', 'cc', 'cxx', 'c', 'h', 'hpp', 'hh',
+    'm', 'mm', 'cs', 'fs', 'go', 'rs', 'php', 'rb', 'pl', 'pm', 'bash', 'zsh', 'cmd', 'exs', 'erl',
     'swift', 'kt', 'scala', 'dart', 'vue', 'jsp', 'ejb', 'json', 'yaml', 'yml', 'xml', 'toml', 'ini',
     'conf', 'config', 'env', 'properties', 'md', 'txt', 'rst', 'adoc', 'css', 'scss',
     'sass', 'less', 'html', 'htm', 'dockerfile', 'makefile', 'gradle', 'cmake', 'sql',
-    'sh', 'bat', 'ps1', 'r', 'lua', 'perl', 'groovy', 'clj', 'ex', 'elm', 'hs'
+    'sh', 'bat', 'ps1', 'r', 'lua', 'perl', 'groovy', 'clj', 'ex', 'elm', 'hs',
+    // Legacy languages
+    'cbl', 'cob', 'cobol', 'cpy', 'jcl', 'pks', 'pkb', 'pls', 'plb', 'prc', 'fnc', 'trg',
+    'bas', 'frm', 'cls', 'ctl', 'vbp', 'pas', 'dpr', 'dpk', 'dfm', 'dproj', 't', 'cgi', 'asp', 'asa'
   ];
   
   const extension = getFileExtension(filename.toLowerCase());
-  return extension ? textExtensions.includes(extension) : false;
+  return extension ? textExtensions.includes(extension) : true;
+}
+
+const TEST_PATH_PATTERNS = [
+  /(^|\/)(__tests__|__mocks__|tests?|specs?)\//i,
+  /[._-](test|spec)s?\.[^/]+$/i,
+  /(^|\/)test_[^/]+\.py$/i,
+  /(^|\/)t\/[^/]+\.t$/,
+  /Tests?\.(java|cs|kt|scala|groovy)$/
+];
+
+/**
+ * Recognises test sources by directory (`test/`, `__tests__/`...) and by the usual
+ * naming conventions (`*.test.ts`, `*_spec.rb`, `test_*.py`, `*Test.java`, Perl's `t/*.t`).
+ */
+export function isTestFile(file: FileInfo): boolean {
+  return TEST_PATH_PATTERNS.some(pattern => pattern.test(file.path));
 }
 
-export function shouldProcessFile(file: FileInfo, options: { maxFileSize?: number } = {}): boolean {
-  const { maxFileSize = 1024 * 1024 } = options; // 1MB default
+// Directories skipped wherever they appear: dependencies, build output and IDE state
+const DEFAULT_IGNORED_DIRECTORIES = new Set([
+  'node_modules', '.git', '.vscode', '.idea', '.vs', 'bin', 'obj', 'target', 'build', 'dist', 'out'
+]);
+
+const DEFAULT_IGNORED_FILES = [
+  /\.min\./,
+  /\.bundle\./,
+  /\.map$/,
+  /\.lock$/,
+  /\.log$/,
+  /\.tmp$/,
+  /\.cache$/
+];
+
+function isDefaultIgnored(file: FileInfo): boolean {
+  const segments = file.path.split('/');
+  const directories = segments.slice(0, -1);
+
+  return directories.some(segment => DEFAULT_IGNORED_DIRECTORIES.has(segment)) ||
+    DEFAULT_IGNORED_FILES.some(pattern => pattern.test(file.name));
+}
+
+export interface FileFilterOptions {
+  maxFileSize?: number;
+  includeTests?: boolean;
+  include?: string[];
+  exclude?: string[];
+  ignoreRules?: IgnoreRules;
+}
+
+/**
+ * Why a listed entry should be left out of the analysis, or undefined when it should be
+ * processed. Directories are never processed and report no reason.
+ */
+export function getExclusionReason(file: FileInfo, options: FileFilterOptions = {}): ExclusionReason | 'directory' | undefined {
+  const { maxFileSize = 1024 * 1024, includeTests = true, include = [], exclude = [], ignoreRules } = options; // 1MB default
   
-  // Skip directories
   if (file.type === 'directory') {
-    return false;
+    return 'directory';
   }
   
-  // Skip large files
   if (file.size && file.size > maxFileSize) {
-    return false;
+    return 'size';
   }
   
-  // Skip binary files
   if (!isTextFile(file.name)) {
-    return false;
+    return 'binary';
   }
   
-  // Skip common uninteresting files
-  const skipPatterns = [
-    /node_modules/,
-    /\.git/,
-    /\.vscode/,
-    /\.idea/,
-    /\.vs/,
-    /bin/,
-    /obj/,
-    /target/,
-    /build/,
-    /dist/,
-    /out/,
-    /\.min\./,
-    /\.bundle\./,
-    /\.map$/,
-    /\.lock$/,
-    /\.log$/,
-    /\.tmp$/,
-    /\.cache$/
-  ];
+  // The repository's own rules come before the built-in list, and can override it
+  const ruleMatch = ignoreRules?.match(file.path);
+  if (ruleMatch) {
+    return ruleMatch;
+  }
+  
+  if (isDefaultIgnored(file) && !ignoreRules?.isExplicitlyKept(file.path)) {
+    return 'default-ignore';
+  }
   
-  return !skipPatterns.some(pattern => pattern.test(file.path));
-}
\ No newline at end of file
+  // Apply the requested scope
+  if (include.length > 0 && !matchesGlob(file.path, include)) {
+    return 'scope';
+  }
+  
+  if (exclude.length > 0 && matchesGlob(file.path, exclude)) {
+    return 'scope';
+  }
+  
+  if (!includeTests && isTestFile(file)) {
+    return 'test';
+  }
+  
+  return undefined;
+}
+
+export function shouldProcessFile(file: FileInfo, options: FileFilterOptions = {}): boolean {
+  return getExclusionReason(file, options) === undefined;
+}
@@ -1,13 +1,78 @@
-import axios from 'axios';
-import { Repository, FileInfo } from '../types';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { Repository, FileInfo, FileListing, RequestBudgetUsage, CommitComparison, FileChange } from '../types';
 import { logInfo, logError, logWarn } from './logger';
+import { extractTarGz } from './archive';
+import { RateLimiter } from './rate-limiter';
+
+interface GitTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+}
+
+interface GitTree {
+  sha: string;
+  tree: GitTreeEntry[];
+  truncated: boolean;
+}
+
+interface GitHubRepository {
+  html_url: string;
+  name: string;
+  owner: { login: string };
+  description: string | null;
+  language: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  default_branch: string;
+  updated_at: string;
+}
+
+interface ContentEntry {
+  path: string;
+  name: string;
+  type: 'file' | 'dir' | 'symlink' | 'submodule';
+  size: number;
+  sha: string;
+  encoding?: string;
+  content?: string;
+}
+
+interface CompareFileEntry {
+  filename: string;
+  status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+  previous_filename?: string;
+}
+
+// The compare endpoint lists at most this many changed files
+const COMPARE_FILE_LIMIT = 300;
+
+const GITHUB_API = 'https://api.github.com';
+
+// The Git Trees API refuses trees too large to return, even truncated, with a 422
+class TreeTooLargeError extends Error {}
 
 export class GitHubClient {
-  private readonly baseURL = 'https://api.github.com';
+  private readonly baseURL: string;
   private readonly token?: string;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(token?: string, baseURL: string = GITHUB_API, rateLimiter: RateLimiter = new RateLimiter()) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    // GITHUB_TOKEN is a github.com token; Enterprise hosts get theirs from the provider
+    this.token = token || (this.baseURL === GITHUB_API ? process.env.GITHUB_TOKEN : undefined);
+    this.rateLimiter = rateLimiter;
+  }
+
+  private get<T = unknown>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.rateLimiter.execute(signal => axios.get<T>(url, { ...config, signal, headers: this.getHeaders() }));
+  }
 
-  constructor(token?: string) {
-    this.token = token || process.env.GITHUB_TOKEN;
+  getRequestUsage(): RequestBudgetUsage {
+    return this.rateLimiter.getUsage();
   }
 
   private getHeaders() {
@@ -22,10 +87,7 @@ export class GitHubClient {
     try {
       logInfo(`Fetching repository info for ${owner}/${repo}`);
       
-      const response = await axios.get(
-        `${this.baseURL}/repos/${owner}/${repo}`,
-        { headers: this.getHeaders() }
-      );
+      const response = await this.get<GitHubRepository>(`${this.baseURL}/repos/${owner}/${repo}`);
 
       const data = response.data;
       
@@ -33,8 +95,8 @@ export class GitHubClient {
         url: data.html_url,
         name: data.name,
         owner: data.owner.login,
-        description: data.description,
-        language: data.language,
+        description: data.description ?? undefined,
+        language: data.language ?? undefined,
         stars: data.stargazers_count,
         forks: data.forks_count,
         branch: data.default_branch,
@@ -46,6 +108,53 @@ export class GitHubClient {
     }
   }
 
+  /** Resolves a branch, tag or (abbreviated) commit SHA to the full commit SHA */
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    try {
+      logInfo(`Resolving ref ${ref} for ${owner}/${repo}`);
+      
+      const response = await this.get<{ sha: string }>(`${this.baseURL}/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`);
+
+      return response.data.sha;
+    } catch (error) {
+      logError(`Failed to resolve ref ${ref} for ${owner}/${repo}`, error as Error);
+      throw new Error(`Failed to resolve ref ${ref}: ${(error as Error).message}`);
+    }
+  }
+
+  /** Lists the files changed between two commits, as `git diff base head` would */
+  async compareCommits(owner: string, repo: string, baseSha: string, headSha: string): Promise<CommitComparison> {
+    try {
+      logInfo(`Comparing ${baseSha}...${headSha} for ${owner}/${repo}`);
+      
+      const response = await this.get<{ files?: CompareFileEntry[] }>(
+        `${this.baseURL}/repos/${owner}/${repo}/compare/${encodeURIComponent(baseSha)}...${encodeURIComponent(headSha)}`
+      );
+
+      const entries = response.data.files || [];
+      const files = entries
+        .filter(entry => entry.status !== 'unchanged')
+        .map((entry): FileChange => {
+          switch (entry.status) {
+            case 'renamed':
+              return { path: entry.filename, status: 'renamed', previousPath: entry.previous_filename };
+            case 'removed':
+              return { path: entry.filename, status: 'removed' };
+            case 'added':
+            case 'copied':
+              return { path: entry.filename, status: 'added' };
+            default:
+              return { path: entry.filename, status: 'modified' };
+          }
+        });
+
+      return { baseCommitSha: baseSha, headCommitSha: headSha, files, complete: entries.length < COMPARE_FILE_LIMIT };
+    } catch (error) {
+      logError(`Failed to compare ${baseSha}...${headSha} for ${owner}/${repo}`, error as Error);
+      throw new Error(`Failed to compare commits: ${(error as Error).message}`);
+    }
+  }
+
   async getRepositoryContents(owner: string, repo: string, path: string = '', branch?: string): Promise<FileInfo[]> {
     try {
       logInfo(`Fetching contents for ${owner}/${repo}${path ? `/${path}` : ''}`);
@@ -53,19 +162,17 @@ export class GitHubClient {
       const url = `${this.baseURL}/repos/${owner}/${repo}/contents/${path}`;
       const params = branch ? { ref: branch } : {};
       
-      const response = await axios.get(url, {
-        headers: this.getHeaders(),
-        params
-      });
+      const response = await this.get<ContentEntry | ContentEntry[]>(url, { params });
 
       const data = Array.isArray(response.data) ? response.data : [response.data];
       
-      return data.map((item: any) => ({
+      return data.map(item => ({
         path: item.path,
         name: item.name,
         type: item.type === 'dir' ? 'directory' : 'file',
         size: item.size,
-        extension: item.name.includes('.') ? item.name.split('.').pop() : undefined
+        extension: item.name.includes('.') ? item.name.split('.').pop() : undefined,
+        sha: item.type === 'file' ? item.sha : undefined
       }));
     } catch (error) {
       logError(`Failed to fetch contents for ${owner}/${repo}/${path}`, error as Error);
@@ -80,26 +187,53 @@ export class GitHubClient {
       const url = `${this.baseURL}/repos/${owner}/${repo}/contents/${path}`;
       const params = branch ? { ref: branch } : {};
       
-      const response = await axios.get(url, {
-        headers: this.getHeaders(),
-        params
-      });
+      const response = await this.get<ContentEntry>(url, { params });
 
       const data = response.data;
       
       if (data.encoding === 'base64') {
-        return Buffer.from(data.content, 'base64').toString('utf-8');
+        return Buffer.from(data.content ?? '', 'base64').toString('utf-8');
       }
       
-      return data.content;
+      return data.content ?? '';
     } catch (error) {
       logError(`Failed to fetch file content for ${owner}/${repo}/${path}`, error as Error);
       throw new Error(`Failed to fetch file content: ${(error as Error).message}`);
     }
   }
 
+  /**
+   * Downloads the tarball for a ref and returns the accepted files, keyed by path
+   * relative to the repository root. One request replaces a contents call per file.
+   */
+  async getArchiveContents(
+    owner: string,
+    repo: string,
+    ref: string,
+    accept: (path: string, size: number) => boolean,
+    onEntry?: (path: string) => void
+  ): Promise<Map<string, Buffer>> {
+    try {
+      logInfo(`Downloading archive for ${owner}/${repo}@${ref}`);
+      
+      const response = await this.get<Readable>(
+        `${this.baseURL}/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`,
+        { responseType: 'stream' }
+      );
+
+      const entries = await extractTarGz(response.data, { accept, onEntry, stripRootDirectory: true });
+      logInfo(`Extracted ${entries.size} files from archive for ${owner}/${repo}`);
+      
+      return entries;
+    } catch (error) {
+      logError(`Failed to download archive for ${owner}/${repo}@${ref}`, error as Error);
+      throw new Error(`Failed to download repository archive: ${(error as Error).message}`);
+    }
+  }
+
+  /** Accepts github.com and GitHub Enterprise Server web, HTTPS clone and SSH clone URLs */
   parseRepositoryUrl(url: string): { owner: string; repo: string } {
-    const match = url.match(/github\.com\/([^\/]+)\/([^\/]+)/);
+    const match = url.match(/(?:^https?:\/\/[^/]+\/|^git@[^:]+:|github\.com\/)([^/]+)\/([^/?#]+)/);
     if (!match) {
       throw new Error('Invalid GitHub repository URL');
     }
@@ -110,12 +244,127 @@ export class GitHubClient {
     };
   }
 
-  async getAllFiles(owner: string, repo: string, branch?: string, maxFiles: number = 1000): Promise<FileInfo[]> {
+  async getTree(owner: string, repo: string, treeSha: string, recursive: boolean = false): Promise<GitTree> {
+    try {
+      logInfo(`Fetching ${recursive ? 'recursive ' : ''}tree ${treeSha} for ${owner}/${repo}`);
+      
+      const response = await this.get<GitTree>(
+        `${this.baseURL}/repos/${owner}/${repo}/git/trees/${encodeURIComponent(treeSha)}`,
+        { params: recursive ? { recursive: 1 } : {} }
+      );
+
+      return response.data;
+    } catch (error) {
+      logError(`Failed to fetch tree ${treeSha} for ${owner}/${repo}`, error as Error);
+      const message = `Failed to fetch repository tree: ${(error as Error).message}`;
+      throw axios.isAxiosError(error) && error.response?.status === 422 ? new TreeTooLargeError(message) : new Error(message);
+    }
+  }
+
+  async getAllFiles(owner: string, repo: string, branch?: string, maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    try {
+      const treeSha = subpath ? await this.getSubtreeSha(owner, repo, branch || 'HEAD', subpath) : branch || 'HEAD';
+      return await this.getAllFilesFromTree(owner, repo, treeSha, maxFiles, subpath ? `${subpath}/` : '');
+    } catch (error) {
+      // Truncated trees are walked level by level above; only a tree GitHub refuses to send
+      // at all is listed through the contents API. A missing subpath or repository fails.
+      if (!(error instanceof TreeTooLargeError)) throw error;
+      logWarn(`Tree listing failed for ${owner}/${repo}, falling back to contents API: ${error.message}`);
+      return this.getAllFilesFromContents(owner, repo, branch, maxFiles, subpath);
+    }
+  }
+
+  /** Walks down from the ref's root tree one directory level per request */
+  private async getSubtreeSha(owner: string, repo: string, ref: string, subpath: string): Promise<string> {
+    let treeSha = ref;
+
+    for (const segment of subpath.split('/')) {
+      const level = await this.getTree(owner, repo, treeSha);
+      const entry = level.tree.find(item => item.type === 'tree' && item.path === segment);
+      if (!entry) {
+        throw new Error(`Directory ${subpath} not found`);
+      }
+      treeSha = entry.sha;
+    }
+
+    return treeSha;
+  }
+
+  /**
+   * Lists the repository with a single recursive Git Trees request. When GitHub
+   * truncates the response, the root is listed non-recursively and each subtree
+   * is fetched on its own (recursing further only for subtrees that are still truncated).
+   */
+  async getAllFilesFromTree(owner: string, repo: string, ref: string, maxFiles: number = 1000, rootPrefix: string = ''): Promise<FileListing> {
+    const files: FileInfo[] = [];
+    let complete = true;
+
+    const addEntries = (entries: GitTreeEntry[], prefix: string) => {
+      for (const entry of entries) {
+        if (entry.type === 'commit') continue; // submodules have no content here
+        if (files.length >= maxFiles) {
+          complete = false;
+          return;
+        }
+        files.push(this.toFileInfo(entry, prefix));
+      }
+    };
+
+    const walkTruncated = async (treeSha: string, prefix: string) => {
+      const level = await this.getTree(owner, repo, treeSha);
+      if (level.truncated) complete = false;
+
+      for (const entry of level.tree) {
+        if (entry.type === 'commit') continue;
+        if (files.length >= maxFiles) {
+          complete = false;
+          return;
+        }
+        files.push(this.toFileInfo(entry, prefix));
+
+        if (entry.type === 'tree') {
+          const subtreePrefix = `${prefix}${entry.path}/`;
+          try {
+            const subtree = await this.getTree(owner, repo, entry.sha, true);
+            if (subtree.truncated) {
+              await walkTruncated(entry.sha, subtreePrefix);
+            } else {
+              addEntries(subtree.tree, subtreePrefix);
+            }
+          } catch (error) {
+            complete = false;
+            logWarn(`Failed to process subtree ${subtreePrefix}: ${(error as Error).message}`);
+          }
+        }
+      }
+    };
+
+    const root = await this.getTree(owner, repo, ref, true);
+
+    if (root.truncated) {
+      logWarn(`Recursive tree for ${owner}/${repo} was truncated, fetching subtrees individually`);
+      await walkTruncated(root.sha, rootPrefix);
+    } else {
+      addEntries(root.tree, rootPrefix);
+    }
+
+    if (!complete) {
+      logWarn(`File listing for ${owner}/${repo} is incomplete`, { listed: files.length, maxFiles });
+    }
+
+    return { files, complete, method: 'git-tree' };
+  }
+
+  async getAllFilesFromContents(owner: string, repo: string, branch?: string, maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
     const files: FileInfo[] = [];
     const visited = new Set<string>();
+    let complete = true;
     
     const processDirectory = async (path: string = '') => {
-      if (files.length >= maxFiles) return;
+      if (files.length >= maxFiles) {
+        complete = false;
+        return;
+      }
       if (visited.has(path)) return;
       visited.add(path);
       
@@ -123,7 +372,10 @@ export class GitHubClient {
         const contents = await this.getRepositoryContents(owner, repo, path, branch);
         
         for (const item of contents) {
-          if (files.length >= maxFiles) break;
+          if (files.length >= maxFiles) {
+            complete = false;
+            break;
+          }
           
           files.push(item);
           
@@ -132,11 +384,26 @@ export class GitHubClient {
           }
         }
       } catch (error) {
+        complete = false;
         logWarn(`Failed to process directory ${path}: ${(error as Error).message}`);
       }
     };
     
-    await processDirectory();
-    return files;
+    await processDirectory(subpath);
+    return { files, complete, method: 'contents-api' };
+  }
+
+  private toFileInfo(entry: GitTreeEntry, prefix: string): FileInfo {
+    const path = `${prefix}${entry.path}`;
+    const name = path.split('/').pop() || path;
+
+    return {
+      path,
+      name,
+      type: entry.type === 'tree' ? 'directory' : 'file',
+      size: entry.size,
+      extension: entry.type === 'blob' && name.includes('.') ? name.split('.').pop() : undefined,
+      sha: entry.type === 'blob' ? entry.sha : undefined
+    };
   }
-}
\ No newline at end of file
+}
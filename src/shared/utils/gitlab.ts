@@ -0,0 +1,265 @@
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { Readable } from 'stream';
+import { Repository, FileInfo, FileListing, RequestBudgetUsage, CommitComparison, FileChange } from '../types';
+import { logInfo, logError, logWarn } from './logger';
+import { extractTarGz } from './archive';
+import { RateLimiter } from './rate-limiter';
+
+interface GitLabTreeEntry {
+  id: string;
+  name: string;
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+  mode: string;
+}
+
+interface GitLabProject {
+  web_url: string;
+  path: string;
+  namespace?: { full_path: string };
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  default_branch: string;
+  last_activity_at: string;
+}
+
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+const TREE_PAGE_SIZE = 100;
+
+const GITLAB_API = 'https://gitlab.com/api/v4';
+
+/**
+ * Client for the GitLab REST API (v4), for gitlab.com and self-managed instances.
+ * Projects are addressed by their full namespace path, e.g. `group/subgroup/project`.
+ */
+export class GitLabClient {
+  private readonly baseURL: string;
+  private readonly token?: string;
+  private readonly rateLimiter: RateLimiter;
+
+  constructor(token?: string, baseURL: string = GITLAB_API, rateLimiter: RateLimiter = new RateLimiter()) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+    // GITLAB_TOKEN is a gitlab.com token; self-managed hosts get theirs from the provider
+    this.token = token || (this.baseURL === GITLAB_API ? process.env.GITLAB_TOKEN : undefined);
+    this.rateLimiter = rateLimiter;
+  }
+
+  private get<T = unknown>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.rateLimiter.execute(signal => axios.get<T>(url, { ...config, signal, headers: this.getHeaders() }));
+  }
+
+  getRequestUsage(): RequestBudgetUsage {
+    return this.rateLimiter.getUsage();
+  }
+
+  private getHeaders() {
+    return {
+      'Accept': 'application/json',
+      'User-Agent': 'ai-legacy-migration-suite',
+      ...(this.token && { 'PRIVATE-TOKEN': this.token })
+    };
+  }
+
+  private projectUrl(projectPath: string): string {
+    return `${this.baseURL}/projects/${encodeURIComponent(projectPath)}`;
+  }
+
+  async getRepositoryInfo(projectPath: string): Promise<Repository> {
+    try {
+      logInfo(`Fetching project info for ${projectPath}`);
+
+      const response = await this.get<GitLabProject>(this.projectUrl(projectPath));
+      const data = response.data;
+
+      return {
+        url: data.web_url,
+        name: data.path,
+        owner: data.namespace?.full_path ?? projectPath.split('/').slice(0, -1).join('/'),
+        description: data.description || undefined,
+        language: await this.getPrimaryLanguage(projectPath),
+        stars: data.star_count,
+        forks: data.forks_count,
+        branch: data.default_branch,
+        lastUpdated: data.last_activity_at
+      };
+    } catch (error) {
+      logError(`Failed to fetch project info for ${projectPath}`, error as Error);
+      throw new Error(`Failed to fetch repository info: ${(error as Error).message}`);
+    }
+  }
+
+  /** Resolves a branch, tag or (abbreviated) commit SHA to the full commit SHA */
+  async resolveCommitSha(projectPath: string, ref: string): Promise<string> {
+    try {
+      logInfo(`Resolving ref ${ref} for ${projectPath}`);
+
+      const response = await this.get<{ id: string }>(`${this.projectUrl(projectPath)}/repository/commits/${encodeURIComponent(ref)}`);
+      return response.data.id;
+    } catch (error) {
+      logError(`Failed to resolve ref ${ref} for ${projectPath}`, error as Error);
+      throw new Error(`Failed to resolve ref ${ref}: ${(error as Error).message}`);
+    }
+  }
+
+  /** Lists the files changed between two commits, as `git diff base head` would */
+  async compareCommits(projectPath: string, baseSha: string, headSha: string): Promise<CommitComparison> {
+    try {
+      logInfo(`Comparing ${baseSha}...${headSha} for ${projectPath}`);
+
+      const response = await this.get<{ diffs: GitLabDiff[]; compare_timeout?: boolean }>(
+        `${this.projectUrl(projectPath)}/repository/compare`,
+        { params: { from: baseSha, to: headSha, straight: true } }
+      );
+
+      const files = response.data.diffs.map((diff): FileChange => {
+        if (diff.deleted_file) return { path: diff.old_path, status: 'removed' };
+        if (diff.new_file) return { path: diff.new_path, status: 'added' };
+        if (diff.renamed_file) return { path: diff.new_path, status: 'renamed', previousPath: diff.old_path };
+        return { path: diff.new_path, status: 'modified' };
+      });
+
+      // A timed-out comparison returns only the diffs computed so far
+      return { baseCommitSha: baseSha, headCommitSha: headSha, files, complete: !response.data.compare_timeout };
+    } catch (error) {
+      logError(`Failed to compare ${baseSha}...${headSha} for ${projectPath}`, error as Error);
+      throw new Error(`Failed to compare commits: ${(error as Error).message}`);
+    }
+  }
+
+  /** GitLab reports languages as percentages; the largest share is the primary language */
+  private async getPrimaryLanguage(projectPath: string): Promise<string | undefined> {
+    try {
+      const response = await this.get<Record<string, number>>(`${this.projectUrl(projectPath)}/languages`);
+      const [primary] = Object.entries(response.data).sort(([, a], [, b]) => b - a);
+      return primary?.[0];
+    } catch (error) {
+      logWarn(`Failed to fetch languages for ${projectPath}: ${(error as Error).message}`);
+      return undefined;
+    }
+  }
+
+  async getFileContent(projectPath: string, path: string, ref?: string): Promise<string> {
+    try {
+      logInfo(`Fetching file content for ${projectPath}/${path}`);
+
+      const response = await this.get<string>(
+        `${this.projectUrl(projectPath)}/repository/files/${encodeURIComponent(path)}/raw`,
+        { params: ref ? { ref } : {}, responseType: 'text', transformResponse: data => data }
+      );
+
+      return response.data;
+    } catch (error) {
+      logError(`Failed to fetch file content for ${projectPath}/${path}`, error as Error);
+      throw new Error(`Failed to fetch file content: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Lists the project through the paginated recursive tree endpoint. GitLab does not
+   * report blob sizes here, so listed files carry no `size`.
+   */
+  async getAllFiles(projectPath: string, ref?: string, maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    const files: FileInfo[] = [];
+    let complete = true;
+    let page: string | undefined = '1';
+
+    try {
+      while (page) {
+        logInfo(`Fetching tree page ${page} for ${projectPath}`);
+
+        const response: AxiosResponse<GitLabTreeEntry[]> = await this.get<GitLabTreeEntry[]>(
+          `${this.projectUrl(projectPath)}/repository/tree`,
+          { params: { recursive: true, per_page: TREE_PAGE_SIZE, page, ...(ref && { ref }), ...(subpath && { path: subpath }) } }
+        );
+
+        for (const entry of response.data) {
+          if (entry.type === 'commit') continue; // submodules have no content here
+          if (files.length >= maxFiles) {
+            complete = false;
+            break;
+          }
+          files.push(this.toFileInfo(entry));
+        }
+
+        page = complete ? response.headers['x-next-page'] || undefined : undefined;
+      }
+    } catch (error) {
+      if (this.rateLimiter.isExhausted() || files.length === 0) {
+        logError(`Failed to list files for ${projectPath}`, error as Error);
+        throw new Error(`Failed to fetch repository tree: ${(error as Error).message}`);
+      }
+      complete = false;
+      logWarn(`Tree listing for ${projectPath} stopped early: ${(error as Error).message}`);
+    }
+
+    if (!complete) {
+      logWarn(`File listing for ${projectPath} is incomplete`, { listed: files.length, maxFiles });
+    }
+
+    return { files, complete, method: 'gitlab-tree' };
+  }
+
+  /**
+   * Downloads the tar.gz archive for a ref and returns the accepted files, keyed by
+   * path relative to the repository root.
+   */
+  async getArchiveContents(
+    projectPath: string,
+    ref: string,
+    accept: (path: string, size: number) => boolean,
+    onEntry?: (path: string) => void
+  ): Promise<Map<string, Buffer>> {
+    try {
+      logInfo(`Downloading archive for ${projectPath}@${ref}`);
+
+      const response = await this.get<Readable>(
+        `${this.projectUrl(projectPath)}/repository/archive.tar.gz`,
+        { params: { sha: ref }, responseType: 'stream' }
+      );
+
+      const entries = await extractTarGz(response.data, { accept, onEntry, stripRootDirectory: true });
+      logInfo(`Extracted ${entries.size} files from archive for ${projectPath}`);
+
+      return entries;
+    } catch (error) {
+      logError(`Failed to download archive for ${projectPath}@${ref}`, error as Error);
+      throw new Error(`Failed to download repository archive: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Extracts the project path from web, HTTPS clone and SSH clone URLs. Everything
+   * after GitLab's `/-/` separator (tree, blob, merge_requests...) is ignored.
+   */
+  parseRepositoryUrl(url: string): { projectPath: string } {
+    const match = url.match(/^(?:https?:\/\/[^/]+\/|git@[^:]+:)([^?#]+)/);
+    if (!match) {
+      throw new Error('Invalid GitLab repository URL');
+    }
+
+    const segments = match[1].split('/-/')[0].replace(/\.git$/, '').split('/').filter(Boolean);
+    if (segments.length < 2) {
+      throw new Error('Invalid GitLab repository URL');
+    }
+
+    return { projectPath: segments.join('/') };
+  }
+
+  private toFileInfo(entry: GitLabTreeEntry): FileInfo {
+    return {
+      path: entry.path,
+      name: entry.name,
+      type: entry.type === 'tree' ? 'directory' : 'file',
+      extension: entry.type === 'blob' && entry.name.includes('.') ? entry.name.split('.').pop() : undefined,
+      sha: entry.type === 'blob' ? entry.id : undefined
+    };
+  }
+}
@@ -0,0 +1,72 @@
+const cache = new Map<string, RegExp>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+^$()|\\]/g, '\\$&');
+}
+
+/**
+ * Converts a path glob to a regular expression. Supports `*`, `**`, `?`, `[...]` and
+ * `{a,b}`. Like .gitignore, a pattern without a slash matches at any depth and a
+ * trailing slash matches everything below that directory.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  let pattern = glob.trim().replace(/^\.\//, '');
+  const directory = pattern.endsWith('/');
+  if (directory) pattern = pattern.slice(0, -1);
+  if (!pattern.includes('/')) pattern = `**/${pattern}`;
+  if (directory) pattern += '/**';
+  pattern = pattern.replace(/^\//, '');
+
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(glob, regex);
+  return regex;
+}
+
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  return patterns.some(pattern => globToRegExp(pattern).test(filePath));
+}
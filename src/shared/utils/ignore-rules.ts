@@ -0,0 +1,189 @@
+import { FileInfo } from '../types';
+import { globToRegExp } from './glob';
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.gitattributes', '.migrationignore'];
+
+export type IgnoreMatch = 'gitignore' | 'migrationignore' | 'vendored' | 'generated';
+
+interface IgnorePattern {
+  base: string; // directory the rule file lives in, '' for the root
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+interface AttributePattern {
+  base: string;
+  regex: RegExp;
+  vendored?: boolean;
+  generated?: boolean;
+}
+
+function directoryOf(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '' : filePath.slice(0, index);
+}
+
+function relativeTo(base: string, filePath: string): string | undefined {
+  if (!base) return filePath;
+  return filePath.startsWith(`${base}/`) ? filePath.slice(base.length + 1) : undefined;
+}
+
+/** The path's parent directories from the top down, followed by the path itself */
+function pathChain(filePath: string): string[] {
+  const segments = filePath.split('/');
+  return segments.map((_, index) => segments.slice(0, index + 1).join('/'));
+}
+
+/**
+ * Parses .gitignore syntax: `#` comments, `!` negation, a trailing `/` for directories
+ * and a leading or inner `/` to anchor the pattern to the file's directory.
+ */
+function parseIgnoreFile(content: string, base: string): IgnorePattern[] {
+  const patterns: IgnorePattern[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    patterns.push({ base, regex: globToRegExp(line), negated, directoryOnly });
+  }
+
+  return patterns;
+}
+
+function readAttributeValue(attributes: string[], name: string): boolean | undefined {
+  let value: boolean | undefined;
+
+  for (const attribute of attributes) {
+    if (attribute === name || attribute === `${name}=true`) value = true;
+    else if (attribute === `-${name}` || attribute === `!${name}` || attribute === `${name}=false`) value = false;
+  }
+
+  return value;
+}
+
+function parseAttributesFile(content: string, base: string): AttributePattern[] {
+  const patterns: AttributePattern[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...attributes] = line.split(/\s+/);
+    const vendored = readAttributeValue(attributes, 'linguist-vendored');
+    const generated = readAttributeValue(attributes, 'linguist-generated');
+    if (vendored === undefined && generated === undefined) continue;
+
+    patterns.push({ base, regex: globToRegExp(pattern), vendored, generated });
+  }
+
+  return patterns;
+}
+
+/**
+ * The repository's own exclusion rules: .gitignore and .migrationignore files (at any
+ * depth, each scoped to its directory) and linguist-vendored / linguist-generated
+ * markers from .gitattributes. Patterns match whole path segments.
+ */
+export class IgnoreRules {
+  private readonly ignorePatterns: Array<{ source: 'gitignore' | 'migrationignore'; patterns: IgnorePattern[] }> = [];
+  private readonly attributePatterns: AttributePattern[] = [];
+
+  /** Builds the rules from rule files whose `content` has been loaded; other files are ignored */
+  static fromFiles(files: FileInfo[]): IgnoreRules {
+    const rules = new IgnoreRules();
+
+    // Shallower rule files first, so deeper ones take precedence like in git
+    const ruleFiles = files
+      .filter(file => file.content !== undefined && IGNORE_FILE_NAMES.includes(file.name))
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+    for (const file of ruleFiles) {
+      const base = directoryOf(file.path);
+
+      if (file.name === '.gitattributes') {
+        rules.attributePatterns.push(...parseAttributesFile(file.content!, base));
+      } else {
+        rules.ignorePatterns.push({
+          source: file.name === '.gitignore' ? 'gitignore' : 'migrationignore',
+          patterns: parseIgnoreFile(file.content!, base)
+        });
+      }
+    }
+
+    return rules;
+  }
+
+  get isEmpty(): boolean {
+    return this.ignorePatterns.length === 0 && this.attributePatterns.length === 0;
+  }
+
+  /** Why the rules exclude a file, or undefined when they keep it */
+  match(filePath: string): IgnoreMatch | undefined {
+    for (const source of ['migrationignore', 'gitignore'] as const) {
+      if (this.isIgnored(filePath, source)) return source;
+    }
+
+    const attributes = this.getAttributes(filePath);
+    if (attributes.vendored) return 'vendored';
+    if (attributes.generated) return 'generated';
+
+    return undefined;
+  }
+
+  /**
+   * True when .gitattributes explicitly marks a path as not vendored or generated
+   * (`-linguist-vendored`), which overrides the built-in skip list.
+   */
+  isExplicitlyKept(filePath: string): boolean {
+    const attributes = this.getAttributes(filePath);
+    return attributes.vendored === false || attributes.generated === false;
+  }
+
+  private isIgnored(filePath: string, source: 'gitignore' | 'migrationignore'): boolean {
+    const patterns = this.ignorePatterns.filter(entry => entry.source === source).flatMap(entry => entry.patterns);
+    if (patterns.length === 0) return false;
+
+    const chain = pathChain(filePath);
+
+    // Git never looks inside an excluded directory, so an ignored parent can't be undone
+    return chain.some((candidate, index) => {
+      const isDirectory = index < chain.length - 1;
+      let ignored = false;
+
+      for (const pattern of patterns) {
+        if (pattern.directoryOnly && !isDirectory) continue;
+
+        const relative = relativeTo(pattern.base, candidate);
+        if (relative !== undefined && pattern.regex.test(relative)) {
+          ignored = !pattern.negated;
+        }
+      }
+
+      return ignored;
+    });
+  }
+
+  private getAttributes(filePath: string): { vendored?: boolean; generated?: boolean } {
+    const result: { vendored?: boolean; generated?: boolean } = {};
+
+    for (const pattern of this.attributePatterns) {
+      const relative = relativeTo(pattern.base, filePath);
+      if (relative === undefined || !pattern.regex.test(relative)) continue;
+
+      if (pattern.vendored !== undefined) result.vendored = pattern.vendored;
+      if (pattern.generated !== undefined) result.generated = pattern.generated;
+    }
+
+    return result;
+  }
+}
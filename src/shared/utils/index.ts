@@ -1,4 +1,25 @@
 export * from './logger';
 export * from './github';
+export * from './gitlab';
+export * from './bitbucket';
 export * from './file-utils';
-export * from './llm-client';
\ No newline at end of file
+export * from './languages';
+export * from './line-counter';
+export * from './glob';
+export * from './ignore-rules';
+export * from './analysis-scope';
+export * from './project-discovery';
+export * from './llm-client';
+export * from './repository-source';
+export * from './repository-providers';
+export * from './concurrency';
+export * from './rate-limiter';
+export * from './agent-steps';
+export * from './analysis-cache';
+export * from './analysis-store';
+export * from './checkpointer';
+export * from './job-queue';
+export * from './webhooks';
+export * from './event-bus';
+export * from './auth';
+export * from './credentials';
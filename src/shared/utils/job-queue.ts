@@ -0,0 +1,84 @@
+import { logError, logInfo } from './logger';
+
+export type Job = (signal: AbortSignal) => Promise<void>;
+
+export interface JobQueueStats {
+  workers: number;
+  running: number;
+  queued: number;
+}
+
+interface QueuedJob {
+  id: string;
+  run: Job;
+  controller: AbortController;
+}
+
+export const DEFAULT_ANALYSIS_WORKERS = 2;
+
+/**
+ * Runs jobs first in, first out with at most `concurrency` at a time. Each job gets an
+ * AbortSignal that fires when it is cancelled; a job cancelled while queued never starts.
+ */
+export class JobQueue {
+  private readonly waiting: QueuedJob[] = [];
+  private readonly running = new Map<string, QueuedJob>();
+
+  constructor(readonly concurrency: number = Number(process.env.ANALYSIS_WORKERS) || DEFAULT_ANALYSIS_WORKERS) {}
+
+  /** Queues a job and returns its queue position, or 0 if it started right away */
+  enqueue(id: string, run: Job): number {
+    if (this.running.has(id) || this.getPosition(id) !== undefined) {
+      throw new Error(`Job ${id} is already queued`);
+    }
+
+    this.waiting.push({ id, run, controller: new AbortController() });
+    this.drain();
+    return this.getPosition(id) ?? 0;
+  }
+
+  /** 1-based position among the jobs waiting for a worker, undefined once started */
+  getPosition(id: string): number | undefined {
+    const index = this.waiting.findIndex(job => job.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /** Drops a queued job or aborts a running one, and says which it was */
+  cancel(id: string): 'queued' | 'running' | undefined {
+    const index = this.waiting.findIndex(job => job.id === id);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+      return 'queued';
+    }
+
+    const job = this.running.get(id);
+    if (job) {
+      job.controller.abort(new Error('Analysis cancelled'));
+      return 'running';
+    }
+    return undefined;
+  }
+
+  getStats(): JobQueueStats {
+    return { workers: this.concurrency, running: this.running.size, queued: this.waiting.length };
+  }
+
+  private drain() {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running.set(job.id, job);
+      logInfo('Starting job', { jobId: job.id, ...this.getStats() });
+
+      job.run(job.controller.signal)
+        .catch(error => logError('Job failed', error as Error, { jobId: job.id }))
+        .finally(() => {
+          this.running.delete(job.id);
+          this.drain();
+        });
+    }
+  }
+}
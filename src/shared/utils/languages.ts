@@ -0,0 +1,275 @@
+import { FileInfo } from '../types';
+
+export interface LanguageMatch {
+  language: string;
+  confidence: number; // 0-1
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  'js': 'JavaScript',
+  'mjs': 'JavaScript',
+  'cjs': 'JavaScript',
+  'jsx': 'JavaScript',
+  'ts': 'TypeScript',
+  'tsx': 'TypeScript',
+  'py': 'Python',
+  'java': 'Java',
+  'kt': 'Kotlin',
+  'kts': 'Kotlin',
+  'scala': 'Scala',
+  'groovy': 'Groovy',
+  'gradle': 'Groovy',
+  'cs': 'C#',
+  'c': 'C',
+  'cpp': 'C++',
+  'cc': 'C++',
+  'cxx': 'C++',
+  'hpp': 'C++',
+  'hh': 'C++',
+  'mm': 'Objective-C',
+  'go': 'Go',
+  'rs': 'Rust',
+  'php': 'PHP',
+  'rb': 'Ruby',
+  'swift': 'Swift',
+  'dart': 'Dart',
+  'vue': 'Vue',
+  'jsp': 'JSP',
+  'sh': 'Shell',
+  'bash': 'Shell',
+  'zsh': 'Shell',
+  'ps1': 'PowerShell',
+  'bat': 'Batchfile',
+  'cmd': 'Batchfile',
+  'r': 'R',
+  'lua': 'Lua',
+  'pm': 'Perl',
+  'ex': 'Elixir',
+  'exs': 'Elixir',
+  'erl': 'Erlang',
+  'elm': 'Elm',
+  'hs': 'Haskell',
+  'clj': 'Clojure',
+  'fs': 'F#',
+  'html': 'HTML',
+  'htm': 'HTML',
+  'css': 'CSS',
+  'scss': 'SCSS',
+  'sass': 'Sass',
+  'less': 'Less',
+  'json': 'JSON',
+  'yaml': 'YAML',
+  'yml': 'YAML',
+  'xml': 'XML',
+  'toml': 'TOML',
+  'ini': 'INI',
+  'properties': 'Java Properties',
+  'md': 'Markdown',
+  'rst': 'reStructuredText',
+  'adoc': 'AsciiDoc',
+  'cmake': 'CMake',
+
+  // Legacy ecosystems
+  'cbl': 'COBOL',
+  'cob': 'COBOL',
+  'cobol': 'COBOL',
+  'cpy': 'COBOL', // copybook
+  'jcl': 'JCL',
+  'pks': 'PL/SQL',
+  'pkb': 'PL/SQL',
+  'pls': 'PL/SQL',
+  'plb': 'PL/SQL',
+  'prc': 'PL/SQL',
+  'fnc': 'PL/SQL',
+  'trg': 'PL/SQL',
+  'bas': 'Visual Basic 6',
+  'frm': 'Visual Basic 6',
+  'ctl': 'Visual Basic 6',
+  'vbp': 'Visual Basic 6',
+  'pas': 'Delphi',
+  'dpr': 'Delphi',
+  'dpk': 'Delphi',
+  'dfm': 'Delphi Form',
+  't': 'Perl',
+  'cgi': 'Perl',
+  'asp': 'Classic ASP',
+  'asa': 'Classic ASP'
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  'dockerfile': 'Dockerfile',
+  'makefile': 'Makefile',
+  'gnumakefile': 'Makefile',
+  'cmakelists.txt': 'CMake',
+  'rakefile': 'Ruby',
+  'gemfile': 'Ruby',
+  'vagrantfile': 'Ruby',
+  'jenkinsfile': 'Groovy'
+};
+
+// Interpreter names from `#!` lines, without version suffixes (python3 -> python)
+const LANGUAGE_BY_INTERPRETER: Record<string, string> = {
+  'node': 'JavaScript',
+  'nodejs': 'JavaScript',
+  'deno': 'TypeScript',
+  'ts-node': 'TypeScript',
+  'tsx': 'TypeScript',
+  'python': 'Python',
+  'ruby': 'Ruby',
+  'perl': 'Perl',
+  'php': 'PHP',
+  'sh': 'Shell',
+  'bash': 'Shell',
+  'zsh': 'Shell',
+  'ksh': 'Shell',
+  'dash': 'Shell',
+  'ash': 'Shell',
+  'lua': 'Lua',
+  'rscript': 'R',
+  'groovy': 'Groovy',
+  'pwsh': 'PowerShell',
+  'elixir': 'Elixir',
+  'escript': 'Erlang'
+};
+
+// Mode names used by vim `ft=` and emacs `-*- mode -*-` modelines
+const LANGUAGE_BY_MODE: Record<string, string> = {
+  'javascript': 'JavaScript',
+  'js': 'JavaScript',
+  'typescript': 'TypeScript',
+  'python': 'Python',
+  'ruby': 'Ruby',
+  'perl': 'Perl',
+  'cperl': 'Perl',
+  'php': 'PHP',
+  'sh': 'Shell',
+  'bash': 'Shell',
+  'shell-script': 'Shell',
+  'c': 'C',
+  'cpp': 'C++',
+  'c++': 'C++',
+  'java': 'Java',
+  'groovy': 'Groovy',
+  'lua': 'Lua',
+  'make': 'Makefile',
+  'makefile': 'Makefile',
+  'dockerfile': 'Dockerfile',
+  'sql': 'SQL',
+  'yaml': 'YAML',
+  'json': 'JSON',
+  'xml': 'XML',
+  'html': 'HTML',
+  'cobol': 'COBOL',
+  'plsql': 'PL/SQL',
+  'pascal': 'Delphi',
+  'delphi': 'Delphi',
+  'opascal': 'Delphi',
+  'vb': 'Visual Basic 6',
+  'basic': 'Visual Basic 6'
+};
+
+/** Extensions shared by several languages, told apart by what the file contains */
+const AMBIGUOUS_EXTENSIONS: Record<string, (content: string) => LanguageMatch> = {
+  'h': content => {
+    if (/^\s*@(interface|protocol|end)\b/m.test(content)) return { language: 'Objective-C', confidence: 0.8 };
+    if (/\b(class|namespace)\s+\w+|template\s*<|std::/.test(content)) return { language: 'C++', confidence: 0.8 };
+    return { language: 'C', confidence: 0.6 };
+  },
+  'm': content => {
+    if (/^\s*(#import|@interface|@implementation)\b/m.test(content)) return { language: 'Objective-C', confidence: 0.8 };
+    if (/^\s*(function\b|%)/m.test(content)) return { language: 'MATLAB', confidence: 0.8 };
+    return { language: 'Objective-C', confidence: 0.5 };
+  },
+  'pl': content => {
+    if (/^\s*use\s+(strict|warnings)\b|\bmy\s+[$@%]/m.test(content)) return { language: 'Perl', confidence: 0.8 };
+    if (/^\s*:-\s*\w+|^\w+\([^)]*\)\s*:-/m.test(content)) return { language: 'Prolog', confidence: 0.8 };
+    return { language: 'Perl', confidence: 0.6 };
+  },
+  'sql': content => {
+    if (/^\s*GO\s*$/im.test(content) || /\bDECLARE\s+@|@@\w+/i.test(content)) return { language: 'T-SQL', confidence: 0.8 };
+    if (/\bCREATE\s+(?:OR\s+REPLACE\s+)?(?:PACKAGE|PROCEDURE|FUNCTION|TRIGGER|TYPE\s+BODY)\b|\bDBMS_\w+|%(?:ROW)?TYPE\b/i.test(content)) {
+      return { language: 'PL/SQL', confidence: 0.8 };
+    }
+    return { language: 'SQL', confidence: 0.7 };
+  },
+  // VB6 class modules share .cls with Salesforce Apex and LaTeX classes
+  'cls': content => {
+    if (/^\s*VERSION\s+1\.0\s+CLASS\b|^Attribute\s+VB_Name\b/m.test(content)) return { language: 'Visual Basic 6', confidence: 0.9 };
+    if (/\\(?:NeedsTeXFormat|ProvidesClass)\b/.test(content)) return { language: 'TeX', confidence: 0.9 };
+    if (/\b(?:public|global|private)\s+(?:with\s+sharing\s+|without\s+sharing\s+)?class\b/i.test(content)) return { language: 'Apex', confidence: 0.8 };
+    return { language: 'Visual Basic 6', confidence: 0.5 };
+  }
+};
+
+function parseShebang(content: string): string | undefined {
+  const line = content.match(/^#!.*/)?.[0];
+  if (!line) return undefined;
+
+  // `#!/usr/bin/env -S node --flag` names the interpreter after env and its options
+  const words = line.slice(2).trim().split(/\s+/);
+  let interpreter = words[0].split('/').pop()!;
+  if (interpreter === 'env') {
+    interpreter = words.slice(1).find(word => !word.startsWith('-') && !word.includes('=')) || '';
+  }
+
+  return interpreter.toLowerCase().replace(/[\d.]+$/, '') || undefined;
+}
+
+/** Reads the mode from a vim or emacs modeline in the first or last five lines */
+function parseModeline(content: string): string | undefined {
+  const lines = content.split('\n');
+  const candidates = [...lines.slice(0, 5), ...lines.slice(-5)];
+
+  for (const line of candidates) {
+    const vim = line.match(/\b(?:vi|vim|ex):.*?\b(?:ft|filetype|syntax)=([\w+#-]+)/);
+    if (vim) return vim[1].toLowerCase();
+
+    const emacs = line.match(/-\*-\s*(?:.*?\bmode:\s*([\w+#-]+)|([\w+#-]+)\s*)(?:;.*?)?-\*-/i);
+    if (emacs) return (emacs[1] || emacs[2]).toLowerCase();
+  }
+
+  return undefined;
+}
+
+/**
+ * Works out a file's language from, in order of trust: a modeline, the file name,
+ * a shebang, the extension (using content to settle ambiguous ones), and finally
+ * the content alone. Returns undefined when nothing points to a language.
+ */
+export function detectLanguage(file: FileInfo): LanguageMatch | undefined {
+  const content = file.content;
+  const name = file.name.toLowerCase();
+  const extension = file.extension?.toLowerCase();
+
+  if (content) {
+    const mode = parseModeline(content);
+    if (mode && LANGUAGE_BY_MODE[mode]) return { language: LANGUAGE_BY_MODE[mode], confidence: 0.95 };
+  }
+
+  if (LANGUAGE_BY_FILENAME[name] || name.startsWith('dockerfile.')) {
+    return { language: LANGUAGE_BY_FILENAME[name] || 'Dockerfile', confidence: 1 };
+  }
+
+  if (content) {
+    const interpreter = parseShebang(content);
+    if (interpreter && LANGUAGE_BY_INTERPRETER[interpreter]) {
+      return { language: LANGUAGE_BY_INTERPRETER[interpreter], confidence: 0.95 };
+    }
+  }
+
+  if (extension && AMBIGUOUS_EXTENSIONS[extension]) {
+    return content !== undefined
+      ? AMBIGUOUS_EXTENSIONS[extension](content)
+      : { ...AMBIGUOUS_EXTENSIONS[extension](''), confidence: 0.4 };
+  }
+
+  if (extension && LANGUAGE_BY_EXTENSION[extension]) {
+    return { language: LANGUAGE_BY_EXTENSION[extension], confidence: 0.9 };
+  }
+
+  if (content?.startsWith('<?php')) {
+    return { language: 'PHP', confidence: 0.8 };
+  }
+
+  return undefined;
+}
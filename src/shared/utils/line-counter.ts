@@ -0,0 +1,193 @@
+import { FileInfo, LineCounts, LineCountSummary, LinesOfCodeStats } from '../types';
+
+interface CommentSyntax {
+  line: string[];
+  block: Array<[string, string]>;
+  fullLine?: RegExp; // whole-line comments that depend on the column, like fixed-format COBOL
+  strings?: string[]; // quotes around strings, whose content holds no comments
+}
+
+const QUOTES = ['"', "'"];
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']], strings: QUOTES };
+const HASH: CommentSyntax = { line: ['#'], block: [], strings: QUOTES };
+const MARKUP: CommentSyntax = { line: [], block: [['<!--', '-->']] };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  'JavaScript': { ...C_STYLE, strings: [...QUOTES, '`'] },
+  'TypeScript': { ...C_STYLE, strings: [...QUOTES, '`'] },
+  'Java': C_STYLE,
+  'Kotlin': C_STYLE,
+  'Scala': C_STYLE,
+  'Groovy': C_STYLE,
+  'C#': C_STYLE,
+  'C': C_STYLE,
+  'C++': C_STYLE,
+  'Objective-C': C_STYLE,
+  'Go': { ...C_STYLE, strings: [...QUOTES, '`'] },
+  'Rust': { ...C_STYLE, strings: ['"'] }, // a single quote also starts a lifetime
+  'Swift': C_STYLE,
+  'Dart': C_STYLE,
+  'SCSS': C_STYLE,
+  'Less': C_STYLE,
+  'JSP': { line: ['//'], block: [['<%--', '--%>'], ['/*', '*/'], ['<!--', '-->']] },
+  'PHP': { line: ['//', '#'], block: [['/*', '*/']], strings: QUOTES },
+  'CSS': { line: [], block: [['/*', '*/']], strings: QUOTES },
+  'Vue': { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  'HTML': MARKUP,
+  'XML': MARKUP,
+  'Markdown': MARKUP,
+  'SQL': { line: ['--'], block: [['/*', '*/']], strings: QUOTES },
+  'Python': HASH,
+  'Ruby': { line: ['#'], block: [['=begin', '=end']], strings: QUOTES },
+  'Perl': { line: ['#'], block: [['=pod', '=cut']], strings: QUOTES },
+  'Shell': HASH,
+  'R': HASH,
+  'Elixir': HASH,
+  'YAML': HASH,
+  'TOML': HASH,
+  'Makefile': HASH,
+  'Dockerfile': HASH,
+  'CMake': HASH,
+  'Java Properties': { line: ['#', '!'], block: [] },
+  'INI': { line: [';', '#'], block: [] },
+  'PowerShell': { line: ['#'], block: [['<#', '#>']], strings: QUOTES },
+  'Batchfile': { line: ['::', 'REM ', 'rem '], block: [] },
+  'Lua': { line: ['--'], block: [['--[[', ']]']], strings: QUOTES },
+  'Haskell': { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+  'Elm': { line: ['--'], block: [['{-', '-}']], strings: ['"'] },
+  'Erlang': { line: ['%'], block: [] },
+  'MATLAB': { line: ['%'], block: [['%{', '%}']] },
+  'Prolog': { line: ['%'], block: [['/*', '*/']] },
+  'Clojure': { line: [';'], block: [] },
+  'F#': { line: ['//'], block: [['(*', '*)']], strings: ['"'] },
+  'COBOL': { line: ['*>'], block: [], fullLine: /^.{6}[*/]/, strings: QUOTES },
+  'JCL': { line: ['//*'], block: [] },
+  'PL/SQL': { line: ['--'], block: [['/*', '*/']], strings: QUOTES },
+  'T-SQL': { line: ['--'], block: [['/*', '*/']], strings: QUOTES },
+  'Visual Basic 6': { line: ["'", 'Rem ', 'REM '], block: [], strings: ['"'] },
+  'Classic ASP': { line: ["'", 'Rem ', 'REM '], block: [['<!--', '-->']], strings: ['"'] },
+  'Delphi': { line: ['//'], block: [['{', '}'], ['(*', '*)']], strings: ["'"] }
+};
+
+// The index after the string that opens at `start`, or the line's end if it isn't closed
+function endOfString(line: string, start: number): number {
+  for (let i = start + 1; i < line.length; i++) {
+    if (line[i] === '\\') i++;
+    else if (line[i] === line[start]) return i + 1;
+  }
+  return line.length;
+}
+
+// Languages without comment syntax (JSON, plain text) count every non-blank line as code
+const NO_COMMENTS: CommentSyntax = { line: [], block: [] };
+
+/**
+ * Counts code, comment and blank lines the way cloc does: a line with any code on it
+ * is code, a line with only comments is a comment, and a whitespace-only line is blank
+ * even inside a block comment. Comment markers inside a string are part of the string;
+ * strings are assumed to end on the line they start on.
+ */
+export function countLines(content: string, language?: string): LineCounts {
+  const syntax = (language && COMMENT_SYNTAX[language]) || NO_COMMENTS;
+  const counts: LineCounts = { code: 0, comment: 0, blank: 0 };
+  let blockEnd: string | undefined;
+
+  const lines = content.split(/\r?\n/);
+  // A trailing newline doesn't start another line
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+
+  for (const line of lines) {
+    if (line.trim() === '') {
+      counts.blank++;
+      continue;
+    }
+
+    if (!blockEnd && syntax.fullLine?.test(line)) {
+      counts.comment++;
+      continue;
+    }
+
+    let hasCode = false;
+    let i = 0;
+
+    while (i < line.length) {
+      if (blockEnd) {
+        const end = line.indexOf(blockEnd, i);
+        if (end === -1) break;
+        i = end + blockEnd.length;
+        blockEnd = undefined;
+        continue;
+      }
+
+      while (i < line.length && /\s/.test(line[i])) i++;
+      if (i >= line.length) break;
+
+      const rest = line.slice(i);
+      const block = syntax.block.find(([start]) => rest.startsWith(start));
+      if (block) {
+        blockEnd = block[1];
+        i += block[0].length;
+        continue;
+      }
+      if (syntax.line.some(marker => rest.startsWith(marker))) break;
+
+      hasCode = true;
+      i = syntax.strings?.includes(line[i]) ? endOfString(line, i) : i + 1;
+    }
+
+    if (hasCode) counts.code++;
+    else counts.comment++;
+  }
+
+  return counts;
+}
+
+function emptySummary(): LineCountSummary {
+  return { files: 0, code: 0, comment: 0, blank: 0 };
+}
+
+function addTo(record: Record<string, LineCountSummary>, key: string, lines: LineCounts): void {
+  const summary = record[key] || (record[key] = emptySummary());
+  summary.files++;
+  summary.code += lines.code;
+  summary.comment += lines.comment;
+  summary.blank += lines.blank;
+}
+
+/**
+ * Counts the lines of every file whose content was loaded, storing them on the file as
+ * `lines`, and totals them per language, category and directory. Call after
+ * categorizeFiles so files carry their language and category.
+ */
+export function countLinesOfCode(files: FileInfo[]): LinesOfCodeStats {
+  const totals: Record<string, LineCountSummary> = {};
+  const stats: LinesOfCodeStats = {
+    total: emptySummary(),
+    byLanguage: {},
+    byCategory: {},
+    byDirectory: {},
+    uncountedFiles: 0
+  };
+
+  for (const file of files) {
+    if (file.type !== 'file') continue;
+
+    if (file.content === undefined) {
+      stats.uncountedFiles++;
+      continue;
+    }
+
+    const lines = countLines(file.content, file.language);
+    file.lines = lines;
+
+    addTo(totals, 'total', lines);
+    addTo(stats.byLanguage, file.language || 'Other', lines);
+    addTo(stats.byCategory as Record<string, LineCountSummary>, file.category || 'other', lines);
+
+    const segments = file.path.split('/').slice(0, -1);
+    segments.forEach((_, index) => addTo(stats.byDirectory, segments.slice(0, index + 1).join('/'), lines));
+  }
+
+  stats.total = totals.total || emptySummary();
+  return stats;
+}
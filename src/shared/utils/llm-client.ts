@@ -2,6 +2,7 @@ import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { logInfo, logError } from './logger';
+import { analysisCache, hashText } from './analysis-cache';
 
 export interface LLMConfig {
   provider: 'gemini' | 'anthropic';
@@ -10,6 +11,10 @@ export interface LLMConfig {
   maxTokens?: number;
 }
 
+export interface LLMCallOptions {
+  signal?: AbortSignal; // cancels the request in flight and any retries
+}
+
 export class LLMClient {
   private geminiClient?: ChatGoogleGenerativeAI;
   private anthropicClient?: ChatAnthropic;
@@ -48,34 +53,36 @@ export class LLMClient {
     }
   }
 
-  async generateResponse(messages: BaseMessage[], options?: { retries?: number }): Promise<string> {
-    const { retries = 2 } = options || {};
+  async generateResponse(messages: BaseMessage[], options?: LLMCallOptions & { retries?: number }): Promise<string> {
+    const { retries = 2, signal } = options || {};
     
     for (let attempt = 0; attempt <= retries; attempt++) {
       try {
+        signal?.throwIfAborted();
+        
         // Try primary provider first
         if (this.config.provider === 'gemini' && this.geminiClient) {
           logInfo('Using Gemini for LLM generation');
-          const response = await this.geminiClient.invoke(messages);
+          const response = await this.geminiClient.invoke(messages, { signal });
           return response.content.toString();
         }
         
         if (this.config.provider === 'anthropic' && this.anthropicClient) {
           logInfo('Using Anthropic for LLM generation');
-          const response = await this.anthropicClient.invoke(messages);
+          const response = await this.anthropicClient.invoke(messages, { signal });
           return response.content.toString();
         }
 
         // Fallback to available provider
         if (this.geminiClient) {
           logInfo('Falling back to Gemini');
-          const response = await this.geminiClient.invoke(messages);
+          const response = await this.geminiClient.invoke(messages, { signal });
           return response.content.toString();
         }
 
         if (this.anthropicClient) {
           logInfo('Falling back to Anthropic');
-          const response = await this.anthropicClient.invoke(messages);
+          const response = await this.anthropicClient.invoke(messages, { signal });
           return response.content.toString();
         }
 
@@ -83,7 +90,7 @@ export class LLMClient {
       } catch (error) {
         logError(`LLM generation attempt ${attempt + 1} failed`, error as Error);
         
-        if (attempt === retries) {
+        if (attempt === retries || signal?.aborted) {
           throw error;
         }
         
@@ -95,7 +102,7 @@ export class LLMClient {
     throw new Error('All LLM generation attempts failed');
   }
 
-  async generateText(prompt: string, systemPrompt?: string): Promise<string> {
+  async generateText(prompt: string, systemPrompt?: string, options: LLMCallOptions = {}): Promise<string> {
     const messages: BaseMessage[] = [];
     
     if (systemPrompt) {
@@ -111,7 +118,7 @@ export class LLMClient {
       messagesCount: messages.length 
     });
     
-    const response = await this.generateResponse(messages);
+    const response = await this.generateResponse(messages, options);
     
     // Log response details
     logInfo('LLM text generation completed', { 
@@ -125,7 +132,8 @@ export class LLMClient {
   async generateStructuredResponse<T>(
     prompt: string, 
     schema: string, 
-    systemPrompt?: string
+    systemPrompt?: string,
+    options: LLMCallOptions = {}
   ): Promise<T> {
     // Check input size limits
     const maxPromptLength = 100000; // 100KB limit
@@ -136,9 +144,17 @@ export class LLMClient {
     
     const fullSystemPrompt = `${systemPrompt || ''}\n\nPlease respond with valid JSON that matches this schema: ${schema}. Do not wrap the JSON in markdown code blocks.`;
     
+    // An identical prompt gets the answer it got before, so re-analyses only pay for what changed
+    const promptHash = hashText(JSON.stringify([this.config, fullSystemPrompt, prompt]));
+    const cachedResponse = await analysisCache.getPromptResponse(promptHash);
+    if (cachedResponse !== undefined) {
+      logInfo('Using cached LLM response for an unchanged prompt', { promptHash: promptHash.slice(0, 16) });
+      return this.parseStructuredResponse<T>(cachedResponse);
+    }
+    
     let response: string;
     try {
-      response = await this.generateText(prompt, fullSystemPrompt);
+      response = await this.generateText(prompt, fullSystemPrompt, options);
     } catch (error) {
       logError('LLM generation failed', error as Error);
       throw new Error(`LLM generation failed: ${(error as Error).message}. This might be due to rate limits, content filtering, or service issues.`);
@@ -153,6 +169,13 @@ export class LLMClient {
       throw new Error('LLM returned empty response. This might be due to content filtering, rate limits, or input being too large.');
     }
     
+    // Only responses that parse are worth replaying
+    const parsed = this.parseStructuredResponse<T>(response);
+    await analysisCache.setPromptResponse(promptHash, response);
+    return parsed;
+  }
+
+  private parseStructuredResponse<T>(response: string): T {
     try {
       // First, try to extract JSON from markdown code blocks
       const markdownJsonMatch = response.match(/```json\s*([\s\S]*?)\s*```/);
@@ -188,14 +211,14 @@ export class LLMClient {
       const repairedJson = this.repairTruncatedJson(response);
       if (repairedJson) {
         logInfo('Successfully repaired truncated JSON');
-        return repairedJson;
+        return repairedJson as T;
       }
       
       throw new Error(`Failed to parse structured response: ${(error as Error).message}`);
     }
   }
 
-  private repairTruncatedJson(response: string): any | null {
+  private repairTruncatedJson(response: string): unknown {
     try {
       // Extract JSON-like content from response
       let jsonStr = response.trim();
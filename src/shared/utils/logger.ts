@@ -1,9 +1,66 @@
 import winston from 'winston';
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const REDACTED = '[REDACTED]';
+
+// Secrets in use, such as per-analysis repository tokens, with how many jobs use each
+const secrets = new Map<string, number>();
+
+/**
+ * Masks `secret` in every log line, file and captured log until the returned function is
+ * called. Registering the same secret twice masks it until both registrations are released.
+ */
+export function registerSecret(secret: string): () => void {
+  secrets.set(secret, (secrets.get(secret) ?? 0) + 1);
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    const count = secrets.get(secret)! - 1;
+    if (count > 0) secrets.set(secret, count);
+    else secrets.delete(secret);
+  };
+}
+
+/** A copy of `value` with every registered secret in its strings replaced by [REDACTED] */
+export function redactSecrets<T>(value: T): T {
+  if (secrets.size === 0) return value;
+  return redact(value, new WeakSet()) as T;
+}
+
+function redact(value: unknown, seen: WeakSet<object>): unknown {
+  if (typeof value === 'string') {
+    let redacted = value;
+    for (const secret of secrets.keys()) redacted = redacted.split(secret).join(REDACTED);
+    return redacted;
+  }
+  if (!value || typeof value !== 'object' || seen.has(value)) return value;
+  seen.add(value);
+  if (Array.isArray(value)) return value.map(item => redact(item, seen));
+  if (value instanceof Error) {
+    const error = new Error(redact(value.message, seen) as string);
+    error.name = value.name;
+    error.stack = redact(value.stack, seen) as string | undefined;
+    return error;
+  }
+  if (Object.getPrototypeOf(value) !== Object.prototype && Object.getPrototypeOf(value) !== null) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redact(item, seen)]));
+}
+
+/** Winston format that masks registered secrets in a line's message and metadata */
+export const redactFormat = winston.format(info => {
+  if (secrets.size === 0) return info;
+  for (const key of Object.keys(info)) {
+    info[key] = redactSecrets(info[key]);
+  }
+  return info;
+});
 
 // Create winston logger
 export const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    redactFormat(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -25,19 +82,49 @@ if (process.env.NODE_ENV !== 'production') {
   }));
 }
 
+export interface CapturedLog {
+  level: 'info' | 'warn' | 'error';
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+// Listener of the log lines written inside the current captureLogs() call, if any
+const logListeners = new AsyncLocalStorage<(log: CapturedLog) => void>();
+
+/**
+ * Runs `fn` and hands `listener` every info, warning and error line logged by it and the
+ * async work it starts, such as an agent's steps. Debug lines are left out.
+ */
+export function captureLogs<T>(listener: (log: CapturedLog) => void, fn: () => Promise<T>): Promise<T> {
+  return logListeners.run(listener, fn);
+}
+
+function report(level: CapturedLog['level'], message: string, details?: Record<string, unknown>) {
+  const listener = logListeners.getStore();
+  if (!listener) return;
+  try {
+    listener(redactSecrets({ level, message, details: details && Object.keys(details).length > 0 ? details : undefined }));
+  } catch {
+    // A failing listener must not fail the code that logged
+  }
+}
+
 // Helper functions
-export const logInfo = (message: string, meta?: any) => {
+export const logInfo = (message: string, meta?: Record<string, unknown>) => {
   logger.info(message, meta);
+  report('info', message, meta);
 };
 
-export const logError = (message: string, error?: Error, meta?: any) => {
+export const logError = (message: string, error?: Error, meta?: Record<string, unknown>) => {
   logger.error(message, { error: error?.message, stack: error?.stack, ...meta });
+  report('error', message, error ? { error: error.message, ...meta } : meta);
 };
 
-export const logDebug = (message: string, meta?: any) => {
+export const logDebug = (message: string, meta?: Record<string, unknown>) => {
   logger.debug(message, meta);
 };
 
-export const logWarn = (message: string, meta?: any) => {
+export const logWarn = (message: string, meta?: Record<string, unknown>) => {
   logger.warn(message, meta);
+  report('warn', message, meta);
 };
\ No newline at end of file
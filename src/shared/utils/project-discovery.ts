@@ -0,0 +1,264 @@
+import { FileInfo, SubProject, SubProjectLink } from '../types';
+import { PROJECT_MANIFESTS, categorizeFile, isTestFile } from './file-utils';
+
+const MANIFEST_ECOSYSTEMS: Record<string, string> = {
+  'package.json': 'npm',
+  'pom.xml': 'maven',
+  'requirements.txt': 'pip',
+  'Gemfile': 'bundler',
+  'composer.json': 'composer',
+  'go.mod': 'go',
+  'Cargo.toml': 'cargo',
+  'pubspec.yaml': 'pub',
+  'build.gradle': 'gradle',
+  'build.xml': 'ant',
+  'CMakeLists.txt': 'cmake'
+};
+
+// Manifests in these directories belong to third-party or sample code, not to the monorepo
+const IGNORED_DIRECTORIES = /(^|\/)(node_modules|vendor|third[_-]party|fixtures|bower_components)(\/|$)/;
+
+interface DeclaredDependency {
+  name: string;
+  path?: string; // relative location for path / file: dependencies
+}
+
+interface ManifestInfo {
+  name?: string;
+  dependencies: DeclaredDependency[];
+}
+
+function directoryOf(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '' : filePath.slice(0, index);
+}
+
+function joinPath(base: string, relative: string): string {
+  const segments = base ? base.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.join('/');
+}
+
+function isInside(filePath: string, directory: string): boolean {
+  return directory === '' || filePath.startsWith(`${directory}/`);
+}
+
+/**
+ * Finds sub-projects from the manifests in a listing. A directory with a manifest is a
+ * sub-project unless other ones are nested below it and it has no source files of its
+ * own outside them, so workspace roots and Maven aggregator POMs give way to the modules
+ * they contain, while an application that merely holds a tool or docs site keeps its place.
+ */
+export function detectSubProjects(files: FileInfo[], repositoryName: string = 'root'): SubProject[] {
+  const manifestsByDirectory = new Map<string, string[]>();
+
+  for (const file of files) {
+    if (file.type !== 'file' || !PROJECT_MANIFESTS.includes(file.name)) continue;
+    if (IGNORED_DIRECTORIES.test(file.path) || isTestFile(file)) continue;
+
+    const directory = directoryOf(file.path);
+    manifestsByDirectory.set(directory, [...(manifestsByDirectory.get(directory) || []), file.name]);
+  }
+
+  const directories = Array.from(manifestsByDirectory.keys()).sort();
+  const sources = files.filter(file =>
+    file.type === 'file' && !IGNORED_DIRECTORIES.test(file.path) && categorizeFile(file) === 'source'
+  );
+
+  return directories.flatMap((directory): SubProject[] => {
+    const nested = directories.filter(other => other !== directory && isInside(other, directory));
+    const ownSources = sources.some(file => isInside(file.path, directory) && !nested.some(inner => isInside(file.path, inner)));
+    if (nested.length > 0 && !ownSources) return [];
+
+    const manifests = manifestsByDirectory.get(directory)!;
+    return [{
+      path: directory,
+      name: directory ? directory.split('/').pop()! : repositoryName,
+      manifests,
+      ecosystems: [...new Set(manifests.map(name => MANIFEST_ECOSYSTEMS[name]).filter(Boolean))],
+      ...(nested.length > 0 && { nested })
+    }];
+  });
+}
+
+function parsePackageJson(content: string): ManifestInfo {
+  const data = JSON.parse(content);
+  const dependencies: DeclaredDependency[] = [];
+
+  for (const field of ['dependencies', 'devDependencies', 'peerDependencies', 'optionalDependencies']) {
+    for (const [name, version] of Object.entries<string>(data[field] || {})) {
+      const local = typeof version === 'string' ? version.match(/^(?:file|link):(.+)$/) : null;
+      dependencies.push({ name, path: local?.[1] });
+    }
+  }
+
+  return { name: data.name, dependencies };
+}
+
+function parsePom(content: string): ManifestInfo {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  const dependencyBlocks = xml.match(/<dependencies>[\s\S]*?<\/dependencies>/g) || [];
+  const dependencies = dependencyBlocks.flatMap(block =>
+    Array.from(block.matchAll(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/g), match => ({ name: match[1] }))
+  );
+
+  // The project's own artifactId is the first one outside parent, dependency and build sections
+  const own = xml
+    .replace(/<parent>[\s\S]*?<\/parent>/g, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '')
+    .replace(/<dependencies>[\s\S]*?<\/dependencies>/g, '')
+    .replace(/<build>[\s\S]*?<\/build>/g, '')
+    .match(/<artifactId>\s*([^<\s]+)\s*<\/artifactId>/);
+
+  return { name: own?.[1], dependencies };
+}
+
+function parseGoMod(content: string): ManifestInfo {
+  const dependencies: DeclaredDependency[] = [];
+  const replacements = new Map<string, string>();
+  let inRequire = false;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\/\/.*$/, '').trim();
+
+    const replace = line.match(/^(?:replace\s+)?(\S+)(?:\s+v\S+)?\s+=>\s+(\.{1,2}\/\S*)/);
+    if (replace) {
+      replacements.set(replace[1], replace[2]);
+      continue;
+    }
+
+    if (line.startsWith('require (')) {
+      inRequire = true;
+    } else if (inRequire && line === ')') {
+      inRequire = false;
+    } else if (inRequire && line) {
+      dependencies.push({ name: line.split(/\s+/)[0] });
+    } else if (line.startsWith('require ')) {
+      dependencies.push({ name: line.split(/\s+/)[1] });
+    }
+  }
+
+  return {
+    name: content.match(/^module\s+(\S+)/m)?.[1],
+    dependencies: dependencies.map(dependency => ({ ...dependency, path: replacements.get(dependency.name) }))
+  };
+}
+
+function parseCargoToml(content: string): ManifestInfo {
+  const dependencies: DeclaredDependency[] = [];
+  let section = '';
+  let name: string | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const header = line.match(/^\[([^\]]+)\]$/);
+
+    if (header) {
+      section = header[1];
+      // [dependencies.foo] tables declare a single dependency
+      const table = section.match(/^(?:dev-|build-)?dependencies\.(.+)$/);
+      if (table) dependencies.push({ name: table[1] });
+      continue;
+    }
+
+    const entry = line.match(/^([A-Za-z0-9_-]+)\s*=\s*(.*)$/);
+    if (!entry) continue;
+
+    if (section === 'package' && entry[1] === 'name') {
+      name = entry[2].replace(/["']/g, '');
+    } else if (/^(?:dev-|build-)?dependencies$/.test(section)) {
+      dependencies.push({ name: entry[1], path: entry[2].match(/path\s*=\s*"([^"]+)"/)?.[1] });
+    } else if (/^(?:dev-|build-)?dependencies\./.test(section) && entry[1] === 'path') {
+      dependencies[dependencies.length - 1].path = entry[2].replace(/["']/g, '');
+    }
+  }
+
+  return { name, dependencies };
+}
+
+function parseComposerJson(content: string): ManifestInfo {
+  const data = JSON.parse(content);
+  const dependencies = ['require', 'require-dev'].flatMap(field =>
+    Object.keys(data[field] || {}).map(name => ({ name }))
+  );
+  return { name: data.name, dependencies };
+}
+
+function parseGradle(content: string): ManifestInfo {
+  // project(':libs:core') refers to the Gradle project at libs/core
+  const dependencies = Array.from(content.matchAll(/project\(\s*(?:path:\s*)?['"]:([^'"]+)['"]\s*\)/g), match => ({
+    name: match[1].split(':').pop()!,
+    path: `/${match[1].replace(/:/g, '/')}`
+  }));
+  return { dependencies };
+}
+
+const MANIFEST_PARSERS: Record<string, (content: string) => ManifestInfo> = {
+  'package.json': parsePackageJson,
+  'pom.xml': parsePom,
+  'go.mod': parseGoMod,
+  'Cargo.toml': parseCargoToml,
+  'composer.json': parseComposerJson,
+  'build.gradle': parseGradle
+};
+
+/**
+ * Reads the sub-projects' manifests to name each project after the package it declares
+ * and to link projects that depend on each other, by package name or by relative path.
+ * Manifests without content or that fail to parse are skipped.
+ */
+export function linkSubProjects(
+  subProjects: SubProject[],
+  manifests: FileInfo[]
+): { subProjects: SubProject[]; links: SubProjectLink[] } {
+  const infoByProject = new Map<string, Array<{ manifest: string; info: ManifestInfo }>>();
+
+  for (const manifest of manifests) {
+    const parser = MANIFEST_PARSERS[manifest.name];
+    if (!parser || manifest.content === undefined) continue;
+
+    try {
+      const directory = directoryOf(manifest.path);
+      infoByProject.set(directory, [
+        ...(infoByProject.get(directory) || []),
+        { manifest: manifest.path, info: parser(manifest.content) }
+      ]);
+    } catch {
+      // Unparseable manifests just don't contribute names or links
+    }
+  }
+
+  const named = subProjects.map(project => {
+    const declaredName = infoByProject.get(project.path)?.find(entry => entry.info.name)?.info.name;
+    return declaredName ? { ...project, name: declaredName } : project;
+  });
+
+  const byName = new Map(named.map(project => [project.name, project]));
+  const byPath = new Map(named.map(project => [project.path, project]));
+  const links: SubProjectLink[] = [];
+  const seen = new Set<string>();
+
+  for (const project of named) {
+    for (const { manifest, info } of infoByProject.get(project.path) || []) {
+      for (const dependency of info.dependencies) {
+        const byLocation = dependency.path
+          ? byPath.get(dependency.path.startsWith('/') ? joinPath('', dependency.path) : joinPath(project.path, dependency.path))
+          : undefined;
+        const target = byLocation ?? byName.get(dependency.name);
+
+        if (!target || target.path === project.path) continue;
+
+        const key = `${project.path}->${target.path}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        links.push({ from: project.path, to: target.path, manifest, dependency: dependency.name });
+      }
+    }
+  }
+
+  return { subProjects: named, links };
+}
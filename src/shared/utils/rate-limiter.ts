@@ -0,0 +1,201 @@
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import timers from 'timers/promises';
+import { RequestBudgetUsage } from '../types';
+import { logWarn } from './logger';
+
+export interface RateLimiterOptions {
+  budget?: RequestBudget; // shared with the analysis's other sources; one of maxRequests when omitted
+  maxRequests?: number; // budget of this limiter alone, GITHUB_REQUEST_BUDGET when omitted
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxWaitMs?: number; // longest single wait before giving up instead of stalling the analysis
+  signal?: AbortSignal; // aborts requests in flight and cuts waits short
+}
+
+const SECONDARY_RATE_LIMIT_DELAY_MS = 60 * 1000;
+
+
+function readNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * The requests one analysis may make. Every source the analysis opens, re-opened ones
+ * included, counts against the same budget through its rate limiter.
+ */
+export class RequestBudget {
+  readonly limit?: number;
+  private used = 0;
+  private exhausted = false;
+
+  constructor(limit: number | undefined = readNumberEnv('GITHUB_REQUEST_BUDGET')) {
+    this.limit = limit;
+  }
+
+  /** Counts a request, or throws when none are left */
+  take(): void {
+    if (this.limit !== undefined && this.used >= this.limit) {
+      this.exhausted = true;
+      throw new Error(`Request budget of ${this.limit} requests exhausted`);
+    }
+    this.used++;
+  }
+
+  getUsed(): number {
+    return this.used;
+  }
+
+  isExhausted(): boolean {
+    return this.exhausted;
+  }
+}
+
+/**
+ * Milliseconds a Retry-After header asks for: either delay-seconds or an HTTP date
+ * (RFC 9110). A date in the past means no wait; an unreadable value gives undefined.
+ */
+function parseRetryAfter(value: string): number | undefined {
+  const trimmed = value.trim();
+  const wait = /^\d+$/.test(trimmed) ? Number(trimmed) * 1000 : Date.parse(trimmed) - Date.now();
+  return Number.isNaN(wait) ? undefined : Math.max(wait, 0);
+}
+
+/**
+ * Tracks rate-limit headers (GitHub's `X-RateLimit-*`, GitLab's `RateLimit-*`, and
+ * `Retry-After`), waits out primary and secondary limits, retries transient failures
+ * with exponential backoff and enforces a request budget.
+ */
+export class RateLimiter {
+  private readonly budget: RequestBudget;
+  private readonly maxRetries: number;
+  private readonly baseDelayMs: number;
+  private readonly maxWaitMs: number;
+  private readonly signal?: AbortSignal;
+
+  private retries = 0;
+  private rateLimitWaits = 0;
+  private remaining?: number;
+  private resetAt?: number;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.budget = options.budget ?? new RequestBudget(options.maxRequests);
+    this.maxRetries = options.maxRetries ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxWaitMs = options.maxWaitMs ?? readNumberEnv('GITHUB_MAX_RATE_LIMIT_WAIT_MS') ?? 5 * 60 * 1000;
+    this.signal = options.signal;
+  }
+
+  /** Runs `request`, passing it the signal to hand to axios */
+  async execute<T>(request: (signal?: AbortSignal) => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      this.signal?.throwIfAborted();
+      this.budget.take();
+      await this.waitForPrimaryReset();
+
+      try {
+        const response = await request(this.signal);
+        this.updateFromHeaders(response.headers);
+        return response;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) throw error;
+
+        if (error.response) {
+          this.updateFromHeaders(error.response.headers);
+        }
+
+        const delay = this.getRetryDelay(error as AxiosError<{ message?: string }>, attempt);
+        if (delay === null || attempt >= this.maxRetries) throw error;
+
+        if (delay > this.maxWaitMs) {
+          throw new Error(`Rate limit requires waiting ${Math.ceil(delay / 1000)}s, which exceeds the configured maximum`);
+        }
+
+        logWarn(`Repository API request failed (${error.response?.status ?? error.code}), retrying in ${Math.ceil(delay / 1000)}s`, {
+          attempt: attempt + 1,
+          maxRetries: this.maxRetries
+        });
+        this.retries++;
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  getUsage(): RequestBudgetUsage {
+    return {
+      limit: this.budget.limit,
+      used: this.budget.getUsed(),
+      exhausted: this.budget.isExhausted(),
+      retries: this.retries,
+      rateLimitWaits: this.rateLimitWaits,
+      rateLimitRemaining: this.remaining,
+      rateLimitReset: this.resetAt ? new Date(this.resetAt).toISOString() : undefined
+    };
+  }
+
+  isExhausted(): boolean {
+    return this.budget.isExhausted();
+  }
+
+  private async waitForPrimaryReset() {
+    if (this.remaining !== 0 || !this.resetAt) return;
+
+    const wait = this.resetAt - Date.now();
+    if (wait <= 0) return;
+
+    if (wait > this.maxWaitMs) {
+      throw new Error(`Rate limit exhausted until ${new Date(this.resetAt).toISOString()}`);
+    }
+
+    logWarn(`Rate limit exhausted, waiting ${Math.ceil(wait / 1000)}s for reset`);
+    this.rateLimitWaits++;
+    await this.sleep(wait);
+    this.remaining = undefined;
+  }
+
+  private async sleep(ms: number): Promise<void> {
+    await timers.setTimeout(ms, undefined, { signal: this.signal });
+  }
+
+  private updateFromHeaders(headers: Record<string, unknown>) {
+    const remaining = headers['x-ratelimit-remaining'] ?? headers['ratelimit-remaining'];
+    const reset = headers['x-ratelimit-reset'] ?? headers['ratelimit-reset'];
+
+    if (remaining !== undefined) this.remaining = Number(remaining);
+    if (reset !== undefined) this.resetAt = Number(reset) * 1000;
+  }
+
+  /** Milliseconds to wait before retrying, or null when the error is not retryable */
+  private getRetryDelay(error: AxiosError<{ message?: string }>, attempt: number): number | null {
+    const backoff = this.baseDelayMs * 2 ** attempt;
+    const response = error.response;
+
+    if (!response) {
+      // Network-level failures (resets, timeouts) are worth another try
+      return error.code === 'ERR_CANCELED' ? null : backoff;
+    }
+
+    const retryAfter = response.headers['retry-after'];
+    if (retryAfter !== undefined) {
+      this.rateLimitWaits++;
+      return parseRetryAfter(String(retryAfter)) ?? backoff;
+    }
+
+    if (response.status === 403 || response.status === 429) {
+      if (this.remaining === 0 && this.resetAt) {
+        this.rateLimitWaits++;
+        return Math.max(this.resetAt - Date.now(), 0) + 1000;
+      }
+
+      const message = typeof response.data?.message === 'string' ? response.data.message : '';
+      if (response.status === 429 || /secondary rate limit|abuse/i.test(message)) {
+        this.rateLimitWaits++;
+        return Math.max(SECONDARY_RATE_LIMIT_DELAY_MS, backoff);
+      }
+
+      return null;
+    }
+
+    return response.status >= 500 ? backoff : null;
+  }
+}
@@ -0,0 +1,211 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { GitHubClient } from './github';
+import { GitLabClient } from './gitlab';
+import { BitbucketServerClient } from './bitbucket';
+import { RateLimiter } from './rate-limiter';
+import {
+  RepositorySource,
+  RepositorySourceOptions,
+  GitHubRepositorySource,
+  GitLabRepositorySource,
+  BitbucketServerRepositorySource,
+  LocalGitSource,
+  LocalDirectorySource
+} from './repository-source';
+import { logInfo, logError } from './logger';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * A hosting service remote repository URLs can be read from. Providers are tried in
+ * registration order and the first one that claims the URL's host builds the source.
+ * Self-hosted instances are only claimed when configured, and each gets only the
+ * environment token configured for its kind of host.
+ */
+export interface RepositoryProvider {
+  readonly name: string;
+  matches(host: string): boolean;
+  createSource(url: string, host: string, options?: RepositorySourceOptions): RepositorySource;
+}
+
+/**
+ * Reads a comma-separated host list such as `git.example.com,code.example.com=https://api.code.example.com`.
+ * An optional `=<url>` overrides the API base URL derived for that host.
+ */
+function readHostList(name: string): Map<string, string | undefined> {
+  const hosts = new Map<string, string | undefined>();
+
+  for (const item of (process.env[name] || '').split(',')) {
+    const [host, apiBase] = item.split('=').map(part => part.trim());
+    if (host) hosts.set(host.toLowerCase(), apiBase || undefined);
+  }
+
+  return hosts;
+}
+
+const githubProvider: RepositoryProvider = {
+  name: 'github',
+  matches: (host) => host === 'github.com' || host === 'www.github.com',
+  createSource: (url, host, { signal, token, budget } = {}) =>
+    new GitHubRepositorySource(url, new GitHubClient(token, undefined, new RateLimiter({ signal, budget })))
+};
+
+const githubEnterpriseProvider: RepositoryProvider = {
+  name: 'github-enterprise',
+  matches: (host) => readHostList('GITHUB_ENTERPRISE_HOSTS').has(host),
+  createSource: (url, host, { signal, token, budget } = {}) => {
+    const apiBase = readHostList('GITHUB_ENTERPRISE_HOSTS').get(host) || `https://${host}/api/v3`;
+    const client = new GitHubClient(token || process.env.GITHUB_ENTERPRISE_TOKEN, apiBase, new RateLimiter({ signal, budget }));
+    return new GitHubRepositorySource(url, client);
+  }
+};
+
+const gitlabProvider: RepositoryProvider = {
+  name: 'gitlab',
+  matches: (host) => host === 'gitlab.com' || readHostList('GITLAB_HOSTS').has(host),
+  createSource: (url, host, { signal, token, budget } = {}) => {
+    if (host === 'gitlab.com') {
+      return new GitLabRepositorySource(url, new GitLabClient(token, undefined, new RateLimiter({ signal, budget })));
+    }
+    const apiBase = readHostList('GITLAB_HOSTS').get(host) || `https://${host}/api/v4`;
+    const client = new GitLabClient(token || process.env.GITLAB_SELF_MANAGED_TOKEN, apiBase, new RateLimiter({ signal, budget }));
+    return new GitLabRepositorySource(url, client);
+  }
+};
+
+const bitbucketServerProvider: RepositoryProvider = {
+  name: 'bitbucket-server',
+  matches: (host) => readHostList('BITBUCKET_SERVER_HOSTS').has(host),
+  createSource: (url, host, { signal, token, budget } = {}) => {
+    const { contextPath } = BitbucketServerClient.parseRepositoryUrl(url);
+    const baseURL = readHostList('BITBUCKET_SERVER_HOSTS').get(host) || `https://${host}${contextPath}`;
+    return new BitbucketServerRepositorySource(url, new BitbucketServerClient(baseURL, token || process.env.BITBUCKET_TOKEN, new RateLimiter({ signal, budget })));
+  }
+};
+
+const providers: RepositoryProvider[] = [
+  githubProvider,
+  githubEnterpriseProvider,
+  gitlabProvider,
+  bitbucketServerProvider
+];
+
+/**
+ * Adds a provider ahead of the built-in ones, so it can also take over hosts they would claim.
+ */
+export function registerRepositoryProvider(provider: RepositoryProvider) {
+  providers.unshift(provider);
+}
+
+export function getRepositoryHost(url: string): string | undefined {
+  const scp = url.match(/^[^@/]+@([^:/]+):/); // git@host:owner/repo
+  if (scp) return scp[1].toLowerCase();
+
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+export function resolveRepositoryProvider(url: string): { provider: RepositoryProvider; host: string } {
+  const host = getRepositoryHost(url);
+  const provider = host ? providers.find(candidate => candidate.matches(host)) : undefined;
+
+  if (!host || !provider) {
+    throw new Error(
+      `Unsupported repository host: ${host || url}. ` +
+      'Add self-hosted instances to GITHUB_ENTERPRISE_HOSTS, GITLAB_HOSTS or BITBUCKET_SERVER_HOSTS.'
+    );
+  }
+
+  return { provider, host };
+}
+
+async function isGitRepository(directory: string): Promise<boolean> {
+  try {
+    const { stdout: isBare } = await execFileAsync('git', ['rev-parse', '--is-bare-repository'], { cwd: directory });
+    if (isBare.trim() === 'true') return true;
+
+    // A plain directory nested inside some other checkout is not a clone of its own
+    const { stdout: topLevel } = await execFileAsync('git', ['rev-parse', '--show-toplevel'], { cwd: directory });
+    return path.resolve(topLevel.trim()) === (await fs.realpath(directory));
+  } catch {
+    return false;
+  }
+}
+
+export function isRemoteRepositoryUrl(location: string): boolean {
+  return /^(https?:\/\/|ssh:\/\/|git@)/.test(location);
+}
+
+function readLocalRoots(): string[] {
+  return (process.env.LOCAL_REPOSITORY_ROOTS || '').split(',').map(root => root.trim()).filter(Boolean);
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * The real path of a local repository location. Local paths are refused unless they lie
+ * under one of the comma-separated LOCAL_REPOSITORY_ROOTS, after resolving symlinks.
+ */
+export async function resolveLocalRepositoryPath(location: string): Promise<string> {
+  const roots = readLocalRoots();
+  if (roots.length === 0) {
+    throw new Error('Local repository paths are disabled; set LOCAL_REPOSITORY_ROOTS to allow them');
+  }
+
+  const outside = new Error(`Repository location is outside LOCAL_REPOSITORY_ROOTS: ${location}`);
+  const localPath = path.resolve(location.replace(/^file:\/\//, ''));
+  // Checked before touching the file system, so the answer doesn't reveal what exists elsewhere
+  if (!roots.some(root => isWithin(path.resolve(root), localPath))) throw outside;
+
+  if (!(await fs.pathExists(localPath))) {
+    throw new Error(`Repository location not found: ${location}`);
+  }
+
+  const realPath = await fs.realpath(localPath);
+  for (const root of roots) {
+    const realRoot = await fs.realpath(path.resolve(root)).catch(() => undefined);
+    if (realRoot && isWithin(realRoot, realPath)) return realPath;
+  }
+  throw outside;
+}
+
+/**
+ * Picks a source for a repository location: remote URLs go to the provider registered
+ * for their host, local paths are read as a git clone when possible and as plain files otherwise.
+ */
+export async function createRepositorySource(location: string, options: RepositorySourceOptions = {}): Promise<RepositorySource> {
+  if (isRemoteRepositoryUrl(location)) {
+    const { provider, host } = resolveRepositoryProvider(location);
+    logInfo(`Using ${provider.name} repository source`, { host });
+    return provider.createSource(location, host, options);
+  }
+
+  let localPath: string;
+  try {
+    localPath = await resolveLocalRepositoryPath(location);
+  } catch (error) {
+    logError('Repository location refused', error as Error, { location });
+    throw error;
+  }
+
+  if (!(await fs.stat(localPath)).isDirectory()) {
+    throw new Error(`Repository location is not a directory: ${location}`);
+  }
+
+  if (await isGitRepository(localPath)) {
+    logInfo('Using local git repository source', { location: localPath });
+    return new LocalGitSource(localPath, undefined, options.signal);
+  }
+
+  logInfo('Using local directory source', { location: localPath });
+  return new LocalDirectorySource(localPath);
+}
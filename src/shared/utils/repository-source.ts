@@ -0,0 +1,449 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Repository, FileInfo, FileListing, RequestBudgetUsage, CommitComparison, FileChange } from '../types';
+import { GitHubClient } from './github';
+import { GitLabClient } from './gitlab';
+import { BitbucketServerClient, BitbucketRepositoryRef } from './bitbucket';
+import { getFileExtension, shouldProcessFile } from './file-utils';
+import { isBinaryContent } from './archive';
+import { mapWithConcurrency } from './concurrency';
+import { logError, logWarn } from './logger';
+import { RequestBudget } from './rate-limiter';
+
+const execFileAsync = promisify(execFile);
+
+export type RepositorySourceKind = 'github' | 'gitlab' | 'bitbucket-server' | 'local-directory' | 'local-git';
+
+export interface ContentLoadOptions {
+  concurrency?: number;
+  onProgress?: (loaded: number, total: number, path: string) => void;
+}
+
+export interface RepositorySourceOptions {
+  signal?: AbortSignal; // aborts the source's API requests and git commands
+  token?: string; // used instead of the provider's token from the environment; local sources ignore it
+  budget?: RequestBudget; // the analysis's request budget, shared with its other sources
+}
+
+const DEFAULT_CONTENT_CONCURRENCY = Number(process.env.CONTENT_FETCH_CONCURRENCY) || 8;
+
+/**
+ * A place repository files can be read from. Every source produces the same
+ * Repository / FileInfo shapes so downstream agents don't care where the code lives.
+ */
+export interface RepositorySource {
+  readonly kind: RepositorySourceKind;
+  readonly location: string;
+  /**
+   * Loads repository metadata and pins the source to `ref` (a branch, tag or commit SHA,
+   * the default branch when omitted). Later reads see exactly that commit.
+   */
+  getRepository(ref?: string): Promise<Repository>;
+  /** Lists the whole tree, or only the entries below `subpath` (paths stay repository-relative) */
+  listFiles(maxFiles?: number, subpath?: string): Promise<FileListing>;
+  getFileContent(filePath: string): Promise<string>;
+  /** Returns the given files with `content` filled in wherever it could be read */
+  loadContents(files: FileInfo[], options?: ContentLoadOptions): Promise<FileInfo[]>;
+  /** Request accounting for sources backed by a rate-limited API */
+  getRequestUsage?(): RequestBudgetUsage;
+  /** The files changed between two commits, for sources that can diff without a full listing */
+  compareCommits?(baseSha: string, headSha: string): Promise<CommitComparison>;
+}
+
+/**
+ * Fallback content loader: one getFileContent call per file through a bounded worker
+ * pool. Failures are logged and leave that file without content, and so does binary
+ * content, which names alone don't rule out.
+ */
+export async function loadContentsPerFile(
+  source: RepositorySource,
+  files: FileInfo[],
+  options: ContentLoadOptions = {}
+): Promise<FileInfo[]> {
+  const { concurrency = DEFAULT_CONTENT_CONCURRENCY, onProgress } = options;
+
+  return mapWithConcurrency(
+    files,
+    concurrency,
+    async (file) => {
+      try {
+        const content = await source.getFileContent(file.path);
+        if (isBinaryContent(Buffer.from(content.slice(0, 8000), 'utf-8'))) return { ...file, binary: true };
+        return { ...file, content };
+      } catch (error) {
+        logError(`Failed to get content for ${file.path}`, error as Error);
+        return file;
+      }
+    },
+    (loaded, total, file) => onProgress?.(loaded, total, file.path)
+  );
+}
+
+type ArchiveDownload = (
+  accept: (path: string, size: number) => boolean,
+  onEntry: (path: string) => void
+) => Promise<Map<string, Buffer>>;
+
+/**
+ * Content loader for hosted sources: one archive download, keeping only the requested
+ * text files. Falls back to per-file requests when the archive cannot be fetched.
+ */
+async function loadContentsFromArchive(
+  source: RepositorySource,
+  files: FileInfo[],
+  options: ContentLoadOptions,
+  download: ArchiveDownload
+): Promise<FileInfo[]> {
+  const wanted = new Set(files.map(f => f.path));
+  let extracted = 0;
+
+  try {
+    const entries = await download(
+      (path, size) => wanted.has(path) && shouldProcessFile({
+        path,
+        name: path.split('/').pop() || path,
+        type: 'file',
+        size
+      }),
+      (path) => options.onProgress?.(++extracted, files.length, path)
+    );
+
+    return files.map(file => {
+      const data = entries.get(file.path);
+      if (!data) return file;
+      if (isBinaryContent(data)) return { ...file, binary: true };
+      return { ...file, content: data.toString('utf-8') };
+    });
+  } catch (error) {
+    logWarn(`Archive download failed for ${source.location}, fetching files individually: ${(error as Error).message}`);
+    return loadContentsPerFile(source, files, options);
+  }
+}
+
+export class GitHubRepositorySource implements RepositorySource {
+  readonly kind = 'github' as const;
+  private readonly owner: string;
+  private readonly repo: string;
+  private commitSha?: string;
+
+  constructor(readonly location: string, private readonly client: GitHubClient = new GitHubClient()) {
+    const { owner, repo } = client.parseRepositoryUrl(location);
+    this.owner = owner;
+    this.repo = repo;
+  }
+
+  async getRepository(ref?: string): Promise<Repository> {
+    const repository = await this.client.getRepositoryInfo(this.owner, this.repo);
+    const branch = ref || repository.branch;
+    this.commitSha = await this.client.resolveCommitSha(this.owner, this.repo, branch);
+    return { ...repository, branch, commitSha: this.commitSha };
+  }
+
+  async listFiles(maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    return this.client.getAllFiles(this.owner, this.repo, this.commitSha, maxFiles, subpath);
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    return this.client.getFileContent(this.owner, this.repo, filePath, this.commitSha);
+  }
+
+  getRequestUsage(): RequestBudgetUsage {
+    return this.client.getRequestUsage();
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<CommitComparison> {
+    return this.client.compareCommits(this.owner, this.repo, baseSha, headSha);
+  }
+
+  async loadContents(files: FileInfo[], options: ContentLoadOptions = {}): Promise<FileInfo[]> {
+    return loadContentsFromArchive(this, files, options, (accept, onEntry) =>
+      this.client.getArchiveContents(this.owner, this.repo, this.commitSha || 'HEAD', accept, onEntry)
+    );
+  }
+}
+
+export class GitLabRepositorySource implements RepositorySource {
+  readonly kind = 'gitlab' as const;
+  private readonly projectPath: string;
+  private commitSha?: string;
+
+  constructor(readonly location: string, private readonly client: GitLabClient = new GitLabClient()) {
+    this.projectPath = client.parseRepositoryUrl(location).projectPath;
+  }
+
+  async getRepository(ref?: string): Promise<Repository> {
+    const repository = await this.client.getRepositoryInfo(this.projectPath);
+    const branch = ref || repository.branch;
+    this.commitSha = await this.client.resolveCommitSha(this.projectPath, branch);
+    return { ...repository, branch, commitSha: this.commitSha };
+  }
+
+  async listFiles(maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    return this.client.getAllFiles(this.projectPath, this.commitSha, maxFiles, subpath);
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    return this.client.getFileContent(this.projectPath, filePath, this.commitSha);
+  }
+
+  getRequestUsage(): RequestBudgetUsage {
+    return this.client.getRequestUsage();
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<CommitComparison> {
+    return this.client.compareCommits(this.projectPath, baseSha, headSha);
+  }
+
+  async loadContents(files: FileInfo[], options: ContentLoadOptions = {}): Promise<FileInfo[]> {
+    return loadContentsFromArchive(this, files, options, (accept, onEntry) =>
+      this.client.getArchiveContents(this.projectPath, this.commitSha || 'HEAD', accept, onEntry)
+    );
+  }
+}
+
+export class BitbucketServerRepositorySource implements RepositorySource {
+  readonly kind = 'bitbucket-server' as const;
+  private readonly repositoryRef: BitbucketRepositoryRef;
+  private commitSha?: string;
+
+  constructor(readonly location: string, private readonly client: BitbucketServerClient) {
+    const { projectKey, slug } = BitbucketServerClient.parseRepositoryUrl(location);
+    this.repositoryRef = { projectKey, slug };
+  }
+
+  async getRepository(ref?: string): Promise<Repository> {
+    const repository = await this.client.getRepositoryInfo(this.repositoryRef);
+    const branch = ref || repository.branch;
+    this.commitSha = await this.client.resolveCommitSha(this.repositoryRef, branch);
+    return { ...repository, branch, commitSha: this.commitSha };
+  }
+
+  async listFiles(maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    return this.client.getAllFiles(this.repositoryRef, this.commitSha, maxFiles, subpath);
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    return this.client.getFileContent(this.repositoryRef, filePath, this.commitSha);
+  }
+
+  getRequestUsage(): RequestBudgetUsage {
+    return this.client.getRequestUsage();
+  }
+
+  async loadContents(files: FileInfo[], options: ContentLoadOptions = {}): Promise<FileInfo[]> {
+    return loadContentsFromArchive(this, files, options, (accept, onEntry) =>
+      this.client.getArchiveContents(this.repositoryRef, this.commitSha || 'HEAD', accept, onEntry)
+    );
+  }
+}
+
+export class LocalDirectorySource implements RepositorySource {
+  readonly kind = 'local-directory' as const;
+  private readonly root: string;
+
+  constructor(readonly location: string) {
+    this.root = path.resolve(location);
+  }
+
+  async getRepository(ref?: string): Promise<Repository> {
+    if (ref) {
+      throw new Error(`${this.location} is not a git repository, so ref ${ref} cannot be checked out`);
+    }
+
+    const stats = await fs.stat(this.root);
+
+    return {
+      url: `file://${this.root}`,
+      name: path.basename(this.root),
+      owner: 'local',
+      branch: 'working-tree',
+      lastUpdated: stats.mtime.toISOString()
+    };
+  }
+
+  async listFiles(maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    const files: FileInfo[] = [];
+    let complete = true;
+
+    if (subpath) {
+      this.resolveInsideRoot(subpath);
+    }
+
+    const walk = async (relativeDir: string) => {
+      if (files.length >= maxFiles) {
+        complete = false;
+        return;
+      }
+
+      const entries = await fs.readdir(path.join(this.root, relativeDir), { withFileTypes: true });
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+
+      for (const entry of entries) {
+        if (files.length >= maxFiles) {
+          complete = false;
+          break;
+        }
+
+        // Never walk VCS internals or installed dependencies of a working copy
+        if (entry.name === '.git' || entry.name === 'node_modules') continue;
+
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          files.push({ path: relativePath, name: entry.name, type: 'directory' });
+          await walk(relativePath);
+        } else if (entry.isFile()) {
+          const stats = await fs.stat(path.join(this.root, relativePath));
+          files.push({
+            path: relativePath,
+            name: entry.name,
+            type: 'file',
+            size: stats.size,
+            extension: getFileExtension(entry.name)
+          });
+        }
+      }
+    };
+
+    await walk(subpath);
+    return { files, complete, method: 'filesystem' };
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    return fs.readFile(this.resolveInsideRoot(filePath), 'utf-8');
+  }
+
+  private resolveInsideRoot(relativePath: string): string {
+    const absolutePath = path.resolve(this.root, relativePath);
+    if (!absolutePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Path escapes repository root: ${relativePath}`);
+    }
+    return absolutePath;
+  }
+
+  async loadContents(files: FileInfo[], options?: ContentLoadOptions): Promise<FileInfo[]> {
+    return loadContentsPerFile(this, files, options);
+  }
+}
+
+/**
+ * Reads committed content from a local bare or working git clone via the git CLI.
+ */
+export class LocalGitSource implements RepositorySource {
+  readonly kind = 'local-git' as const;
+  private readonly root: string;
+
+  constructor(readonly location: string, private ref: string = 'HEAD', private readonly signal?: AbortSignal) {
+    this.root = path.resolve(location);
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.root,
+      maxBuffer: 64 * 1024 * 1024,
+      signal: this.signal
+    });
+    return stdout;
+  }
+
+  private async gitOrUndefined(args: string[]): Promise<string | undefined> {
+    try {
+      const output = (await this.git(args)).trim();
+      return output || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async getRepository(ref?: string): Promise<Repository> {
+    const target = ref || this.ref;
+
+    let commitSha: string;
+    try {
+      commitSha = (await this.git(['rev-parse', '--verify', `${target}^{commit}`])).trim();
+    } catch (error) {
+      throw new Error(`Failed to resolve ref ${target}: ${(error as Error).message}`);
+    }
+
+    const remoteUrl = await this.gitOrUndefined(['config', '--get', 'remote.origin.url']);
+    const branch = target === 'HEAD' ? await this.gitOrUndefined(['symbolic-ref', '--short', 'HEAD']) : target;
+    const lastUpdated = await this.gitOrUndefined(['log', '-1', '--format=%cI', commitSha]);
+    this.ref = commitSha;
+
+    return {
+      url: remoteUrl || `file://${this.root}`,
+      name: path.basename(this.root).replace(/\.git$/, ''),
+      owner: 'local',
+      branch: branch || 'HEAD',
+      commitSha,
+      lastUpdated
+    };
+  }
+
+  async listFiles(maxFiles: number = 1000, subpath: string = ''): Promise<FileListing> {
+    const output = await this.git(['ls-tree', '-r', '-t', '-l', '--full-tree', this.ref, ...(subpath ? ['--', subpath] : [])]);
+    const files: FileInfo[] = [];
+    let complete = true;
+
+    for (const line of output.split('\n')) {
+      if (!line) continue;
+      if (files.length >= maxFiles) {
+        complete = false;
+        break;
+      }
+
+      // <mode> <type> <object> <size>\t<path>
+      const [meta, filePath] = line.split('\t');
+      const [, type, object, size] = meta.split(/\s+/);
+
+      // `-t` also reports the trees leading down to the subpath
+      if (subpath && !filePath.startsWith(`${subpath}/`)) continue;
+      const name = filePath.split('/').pop() || filePath;
+
+      if (type === 'tree') {
+        files.push({ path: filePath, name, type: 'directory' });
+      } else if (type === 'blob') {
+        files.push({
+          path: filePath,
+          name,
+          type: 'file',
+          size: Number(size),
+          extension: getFileExtension(name),
+          sha: object
+        });
+      }
+    }
+
+    return { files, complete, method: 'git-cli' };
+  }
+
+  async getFileContent(filePath: string): Promise<string> {
+    return this.git(['cat-file', 'blob', `${this.ref}:${filePath}`]);
+  }
+
+  async compareCommits(baseSha: string, headSha: string): Promise<CommitComparison> {
+    // NUL-separated: <status>\0<path>\0, with a second path after renames and copies
+    const fields = (await this.git(['diff', '--name-status', '-z', '-M', baseSha, headSha])).split('\0');
+    const files: FileChange[] = [];
+
+    for (let i = 0; i < fields.length - 1;) {
+      const status = fields[i++];
+      if (status.startsWith('R')) {
+        files.push({ previousPath: fields[i++], path: fields[i++], status: 'renamed' });
+      } else if (status.startsWith('C') || status === 'A') {
+        if (status.startsWith('C')) i++;
+        files.push({ path: fields[i++], status: 'added' });
+      } else {
+        files.push({ path: fields[i++], status: status === 'D' ? 'removed' : 'modified' });
+      }
+    }
+
+    return { baseCommitSha: baseSha, headCommitSha: headSha, files, complete: true };
+  }
+
+  async loadContents(files: FileInfo[], options?: ContentLoadOptions): Promise<FileInfo[]> {
+    return loadContentsPerFile(this, files, options);
+  }
+}
@@ -4,6 +4,8 @@
  */
 
 import winston from 'winston';
+import { ArchitectureInfo, FileInfo, FileStructure, Repository } from '../types';
+import { redactFormat } from './logger';
 
 // ANSI color codes for terminal output
 const colors = {
@@ -69,6 +71,7 @@ const enhancedConsoleFormat = winston.format.printf(({ level, message, timestamp
 export const enhancedLogger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
   format: winston.format.combine(
+    redactFormat(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
@@ -112,7 +115,7 @@ class ProgressTracker {
     console.log(`${colors.gray}━`.repeat(80) + colors.reset);
   }
   
-  step(stepName: string, details?: any) {
+  step(stepName: string, details?: string | Record<string, unknown>) {
     this.currentStep++;
     const elapsed = ((Date.now() - this.startTime) / 1000).toFixed(1);
     
@@ -143,7 +146,7 @@ class ProgressTracker {
     }
   }
   
-  success(message: string, results?: any) {
+  success(message: string, results?: Record<string, unknown>) {
     const totalTime = ((Date.now() - this.startTime) / 1000).toFixed(1);
     
     console.log(`${colors.gray}━`.repeat(80) + colors.reset);
@@ -193,7 +196,7 @@ class ProgressTracker {
 export const progress = new ProgressTracker();
 
 // Enhanced logging functions
-export const logAnalysisStart = (operation: string, details?: any) => {
+export const logAnalysisStart = (operation: string, details?: Record<string, unknown>) => {
   const steps = [
     'Repository Fetch',
     'File Analysis', 
@@ -206,22 +209,22 @@ export const logAnalysisStart = (operation: string, details?: any) => {
   enhancedLogger.info(`Analysis started: ${operation}`, details);
 };
 
-export const logStep = (stepName: string, details?: any) => {
+export const logStep = (stepName: string, details?: Record<string, unknown>) => {
   progress.step(stepName, details);
   enhancedLogger.info(`Step: ${stepName}`, details);
 };
 
-export const logProgress = (message: string, current?: number, total?: number, meta?: any) => {
+export const logProgress = (message: string, current?: number, total?: number, meta?: Record<string, unknown>) => {
   progress.progress(message, current, total);
   enhancedLogger.info(message, { current, total, ...meta });
 };
 
-export const logSuccess = (message: string, results?: any) => {
+export const logSuccess = (message: string, results?: Record<string, unknown>) => {
   progress.success(message, results);
   enhancedLogger.info(`Success: ${message}`, results);
 };
 
-export const logAnalysisError = (message: string, error?: Error, meta?: any) => {
+export const logAnalysisError = (message: string, error?: Error, meta?: Record<string, unknown>) => {
   progress.error(message, error);
   enhancedLogger.error(`Analysis error: ${message}`, { 
     error: error?.message, 
@@ -231,7 +234,7 @@ export const logAnalysisError = (message: string, error?: Error, meta?: any) =>
 };
 
 // Enhanced info logging
-export const logEnhancedInfo = (message: string, meta?: any) => {
+export const logEnhancedInfo = (message: string, meta?: Record<string, unknown>) => {
   console.log(`   ${colors.blue}◦${colors.reset} ${message}`);
   if (meta) {
     console.log(`${colors.cyan}      ${JSON.stringify(meta, null, 2)}${colors.reset}`);
@@ -240,7 +243,7 @@ export const logEnhancedInfo = (message: string, meta?: any) => {
 };
 
 // AI interaction logging
-export const logAICall = (operation: string, prompt?: string, response?: any) => {
+export const logAICall = (operation: string, prompt?: string, response?: unknown) => {
   console.log(`   ${colors.magenta}🤖${colors.reset} AI Call: ${operation}`);
   if (prompt) {
     const truncatedPrompt = prompt.length > 100 ? prompt.substring(0, 100) + '...' : prompt;
@@ -273,10 +276,11 @@ export const logAICall = (operation: string, prompt?: string, response?: any) =>
 };
 
 // Repository analysis specific logging
-export const logRepoInfo = (repo: any) => {
+export const logRepoInfo = (repo: Repository) => {
   console.log(`   ${colors.green}📊${colors.reset} Repository Info:`);
   console.log(`${colors.green}      Name: ${repo.name}${colors.reset}`);
   console.log(`${colors.green}      Owner: ${repo.owner}${colors.reset}`);
+  console.log(`${colors.green}      Ref: ${repo.branch}${repo.commitSha ? ` @ ${repo.commitSha.substring(0, 12)}` : ''}${colors.reset}`);
   console.log(`${colors.green}      Language: ${repo.language}${colors.reset}`);
   console.log(`${colors.green}      Stars: ${repo.stars || 0}${colors.reset}`);
   console.log(`${colors.green}      Description: ${repo.description?.substring(0, 80) || 'None'}...${colors.reset}`);
@@ -285,13 +289,13 @@ export const logRepoInfo = (repo: any) => {
 };
 
 // File analysis logging
-export const logFileAnalysis = (fileStructure: any) => {
+export const logFileAnalysis = (fileStructure: Pick<FileStructure, 'totalFiles' | 'totalDirectories' | 'categories'>) => {
   console.log(`   ${colors.cyan}📁${colors.reset} File Analysis:`);
   console.log(`${colors.cyan}      Total Files: ${fileStructure.totalFiles}${colors.reset}`);
   console.log(`${colors.cyan}      Directories: ${fileStructure.totalDirectories}${colors.reset}`);
   
   // Show category breakdown
-  Object.entries(fileStructure.categories || {}).forEach(([category, files]: [string, any]) => {
+  Object.entries(fileStructure.categories || {}).forEach(([category, files]: [string, FileInfo[]]) => {
     if (files && files.length > 0) {
       console.log(`${colors.cyan}      ${category}: ${files.length} files${colors.reset}`);
     }
@@ -305,7 +309,7 @@ export const logFileAnalysis = (fileStructure: any) => {
 };
 
 // Architecture analysis logging
-export const logArchitectureDetection = (patterns: string[], architecture?: any) => {
+export const logArchitectureDetection = (patterns: string[], architecture?: Pick<ArchitectureInfo, 'type' | 'complexity'>) => {
   console.log(`   ${colors.yellow}🏗️${colors.reset} Architecture Detection:`);
   
   if (patterns.length > 0) {
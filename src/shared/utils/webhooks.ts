@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import timers from 'timers/promises';
+import {
+  AgentRunStatus,
+  AnalysisResponse,
+  PipelineAgent,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookPayload
+} from '../types';
+import { AnalysisStore } from './analysis-store';
+import { logError, logInfo, logWarn } from './logger';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'analysis.started',
+  'analysis.agent-completed',
+  'analysis.completed',
+  'analysis.failed',
+  'analysis.cancelled'
+];
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+
+export interface WebhookDispatcherOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number; // doubles after every failed attempt
+  timeoutMs?: number; // per attempt
+  callbackSecret?: string; // signs deliveries to request callback URLs, which are unsigned without it
+}
+
+interface WebhookTarget {
+  url: string;
+  secret?: string;
+  webhookId?: string;
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const value = process.env[name];
+  return value ? Number(value) : undefined;
+}
+
+/**
+ * `sha256=<hex>` HMAC of `<timestamp>.<body>`. Receivers recompute it over the raw request
+ * body and the timestamp header, and can reject old timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+export function generateWebhookSecret(): string {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+// The final event of a finished analysis
+export function finishedWebhookEvent(status: AnalysisResponse['status']): WebhookEvent | undefined {
+  switch (status) {
+    case 'completed':
+    case 'partial':
+      return 'analysis.completed';
+    case 'failed':
+      return 'analysis.failed';
+    case 'cancelled':
+      return 'analysis.cancelled';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Posts analysis events to the registered webhooks that subscribe to them (their owner's
+ * analyses, or every analysis for webhooks without an owner) and to the analysis's own
+ * callback URLs. Deliveries run in the background and never hold up the analysis; each
+ * is retried with exponential backoff on network errors, timeouts, 408, 429 and 5xx
+ * responses, and every attempt is recorded in the analysis's delivery log.
+ * Deliveries to one URL for one analysis go out in the order the events happened.
+ */
+export class WebhookDispatcher {
+  private readonly maxAttempts: number;
+  private readonly baseDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly callbackSecret?: string;
+  private readonly queues = new Map<string, Promise<void>>();
+
+  constructor(private readonly store: AnalysisStore, options: WebhookDispatcherOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? readNumberEnv('WEBHOOK_MAX_ATTEMPTS') ?? 5;
+    this.baseDelayMs = options.baseDelayMs ?? readNumberEnv('WEBHOOK_RETRY_DELAY_MS') ?? 1000;
+    this.timeoutMs = options.timeoutMs ?? readNumberEnv('WEBHOOK_TIMEOUT_MS') ?? 10000;
+    this.callbackSecret = options.callbackSecret ?? (process.env.WEBHOOK_SECRET || undefined);
+  }
+
+  /** Queues deliveries of `event` for the analysis; failures are logged, never thrown */
+  async dispatch(analysis: AnalysisResponse, event: WebhookEvent, agent?: PipelineAgent): Promise<void> {
+    try {
+      const targets = await this.targets(analysis, event);
+      const { result, queuePosition, ...record } = analysis;
+      const run: AgentRunStatus | undefined = agent ? analysis.agents?.[agent] : undefined;
+
+      for (const target of targets) {
+        const payload: WebhookPayload = {
+          id: crypto.randomUUID(),
+          event,
+          createdAt: new Date().toISOString(),
+          analysis: record,
+          agent: agent && run ? { name: agent, ...run } : undefined
+        };
+        const delivery: WebhookDelivery = {
+          id: payload.id,
+          analysisId: analysis.id,
+          event,
+          url: target.url,
+          webhookId: target.webhookId,
+          status: 'pending',
+          attempts: [],
+          createdAt: payload.createdAt
+        };
+
+        await this.save(delivery);
+
+        // Serialized now, so later changes to the analysis don't leak into this event
+        const body = JSON.stringify(payload);
+        const key = `${analysis.id} ${target.url}`;
+        const queued = (this.queues.get(key) ?? Promise.resolve())
+          .then(() => this.deliver(delivery, target, body))
+          .finally(() => {
+            if (this.queues.get(key) === queued) this.queues.delete(key);
+          });
+        this.queues.set(key, queued);
+      }
+    } catch (error) {
+      logError('Failed to dispatch webhooks', error as Error, { analysisId: analysis.id, event });
+    }
+  }
+
+  private async targets(analysis: AnalysisResponse, event: WebhookEvent): Promise<WebhookTarget[]> {
+    const webhooks = (await this.store.listWebhooks())
+      .filter(webhook => !webhook.owner || webhook.owner === analysis.owner)
+      .filter(webhook => !webhook.events || webhook.events.includes(event))
+      .map(webhook => ({ url: webhook.url, secret: webhook.secret, webhookId: webhook.id }));
+    const callbacks = (analysis.request?.callbackUrls ?? []).map(url => ({ url, secret: this.callbackSecret }));
+    return [...webhooks, ...callbacks];
+  }
+
+  private async deliver(delivery: WebhookDelivery, target: WebhookTarget, body: string): Promise<void> {
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      if (attempt > 0) await timers.setTimeout(this.baseDelayMs * 2 ** (attempt - 1));
+
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const started = Date.now();
+      let retryable: boolean;
+      try {
+        const response = await axios.post(target.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'ai-legacy-migration-webhooks',
+            'X-Webhook-Event': delivery.event,
+            'X-Webhook-Delivery': delivery.id,
+            [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+            ...(target.secret ? { [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(target.secret, timestamp, body) } : {})
+          },
+          timeout: this.timeoutMs,
+          maxRedirects: 0,
+          validateStatus: () => true
+        });
+        delivery.attempts.push({ attemptedAt: new Date(started).toISOString(), statusCode: response.status, durationMs: Date.now() - started });
+        if (response.status >= 200 && response.status < 300) {
+          delivery.status = 'delivered';
+          break;
+        }
+        retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      } catch (error) {
+        delivery.attempts.push({ attemptedAt: new Date(started).toISOString(), error: (error as Error).message, durationMs: Date.now() - started });
+        retryable = true;
+      }
+
+      if (!retryable || attempt === this.maxAttempts - 1) {
+        delivery.status = 'failed';
+        break;
+      }
+      logWarn(`Webhook delivery to ${target.url} failed, retrying`, { deliveryId: delivery.id, attempt: attempt + 1, maxAttempts: this.maxAttempts });
+      await this.save(delivery);
+    }
+
+    delivery.completedAt = new Date().toISOString();
+    await this.save(delivery);
+    if (delivery.status === 'delivered') {
+      logInfo('Webhook delivered', { deliveryId: delivery.id, event: delivery.event, url: target.url });
+    } else {
+      logWarn(`Webhook delivery to ${target.url} failed`, { deliveryId: delivery.id, event: delivery.event, attempts: delivery.attempts.length });
+    }
+  }
+
+  private async save(delivery: WebhookDelivery): Promise<void> {
+    try {
+      await this.store.saveWebhookDelivery(delivery);
+    } catch (error) {
+      logError('Failed to save webhook delivery', error as Error, { deliveryId: delivery.id, analysisId: delivery.analysisId });
+    }
+  }
+}